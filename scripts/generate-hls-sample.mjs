@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Builds the local HLS sample used to test the player
+ * Writes two renditions of public/videos/auth-video3.mp4 to .hls-sample, a
+ * git-ignored folder the Vite dev server serves at /hls/sample (see vite.config.ts):
+ * - 720p: the clip itself
+ * - 360p: a lower bitrate copy encoded with the ffmpeg binary from @ffmpeg-installer
+ * Each one is split into fragmented MP4 (an init segment and one media segment)
+ * with its own playlist, and master.m3u8 lists both as quality levels
+ *
+ * Usage: npm run hls:sample
+ */
+
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import { createFile, MP4BoxBuffer } from "mp4box";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+
+const SOURCE = "public/videos/auth-video3.mp4";
+const OUTPUT = ".hls-sample";
+
+/**
+ * Lower rendition: height in px and target video bitrate
+ */
+const LOW_HEIGHT = 360;
+const LOW_BITRATE = "600k";
+
+/**
+ * Splits an MP4 into an init segment and a single media segment and writes its playlist
+ *
+ * @param {string} source - MP4 file to split
+ * @param {string} name - Folder of the rendition inside OUTPUT
+ * @returns {Promise<{bandwidth: number, width: number, height: number, codec: string, duration: number}>}
+ * Details used in the master playlist
+ */
+const writeRendition = (source, name) =>
+  new Promise((resolve, reject) => {
+    const data = readFileSync(source);
+    const file = createFile();
+    const dir = `${OUTPUT}/${name}`;
+    mkdirSync(dir, { recursive: true });
+
+    file.onError = (error) => reject(new Error(`${source}: ${error}`));
+
+    file.onReady = (info) => {
+      const track = info.tracks.find((item) => item.type === "video");
+      if (!track) {
+        reject(new Error(`${source} has no video track`));
+        return;
+      }
+
+      // A single segment: mp4box cuts fragments one frame after the keyframes
+      file.setSegmentOptions(track.id, null, { nbSamples: track.nb_samples });
+      const init = file.initializeSegmentation();
+      writeFileSync(`${dir}/init.mp4`, new Uint8Array(init.buffer));
+
+      const duration = track.duration / track.timescale;
+
+      file.onSegment = (_id, _user, buffer) => {
+        writeFileSync(`${dir}/segment0.m4s`, new Uint8Array(buffer));
+        writeFileSync(
+          `${dir}/video.m3u8`,
+          [
+            "#EXTM3U",
+            "#EXT-X-VERSION:7",
+            `#EXT-X-TARGETDURATION:${Math.ceil(duration)}`,
+            "#EXT-X-PLAYLIST-TYPE:VOD",
+            '#EXT-X-MAP:URI="init.mp4"',
+            `#EXTINF:${duration.toFixed(3)},`,
+            "segment0.m4s",
+            "#EXT-X-ENDLIST",
+            "",
+          ].join("\n")
+        );
+
+        resolve({
+          bandwidth: Math.round(track.bitrate),
+          width: track.video.width,
+          height: track.video.height,
+          codec: track.codec,
+          duration,
+        });
+      };
+
+      file.start();
+    };
+
+    file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength), 0));
+    file.flush();
+  });
+
+rmSync(OUTPUT, { recursive: true, force: true });
+mkdirSync(OUTPUT, { recursive: true });
+
+// Encode the lower rendition; the temporary MP4 is removed once it has been split
+const lowSource = `${OUTPUT}/${LOW_HEIGHT}p.mp4`;
+execFileSync(
+  ffmpeg.path,
+  [
+    "-hide_banner",
+    "-loglevel", "error",
+    "-i", SOURCE,
+    "-an",
+    "-vf", `scale=-2:${LOW_HEIGHT}`,
+    "-c:v", "libx264",
+    "-profile:v", "main",
+    "-b:v", LOW_BITRATE,
+    "-maxrate", LOW_BITRATE,
+    "-bufsize", "1200k",
+    lowSource,
+  ],
+  { stdio: "inherit" }
+);
+
+const renditions = [await writeRendition(SOURCE, "720p"), await writeRendition(lowSource, `${LOW_HEIGHT}p`)];
+rmSync(lowSource);
+
+writeFileSync(
+  `${OUTPUT}/master.m3u8`,
+  [
+    "#EXTM3U",
+    "# Generated by scripts/generate-hls-sample.mjs",
+    ...renditions.flatMap(({ bandwidth, width, height, codec }) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${height},CODECS="${codec}"`,
+      `${height}p/video.m3u8`,
+    ]),
+    "",
+  ].join("\n")
+);
+
+console.log(
+  `HLS sample written to ${OUTPUT} (${renditions.map(({ height }) => `${height}p`).join(", ")}, ${renditions[0].duration.toFixed(1)} s)`
+);
@@ -5,7 +5,7 @@
  * @module App
  */
 
-import React from "react";
+import React, { useEffect } from "react";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import HomePage from "./pages/HomePage";
 import LoginPage from "./pages/LoginPage";
@@ -18,10 +18,12 @@ import Layout from "./components/Layout";
 import ProfilePage from "./pages/ProfilePage";
 import SearchPage from "./pages/SearchPage";
 import LikedPage from "./pages/LikedPage";
+import HistoryPage from "./pages/HistoryPage";
 import AboutUsPage from "./pages/AboutUsPage";
 import SiteMapPage from "./pages/SiteMapPage";
 import VideoPage from "./pages/VideoPage";
 import UserManualPage from "./pages/UserManualPage";
+import useSettingsStore from "./stores/useSettingsStore";
 
 /**
  * Root application component
@@ -43,6 +45,7 @@ import UserManualPage from "./pages/UserManualPage";
  * - /profile - User profile
  * - /search - Video search and filtering
  * - /liked - Liked videos
+ * - /history - Watch history
  * - /about - About us
  * - /sitemap - Site map
  * 
@@ -60,10 +63,16 @@ import UserManualPage from "./pages/UserManualPage";
  */
 const App: React.FC = () => {
   // Zustand with persist automatically handles state restoration from localStorage
-  
+  const theme = useSettingsStore((state) => state.theme);
+
+  // The light theme redefines the semantic color variables (surface, foreground, accents) from the root element
+  useEffect(() => {
+    document.documentElement.classList.toggle("theme-light", theme === "light");
+  }, [theme]);
+
   return (
     <BrowserRouter>
-      <main className="bg-darkblue min-w-full min-h-screen">
+      <main className="bg-surface min-w-full min-h-screen">
         <Routes>
           {/* Root route redirects to login */}
           <Route path="/" element={<Navigate to="/login" replace />} />
@@ -153,6 +162,16 @@ const App: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/history"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <HistoryPage />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/about"
             element={
@@ -0,0 +1,216 @@
+import { useEffect, useId, useRef, useState, type ReactNode, type RefObject } from "react";
+
+/**
+ * Props for the CarouselScroller component
+ * @typedef {Object} CarouselScrollerProps
+ * @property {string} label - Accessible name of the carousel (usually its title)
+ * @property {RefObject<HTMLDivElement | null>} scrollerRef - Ref to the scrolling element (used for scroll restoration)
+ * @property {number} itemCount - Number of items, to refresh the buttons and the end detection
+ * @property {Function} [onReachEnd] - Called when the end of the list comes into view
+ * @property {ReactNode} children - Items, one element each
+ */
+interface CarouselScrollerProps {
+  label: string;
+  scrollerRef: RefObject<HTMLDivElement | null>;
+  itemCount: number;
+  onReachEnd?: () => void;
+  children: ReactNode;
+}
+
+/**
+ * Distance before the end at which onReachEnd is called (px)
+ * @constant {string}
+ */
+const END_MARGIN = "0px 400px 0px 0px";
+
+/**
+ * Elements that receive focus when moving between items with the arrow keys
+ * @constant {string}
+ */
+const FOCUSABLE = '[tabindex="0"], a[href], button:not([disabled])';
+
+const NAV_BUTTON_CLASS =
+  "hidden md:flex absolute top-24 -translate-y-1/2 z-20 w-10 h-10 items-center justify-center rounded-full bg-surface/90 border border-foreground/30 text-foreground cursor-pointer hover:border-green hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green disabled:opacity-0 disabled:pointer-events-none";
+
+/**
+ * Horizontal scroller shared by the video carousels
+ *
+ * @component
+ * @param {CarouselScrollerProps} props - Component props
+ * @returns {JSX.Element} Scrollable row with previous/next buttons
+ *
+ * @example
+ * ```tsx
+ * <CarouselScroller label="Viajes" scrollerRef={scrollerRef} itemCount={videos.length} onReachEnd={loadMore}>
+ *   {videos.map((video) => <VideoCard key={video._id} video={video} />)}
+ * </CarouselScroller>
+ * ```
+ *
+ * @description
+ * - Previous/next buttons scroll by the visible width and are disabled (hidden) at the edges
+ * - ArrowLeft/ArrowRight move focus to the previous/next item, Home/End to the first/last
+ * - An invisible sentinel after the last item calls onReachEnd (infinite horizontal scroll)
+ */
+const CarouselScroller: React.FC<CarouselScrollerProps> = ({ label, scrollerRef, itemCount, onReachEnd, children }) => {
+  const scrollerId = useId();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onReachEndRef = useRef(onReachEnd);
+  const [canScroll, setCanScroll] = useState({ prev: false, next: false });
+  const hasReachEnd = onReachEnd !== undefined;
+
+  useEffect(() => {
+    onReachEndRef.current = onReachEnd;
+  }, [onReachEnd]);
+
+  /**
+   * Effect: Tracks whether there is content before and after the visible part
+   * Updated on scroll (once per frame), on resize and when items change
+   */
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const prev = scroller.scrollLeft > 1;
+      const next = scroller.scrollLeft + scroller.clientWidth < scroller.scrollWidth - 1;
+      setCanScroll((current) => (current.prev === prev && current.next === next ? current : { prev, next }));
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    scroller.addEventListener("scroll", schedule, { passive: true });
+    const resizeObserver = new ResizeObserver(schedule);
+    resizeObserver.observe(scroller);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener("scroll", schedule);
+      resizeObserver.disconnect();
+    };
+  }, [scrollerRef, itemCount]);
+
+  /**
+   * Effect: Calls onReachEnd when the sentinel after the last item is near
+   * Re-observed when items change, so a sentinel still in view after a page
+   * is appended asks for the next one
+   */
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    const sentinel = sentinelRef.current;
+    if (!hasReachEnd || !scroller || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onReachEndRef.current?.();
+      },
+      { root: scroller, rootMargin: END_MARGIN },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [scrollerRef, itemCount, hasReachEnd]);
+
+  /**
+   * Scrolls one visible width backwards or forwards
+   *
+   * @param {number} direction - -1 previous, 1 next
+   */
+  const scrollPage = (direction: number) => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    scroller.scrollBy({ left: direction * scroller.clientWidth, behavior: "smooth" });
+  };
+
+  /**
+   * Moves focus between items with the arrow, Home and End keys
+   *
+   * @param {React.KeyboardEvent<HTMLDivElement>} e - Keyboard event from inside the scroller
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!["ArrowLeft", "ArrowRight", "Home", "End"].includes(e.key)) return;
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+
+    const items = Array.from(scroller.children).filter((child) => child !== sentinelRef.current);
+    const current = items.findIndex((item) => item.contains(e.target as Node));
+    if (current === -1) return;
+
+    const target =
+      e.key === "Home" ? 0 : e.key === "End" ? items.length - 1 : current + (e.key === "ArrowRight" ? 1 : -1);
+    const focusable = items[target]?.querySelector<HTMLElement>(FOCUSABLE);
+    if (!focusable) return;
+
+    e.preventDefault();
+    focusable.focus({ preventScroll: true });
+    items[target].scrollIntoView({ behavior: "smooth", block: "nearest", inline: "nearest" });
+  };
+
+  return (
+    <div className="relative" role="region" aria-roledescription="carrusel" aria-label={label}>
+      <button
+        type="button"
+        onClick={() => scrollPage(-1)}
+        disabled={!canScroll.prev}
+        className={`${NAV_BUTTON_CLASS} left-1`}
+        aria-label={`Videos anteriores de ${label}`}
+        aria-controls={scrollerId}
+      >
+        <svg
+          width="24"
+          height="24"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          aria-hidden="true"
+        >
+          <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+          <path d="M15 6l-6 6l6 6" />
+        </svg>
+      </button>
+      <div
+        id={scrollerId}
+        ref={scrollerRef}
+        onKeyDown={handleKeyDown}
+        className="flex gap-6 overflow-x-auto scroll-smooth pb-4"
+        style={{
+          scrollbarWidth: "thin",
+          scrollbarColor: "#3b82f6 #1f2937",
+        }}
+      >
+        {children}
+        {hasReachEnd && <div ref={sentinelRef} className="w-px flex-shrink-0" aria-hidden="true" />}
+      </div>
+      <button
+        type="button"
+        onClick={() => scrollPage(1)}
+        disabled={!canScroll.next}
+        className={`${NAV_BUTTON_CLASS} right-1`}
+        aria-label={`Siguientes videos de ${label}`}
+        aria-controls={scrollerId}
+      >
+        <svg
+          width="24"
+          height="24"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          aria-hidden="true"
+        >
+          <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+          <path d="M9 6l6 6l-6 6" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default CarouselScroller;
@@ -0,0 +1,51 @@
+import type { VideoCategory } from "../types/category.types";
+
+/**
+ * Props for the CategoryIcon component
+ * @typedef {Object} CategoryIconProps
+ * @property {VideoCategory} category - Category whose icon is drawn
+ * @property {number} [size=20] - Width and height in px
+ * @property {string} [className] - Extra classes for the svg
+ */
+interface CategoryIconProps {
+  category: VideoCategory;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Outline icon of a video category
+ * Decorative: the category label is always shown next to it
+ *
+ * @component
+ * @param {CategoryIconProps} props - Component props
+ * @returns {JSX.Element} Icon svg
+ *
+ * @example
+ * ```tsx
+ * <CategoryIcon category={category} size={16} />
+ * ```
+ */
+const CategoryIcon: React.FC<CategoryIconProps> = ({ category, size = 20, className = "" }) => {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+      aria-hidden="true"
+    >
+      <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+      {category.icon.map((d) => (
+        <path key={d} d={d} />
+      ))}
+    </svg>
+  );
+};
+
+export default CategoryIcon;
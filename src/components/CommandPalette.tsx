@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Modal from "./Modal";
+import useUserStore from "../stores/useUserStore";
+import useSettingsStore from "../stores/useSettingsStore";
+import useWatchHistoryStore from "../stores/useWatchHistoryStore";
+import { getSearchPath } from "../utils/searchQuery";
+import { simplifyText } from "../utils/text";
+
+/**
+ * Props for the CommandPalette component
+ * @typedef {Object} CommandPaletteProps
+ * @property {Function} onClose - Closes the palette
+ */
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+/**
+ * Command shown in the palette
+ * @property {string} id - Unique ID (also used for the option element ID)
+ * @property {string} label - Spanish text shown to the user
+ * @property {string} group - Section name
+ * @property {string} [keywords] - Extra words matched by the filter
+ * @property {Function} run - Executes the command
+ */
+interface PaletteCommand {
+  id: string;
+  label: string;
+  group: "Buscar" | "Ir a" | "Vistos recientemente" | "Acciones";
+  keywords?: string;
+  run: () => void;
+}
+
+/**
+ * Routes reachable from the palette
+ * @constant
+ */
+const ROUTE_COMMANDS: Array<{ path: string; label: string; keywords: string }> = [
+  { path: "/home", label: "Inicio", keywords: "home principal carruseles" },
+  { path: "/search", label: "Buscar videos", keywords: "search busqueda" },
+  { path: "/liked", label: "Favoritos", keywords: "liked me gusta" },
+  { path: "/history", label: "Historial", keywords: "history vistos reproducidos" },
+  { path: "/profile", label: "Perfil", keywords: "profile cuenta usuario" },
+  { path: "/sitemap", label: "Mapa del sitio", keywords: "sitemap" },
+  { path: "/user-manual", label: "Manual de usuario", keywords: "manual ayuda help" },
+  { path: "/about", label: "Sobre nosotros", keywords: "about equipo" },
+];
+
+/**
+ * Maximum recently watched videos listed
+ * @constant {number}
+ */
+const MAX_RECENT_VIDEOS = 5;
+
+/**
+ * Command palette opened with Ctrl/Cmd+K
+ * Searches videos, jumps to routes, reopens recently watched videos and runs actions
+ *
+ * @component
+ * @param {CommandPaletteProps} props - Component props
+ * @returns {JSX.Element} Palette dialog
+ *
+ * @example
+ * ```tsx
+ * {isPaletteOpen && <CommandPalette onClose={closePalette} />}
+ * ```
+ *
+ * @description
+ * - Typed text becomes a "Buscar" command using the search box query language
+ * - ArrowUp/ArrowDown move through commands, Enter runs, Escape closes
+ * - Combobox pattern: focus stays in the input, aria-activedescendant marks the command
+ * - Mounted only while open, so every opening starts empty
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const user = useUserStore((state) => state.user);
+  const logout = useUserStore((state) => state.logout);
+  const theme = useSettingsStore((state) => state.theme);
+  const toggleTheme = useSettingsStore((state) => state.toggleTheme);
+  const history = useWatchHistoryStore((state) => (user ? state.byUser[user.id] : undefined));
+
+  const commands = useMemo(() => {
+    /**
+     * Closes the palette and navigates
+     *
+     * @param {string} path - Destination
+     */
+    const go = (path: string) => {
+      onClose();
+      navigate(path);
+    };
+
+    const all: PaletteCommand[] = [];
+    const searchPath = query.trim() ? getSearchPath(query) : null;
+    if (searchPath) {
+      all.push({ id: "search", label: `Buscar "${query.trim()}"`, group: "Buscar", run: () => go(searchPath) });
+    }
+
+    ROUTE_COMMANDS.forEach((route) =>
+      all.push({
+        id: `route-${route.path.slice(1)}`,
+        label: route.label,
+        group: "Ir a",
+        keywords: `${route.keywords} ${route.path}`,
+        run: () => go(route.path),
+      })
+    );
+
+    (history ?? []).slice(0, MAX_RECENT_VIDEOS).forEach((entry) =>
+      all.push({
+        id: `video-${entry.videoId}`,
+        label: `Video de ${entry.author} (${entry.duration}s)`,
+        group: "Vistos recientemente",
+        keywords: "visto historial reciente",
+        run: () => go(`/video/${entry.videoId}`),
+      })
+    );
+
+    all.push(
+      {
+        id: "toggle-theme",
+        label: theme === "dark" ? "Cambiar a tema claro" : "Cambiar a tema oscuro",
+        group: "Acciones",
+        keywords: "tema theme modo oscuro claro",
+        run: () => {
+          toggleTheme();
+          onClose();
+        },
+      },
+      {
+        id: "logout",
+        label: "Cerrar sesión",
+        group: "Acciones",
+        keywords: "logout salir",
+        run: () => {
+          onClose();
+          // ProtectedRoute sends the user to the login page afterwards
+          logout().catch((error) => console.error("Error al cerrar sesión:", error));
+        },
+      }
+    );
+
+    const words = simplifyText(query.trim()).split(/\s+/).filter(Boolean);
+    return all.filter(
+      (command) =>
+        command.group === "Buscar" ||
+        words.every((word) => simplifyText(`${command.label} ${command.keywords ?? ""}`).includes(word))
+    );
+  }, [query, history, theme, toggleTheme, logout, navigate, onClose]);
+
+  // The list shrinks while typing
+  const active = Math.min(activeIndex, commands.length - 1);
+
+  /**
+   * Handles keyboard navigation of the command list
+   *
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commands.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((active + 1) % commands.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(active <= 0 ? commands.length - 1 : active - 1);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      commands[active]?.run();
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose}>
+      <div className="w-full flex flex-col gap-3">
+        <h2 id="command-palette-title" className="sr-only">
+          Paleta de comandos
+        </h2>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Busca videos o escribe un comando..."
+          role="combobox"
+          aria-labelledby="command-palette-title"
+          aria-autocomplete="list"
+          aria-expanded={commands.length > 0}
+          aria-controls="command-palette-list"
+          aria-activedescendant={active >= 0 ? `command-${commands[active].id}` : undefined}
+          autoComplete="off"
+          spellCheck={false}
+          className="w-full px-4 py-3 bg-foreground/5 border-2 border-blue text-foreground rounded-lg focus:outline-none focus:border-lightblue placeholder-foreground/50"
+        />
+        <ul
+          id="command-palette-list"
+          role="listbox"
+          aria-label="Comandos"
+          className="max-h-80 overflow-y-auto flex flex-col gap-1"
+        >
+          {commands.map((command, index) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={index === active}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => command.run()}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-3 px-3 py-2 rounded cursor-pointer text-foreground ${
+                index === active ? "bg-blue/40" : ""
+              }`}
+            >
+              <span className="truncate">{command.label}</span>
+              <span className="shrink-0 text-xs uppercase tracking-wide text-foreground/50">{command.group}</span>
+            </li>
+          ))}
+          {commands.length === 0 && <li className="px-3 py-2 text-foreground/70">Sin resultados</li>}
+        </ul>
+        <p className="text-xs text-foreground/50 text-center">
+          ↑↓ para moverte · Enter para ejecutar · Esc para cerrar
+        </p>
+      </div>
+    </Modal>
+  );
+};
+
+export default CommandPalette;
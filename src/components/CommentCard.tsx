@@ -91,7 +91,7 @@ const CommentCard: React.FC<CommentCardProps> = ({
   };
 
   return (
-    <div className={`bg-white/5 rounded-lg p-4 border ${isOwner ? 'border-green/50' : 'border-white/10'}`}>
+    <div className={`bg-foreground/5 rounded-lg p-4 border ${isOwner ? 'border-green/50' : 'border-foreground/10'}`}>
       {/* Header: User info and actions */}
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center gap-3">
@@ -103,14 +103,14 @@ const CommentCard: React.FC<CommentCardProps> = ({
           {/* User name and date */}
           <div>
             <div className="flex items-center gap-2">
-              <p className="text-white font-semibold">{comment.userName}</p>
+              <p className="text-foreground font-semibold">{comment.userName}</p>
               {isOwner && (
                 <span className="px-2 py-0.5 bg-green/20 text-green text-xs rounded-full">
                   Tú
                 </span>
               )}
             </div>
-            <p className="text-white/60 text-sm">
+            <p className="text-foreground/60 text-sm">
               {formatDate(comment.createdAt)}
               {comment.updatedAt && comment.updatedAt !== comment.createdAt && (
                 <span className="ml-1 italic">(editado)</span>
@@ -126,7 +126,7 @@ const CommentCard: React.FC<CommentCardProps> = ({
               <button
                 onClick={() => onEdit(comment)}
                 disabled={isProcessing}
-                className="p-2 hover:bg-white/10 rounded transition disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                className="p-2 hover:bg-foreground/10 rounded transition disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                 title="Editar comentario"
               >
                 <svg
@@ -138,7 +138,7 @@ const CommentCard: React.FC<CommentCardProps> = ({
                   strokeWidth="2"
                   strokeLinecap="round"
                   strokeLinejoin="round"
-                  className="text-white/80"
+                  className="text-foreground/80"
                 >
                   <path stroke="none" d="M0 0h24v24H0z" fill="none" />
                   <path d="M7 7h-1a2 2 0 0 0 -2 2v9a2 2 0 0 0 2 2h9a2 2 0 0 0 2 -2v-1" />
@@ -179,7 +179,7 @@ const CommentCard: React.FC<CommentCardProps> = ({
       </div>
 
       {/* Comment text */}
-      <p className="text-white/90 leading-relaxed whitespace-pre-wrap break-words">
+      <p className="text-foreground/90 leading-relaxed whitespace-pre-wrap break-words">
         {comment.text}
       </p>
     </div>
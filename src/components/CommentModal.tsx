@@ -220,14 +220,14 @@ const CommentModal: React.FC<CommentModalProps> = ({
       aria-modal="true"
       aria-labelledby="comment-modal-title"
     >
-      <div ref={modalRef} className="bg-darkblue border border-white/20 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+      <div ref={modalRef} className="bg-surface border border-foreground/20 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-white/10">
-          <h2 id="comment-modal-title" className="text-xl font-semibold text-white">{title}</h2>
+        <div className="flex items-center justify-between p-6 border-b border-foreground/10">
+          <h2 id="comment-modal-title" className="text-xl font-semibold text-foreground">{title}</h2>
           <button
             onClick={handleClose}
             disabled={isSubmitting}
-            className="text-white/60 hover:text-white transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-white rounded"
+            className="text-foreground/60 hover:text-foreground transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-foreground rounded"
             aria-label="Cerrar modal"
           >
             <svg
@@ -250,7 +250,7 @@ const CommentModal: React.FC<CommentModalProps> = ({
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6">
           <div className="mb-6">
-            <label htmlFor="comment-text" className="block text-white/80 mb-2">
+            <label htmlFor="comment-text" className="block text-foreground/80 mb-2">
               Comentario
             </label>
             <textarea
@@ -260,15 +260,15 @@ const CommentModal: React.FC<CommentModalProps> = ({
               disabled={isSubmitting}
               placeholder="Escribe tu comentario aquí..."
               rows={6}
-              className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-green/50 focus:ring-1 focus:ring-green/50 resize-none disabled:opacity-50 disabled:cursor-not-allowed"
+              className="w-full px-4 py-3 bg-foreground/5 border border-foreground/10 rounded-lg text-foreground placeholder-foreground/40 focus:outline-none focus:border-green/50 focus:ring-1 focus:ring-green/50 resize-none disabled:opacity-50 disabled:cursor-not-allowed"
               maxLength={1000}
               autoFocus
             />
             <div className="flex justify-between items-center mt-2">
-              <p className="text-white/40 text-sm">
+              <p className="text-foreground/40 text-sm">
                 Máximo 1000 caracteres
               </p>
-              <p className={`text-sm ${text.length > 900 ? 'text-red' : 'text-white/60'}`}>
+              <p className={`text-sm ${text.length > 900 ? 'text-red' : 'text-foreground/60'}`}>
                 {text.length}/1000
               </p>
             </div>
@@ -280,7 +280,7 @@ const CommentModal: React.FC<CommentModalProps> = ({
               type="button"
               onClick={handleClose}
               disabled={isSubmitting}
-              className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
+              className="px-6 py-2 bg-foreground/10 hover:bg-foreground/20 text-foreground rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-foreground cursor-pointer"
               aria-label="Cancelar comentario"
             >
               Cancelar
@@ -167,14 +167,14 @@ const DeleteCommentModal: React.FC<DeleteCommentModalProps> = ({
       aria-modal="true"
       aria-labelledby="delete-modal-title"
     >
-      <div ref={modalRef} className="bg-darkblue border border-white/20 rounded-lg shadow-xl max-w-md w-full">
+      <div ref={modalRef} className="bg-surface border border-foreground/20 rounded-lg shadow-xl max-w-md w-full">
         {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-white/10">
-          <h2 id="delete-modal-title" className="text-xl font-semibold text-white">Eliminar comentario</h2>
+        <div className="flex items-center justify-between p-6 border-b border-foreground/10">
+          <h2 id="delete-modal-title" className="text-xl font-semibold text-foreground">Eliminar comentario</h2>
           <button
             onClick={onClose}
             disabled={isDeleting}
-            className="text-white/60 hover:text-white transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-white rounded"
+            className="text-foreground/60 hover:text-foreground transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-foreground rounded"
             aria-label="Cerrar modal"
           >
             <svg
@@ -216,10 +216,10 @@ const DeleteCommentModal: React.FC<DeleteCommentModalProps> = ({
               </svg>
             </div>
             <div>
-              <p className="text-white/90 mb-2">
+              <p className="text-foreground/90 mb-2">
                 ¿Estás seguro de que deseas eliminar este comentario?
               </p>
-              <p className="text-white/60 text-sm">
+              <p className="text-foreground/60 text-sm">
                 Esta acción no se puede deshacer.
               </p>
             </div>
@@ -230,7 +230,7 @@ const DeleteCommentModal: React.FC<DeleteCommentModalProps> = ({
             <button
               onClick={onClose}
               disabled={isDeleting}
-              className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
+              className="px-6 py-2 bg-foreground/10 hover:bg-foreground/20 text-foreground rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-foreground cursor-pointer"
               aria-label="Cancelar eliminación de comentario"
             >
               Cancelar
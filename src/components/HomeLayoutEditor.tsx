@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import Modal from "./Modal";
+import Input from "./Input";
+import type { HomeCarousel } from "../types/preferences.types";
+import { createQueryCarousel, getHomeCarouselSource, moveCarousel } from "../utils/homeLayout";
+
+/**
+ * Props for the HomeLayoutEditor component
+ * @typedef {Object} HomeLayoutEditorProps
+ * @property {boolean} isOpen - Modal open state
+ * @property {HomeCarousel[]} carousels - Carousels in display order, hidden ones included
+ * @property {Function} onChange - Receives the new list after every change
+ * @property {Function} onReset - Restores the default carousels
+ * @property {Function} onClose - Closes the editor
+ */
+interface HomeLayoutEditorProps {
+  isOpen: boolean;
+  carousels: HomeCarousel[];
+  onChange: (carousels: HomeCarousel[]) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Maximum custom search carousels
+ * @constant {number}
+ */
+const MAX_QUERY_CAROUSELS = 10;
+
+/**
+ * Spanish name of each kind of carousel
+ * @constant
+ */
+const KIND_LABELS: Record<HomeCarousel["kind"], string> = {
+  recommended: "Para ti",
+  category: "Categoría",
+  query: "Búsqueda",
+};
+
+const ICON_BUTTON_CLASS =
+  "p-1 text-foreground rounded cursor-pointer hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green disabled:opacity-30 disabled:cursor-not-allowed";
+
+/**
+ * Modal to personalize the HomePage carousels
+ * Changes are applied as they are made; there is no save button
+ *
+ * @component
+ * @param {HomeLayoutEditorProps} props - Component props
+ * @returns {JSX.Element} Editor modal
+ *
+ * @example
+ * ```tsx
+ * <HomeLayoutEditor
+ *   isOpen={isEditing}
+ *   carousels={carousels}
+ *   onChange={updateLayout}
+ *   onReset={resetLayout}
+ *   onClose={closeEditor}
+ * />
+ * ```
+ *
+ * @description
+ * - Move carousels up and down (focus follows the moved carousel)
+ * - Show or hide any carousel
+ * - Add carousels for a custom search (e.g. "drones") with an optional title, and remove them
+ * - Restore the default list
+ */
+const HomeLayoutEditor: React.FC<HomeLayoutEditorProps> = ({ isOpen, carousels, onChange, onReset, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [title, setTitle] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [focusTarget, setFocusTarget] = useState<string | null>(null);
+
+  const queryCount = carousels.filter((carousel) => carousel.kind === "query").length;
+
+  /**
+   * Effect: Keeps focus on the move button after the list is reordered
+   * (moving a focused node in the DOM drops its focus in some browsers)
+   */
+  useEffect(() => {
+    if (!focusTarget) return;
+    document.getElementById(focusTarget)?.focus();
+    setFocusTarget(null);
+  }, [focusTarget]);
+
+  /**
+   * Moves a carousel one position
+   *
+   * @param {number} index - Position of the carousel
+   * @param {number} offset - -1 up, 1 down
+   */
+  const handleMove = (index: number, offset: number) => {
+    const carousel = carousels[index];
+    const next = moveCarousel(carousels, index, offset);
+    if (next === carousels) return;
+    onChange(next);
+    // At the edge that button becomes disabled, so focus goes to the opposite one
+    const target = index + offset;
+    const button = offset < 0 ? (target === 0 ? "down" : "up") : target === carousels.length - 1 ? "up" : "down";
+    setFocusTarget(`home-carousel-${carousel.id}-${button}`);
+  };
+
+  /**
+   * Shows or hides a carousel
+   *
+   * @param {HomeCarousel} carousel - Carousel to toggle
+   */
+  const handleToggle = (carousel: HomeCarousel) => {
+    onChange(carousels.map((item) => (item.id === carousel.id ? { ...item, hidden: !item.hidden } : item)));
+  };
+
+  /**
+   * Removes a custom search carousel
+   *
+   * @param {HomeCarousel} carousel - Carousel to remove
+   */
+  const handleRemove = (carousel: HomeCarousel) => {
+    onChange(carousels.filter((item) => item.id !== carousel.id));
+  };
+
+  /**
+   * Adds a carousel for the typed search at the top of the list
+   *
+   * @param {React.FormEvent<HTMLFormElement>} e - Form event
+   */
+  const handleAdd = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const term = query.trim();
+    if (!term) {
+      setError("Escribe qué quieres ver en el carrusel");
+      return;
+    }
+    if (queryCount >= MAX_QUERY_CAROUSELS) {
+      setError(`Puedes añadir hasta ${MAX_QUERY_CAROUSELS} carruseles personalizados`);
+      return;
+    }
+    const exists = carousels.some(
+      (carousel) => carousel.kind === "query" && carousel.query.toLowerCase() === term.toLowerCase()
+    );
+    if (exists) {
+      setError("Ya tienes un carrusel con esa búsqueda");
+      return;
+    }
+
+    onChange([createQueryCarousel(term, title), ...carousels]);
+    setQuery("");
+    setTitle("");
+    setError(null);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="flex flex-col gap-4 w-full">
+        <h3 className="text-2xl text-foreground font-semibold text-center">Personalizar inicio</h3>
+
+        <ul className="flex flex-col gap-2 max-h-80 overflow-y-auto" aria-label="Carruseles del inicio">
+          {carousels.map((carousel, index) => {
+            const { title: carouselTitle } = getHomeCarouselSource(carousel);
+            return (
+              <li
+                key={carousel.id}
+                className={`flex items-center gap-2 px-3 py-2 rounded bg-foreground/5 border border-foreground/10 ${
+                  carousel.hidden ? "opacity-60" : ""
+                }`}
+              >
+                <label className="flex flex-1 min-w-0 items-center gap-2 text-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!carousel.hidden}
+                    onChange={() => handleToggle(carousel)}
+                    className="accent-lightblue"
+                  />
+                  <span className="truncate">{carouselTitle}</span>
+                  <span className="shrink-0 text-xs text-foreground/50">
+                    {KIND_LABELS[carousel.kind]}
+                  </span>
+                </label>
+                <button
+                  type="button"
+                  id={`home-carousel-${carousel.id}-up`}
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  className={ICON_BUTTON_CLASS}
+                  aria-label={`Subir ${carouselTitle}`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  id={`home-carousel-${carousel.id}-down`}
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === carousels.length - 1}
+                  className={ICON_BUTTON_CLASS}
+                  aria-label={`Bajar ${carouselTitle}`}
+                >
+                  ↓
+                </button>
+                {carousel.kind === "query" && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(carousel)}
+                    className="p-1 text-foreground rounded cursor-pointer hover:text-red transition focus:outline-none focus:ring-2 focus:ring-red"
+                    aria-label={`Eliminar ${carouselTitle}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <form onSubmit={handleAdd} className="flex flex-col gap-3 border-t border-foreground/10 pt-4" noValidate>
+          <h4 className="text-foreground font-semibold">Añadir carrusel</h4>
+          <Input
+            type="text"
+            id="home-carousel-query"
+            label="Búsqueda"
+            placeholder="p. ej. drones, lluvia, montañas"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setError(null);
+            }}
+          />
+          <Input
+            type="text"
+            id="home-carousel-title"
+            label="Título (opcional)"
+            placeholder="Se usa la búsqueda si lo dejas vacío"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          {error && (
+            <p className="text-sm text-red" role="alert">
+              {error}
+            </p>
+          )}
+          <button
+            type="submit"
+            className="bg-blue text-white py-2 rounded font-semibold hover:bg-blue-medium transition focus:outline-none focus:ring-2 focus:ring-lightblue cursor-pointer"
+          >
+            Añadir
+          </button>
+        </form>
+
+        <div className="flex gap-4 w-full">
+          <button
+            type="button"
+            onClick={onReset}
+            className="flex-1 bg-transparent border border-foreground/40 text-foreground py-2 rounded font-semibold hover:border-red hover:text-red transition focus:outline-none focus:ring-2 focus:ring-lightblue cursor-pointer"
+          >
+            Restablecer
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 bg-blue text-white py-2 rounded font-semibold hover:bg-blue-medium transition focus:outline-none focus:ring-2 focus:ring-lightblue cursor-pointer"
+          >
+            Listo
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default HomeLayoutEditor;
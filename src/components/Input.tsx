@@ -53,7 +53,7 @@ const Input: React.FC<InputProps> = ({
 }) => {
   return (
     <div className="w-full h-fit flex flex-col gap-1">
-      <label htmlFor={id} className="text-sm font-semibold text-white">
+      <label htmlFor={id} className="text-sm font-semibold text-foreground">
         {label}
       </label>
       <input
@@ -63,7 +63,7 @@ const Input: React.FC<InputProps> = ({
         value={value}
         onChange={onChange}
         required={required}
-        className="border-2 border-white/75 text-white bg-transparent rounded-sm h-10 p-2 focus:outline-none focus:border-lightblue"
+        className="border-2 border-foreground/75 text-foreground bg-transparent rounded-sm h-10 p-2 focus:outline-none focus:border-lightblue"
       />
     </div>
   );
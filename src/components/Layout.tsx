@@ -1,5 +1,7 @@
-import type { ReactNode } from "react";
+import { useCallback, useEffect, useState, type ReactNode } from "react";
 import Navbar from "./Navbar";
+import ServerWakeBanner from "./ServerWakeBanner";
+import CommandPalette from "./CommandPalette";
 
 /**
  * Props for the Layout component
@@ -12,7 +14,8 @@ interface LayoutProps {
 
 /**
  * Main application layout component
- * Includes the navigation bar (Navbar) and page content
+ * Includes the navigation bar (Navbar), the "waking the server" banner, the
+ * command palette (Ctrl/Cmd+K) and page content
  * Used as a wrapper for all protected routes
  * 
  * @component
@@ -31,10 +34,33 @@ interface LayoutProps {
  * for all pages of the authenticated application
  */
 const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+
+  // Stable reference: Modal re-runs its focus handling when onClose changes
+  const closePalette = useCallback(() => setIsPaletteOpen(false), []);
+  const openPalette = useCallback(() => setIsPaletteOpen(true), []);
+
+  /**
+   * Effect: Toggles the command palette with Ctrl+K (Cmd+K on macOS)
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setIsPaletteOpen((open) => !open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   return (
     <div>
-      <Navbar />
+      <Navbar onOpenCommandPalette={openPalette} />
+      <ServerWakeBanner floating />
       <main>{children}</main>
+      {isPaletteOpen && <CommandPalette onClose={closePalette} />}
     </div>
   );
 };
@@ -141,7 +141,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children }) => {
     >
       <div
         ref={modalRef}
-        className="flex flex-col justify-center items-center bg-darkblue border rounded-lg p-6 max-w-md w-full"
+        className="flex flex-col justify-center items-center bg-surface border rounded-lg p-6 max-w-md w-full"
         onClick={(e) => e.stopPropagation()}
       >
         {children}
@@ -1,4 +1,16 @@
+import { useEffect, useRef, useState } from "react";
 import { Link, useNavigate, useLocation } from "react-router";
+import { getSearchPath } from "../utils/searchQuery";
+import { isEditableTarget } from "../utils/keyboard";
+
+/**
+ * Props for the Navbar component
+ * @typedef {Object} NavbarProps
+ * @property {Function} [onOpenCommandPalette] - Opens the command palette (shows the "Ctrl K" button)
+ */
+interface NavbarProps {
+  onOpenCommandPalette?: () => void;
+}
 
 /**
  * Responsive navigation bar component
@@ -6,25 +18,69 @@ import { Link, useNavigate, useLocation } from "react-router";
  * Desktop/Tablet: single top bar with centered logo and navigation on the right
  *
  * @component
+ * @param {NavbarProps} props - Component props
  * @returns {JSX.Element} Adaptive navigation bar
  *
  * @example
  * ```tsx
- * <Navbar />
+ * <Navbar onOpenCommandPalette={() => setIsPaletteOpen(true)} />
  * ```
  *
  * @description
  * Features:
  * - Responsive navigation (mobile and desktop)
  * - "Back" button that appears on all pages except Home
- * - Links to: Home, Search, Liked, Profile
+ * - Links to: Home, Search, Liked, History, Profile
+ * - Compact search field on desktop, focused with the "/" key
+ * - "Ctrl K" button that opens the command palette
  * - Centered logo
  * - Fixed positioning (top on desktop, top + bottom on mobile)
  */
-const Navbar: React.FC = () => {
+const Navbar: React.FC<NavbarProps> = ({ onOpenCommandPalette }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const isHomePage = location.pathname === "/home";
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [searchText, setSearchText] = useState("");
+  const [isSearchInvalid, setIsSearchInvalid] = useState(false);
+
+  /**
+   * Effect: Focuses the compact search field when "/" is pressed
+   * Ignored while typing in another field
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "/" || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      const input = searchInputRef.current;
+      // Hidden on mobile (display: none)
+      if (!input || input.offsetParent === null) return;
+      e.preventDefault();
+      input.focus();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  /**
+   * Runs the compact search on the search page
+   * Accepts the same filters as the search box (author:, duration:, ...)
+   *
+   * @param {React.FormEvent<HTMLFormElement>} e - Form event
+   */
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!searchText.trim()) return;
+    const path = getSearchPath(searchText);
+    if (!path) {
+      // Malformed filters: the full search box explains the errors
+      setIsSearchInvalid(true);
+      return;
+    }
+    setSearchText("");
+    searchInputRef.current?.blur();
+    navigate(path);
+  };
 
   /**
    * Navigates to the previous page in browser history
@@ -35,11 +91,11 @@ const Navbar: React.FC = () => {
 
   return (
     <>
-      <nav className="md:hidden w-full fixed top-0 left-0 h-20 flex items-center justify-between bg-darkblue px-4 z-[1000]">
+      <nav className="md:hidden w-full fixed top-0 left-0 h-20 flex items-center justify-between bg-surface px-4 z-[1000]">
         {!isHomePage ? (
           <button
             onClick={handleGoBack}
-            className="back-button flex text-white cursor-pointer gap-2 hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green rounded px-2 py-1"
+            className="back-button flex text-foreground cursor-pointer gap-2 hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green rounded px-2 py-1"
             aria-label="Volver a la página anterior"
           >
             <svg
@@ -71,11 +127,11 @@ const Navbar: React.FC = () => {
         />
         <div className="w-16"></div>
       </nav>
-      <nav className="md:hidden w-full fixed bottom-0 left-0 h-20 bg-darkblue border-t z-[1000]">
+      <nav className="md:hidden w-full fixed bottom-0 left-0 h-20 bg-surface border-t z-[1000]">
         <div className="nav-options flex justify-around items-center h-full">
           <Link
             to="/home"
-            className="flex flex-col justify-center items-center text-white px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a la página principal"
           >
             <svg
@@ -99,7 +155,7 @@ const Navbar: React.FC = () => {
           </Link>
           <Link
             to="/search"
-            className="flex flex-col justify-center items-center text-white px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a búsqueda de videos"
           >
             <svg
@@ -122,7 +178,7 @@ const Navbar: React.FC = () => {
           </Link>
           <Link
             to="/liked"
-            className="flex flex-col justify-center items-center text-white px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a mis videos favoritos"
           >
             <svg
@@ -142,9 +198,32 @@ const Navbar: React.FC = () => {
             </svg>
             <p className="text-xs mt-1">Favoritos</p>
           </Link>
+          <Link
+            to="/history"
+            className="flex flex-col justify-center items-center text-foreground px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            aria-label="Ir a mi historial de videos vistos"
+          >
+            <svg
+              width="24"
+              height="24"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="icon icon-tabler icons-tabler-outline icon-tabler-history hover:stroke-green transition"
+              aria-hidden="true"
+            >
+              <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+              <path d="M12 8l0 4l2 2" />
+              <path d="M3.05 11a9 9 0 1 1 .5 4m-.5 5v-5h5" />
+            </svg>
+            <p className="text-xs mt-1">Historial</p>
+          </Link>
           <Link
             to="/profile"
-            className="flex flex-col justify-center items-center text-white px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a mi perfil"
           >
             <svg
@@ -169,11 +248,11 @@ const Navbar: React.FC = () => {
       </nav>
 
       {/* DESKTOP/TABLET: Single bar */}
-      <nav className="hidden md:flex w-full fixed top-0 left-0 h-20 items-center justify-between bg-darkblue px-8 z-[1000]">
+      <nav className="hidden md:flex w-full fixed top-0 left-0 h-20 items-center justify-between bg-surface px-8 z-[1000]">
         {!isHomePage ? (
           <button
             onClick={handleGoBack}
-            className="back-button flex text-white cursor-pointer gap-2 hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green rounded px-2 py-1"
+            className="back-button flex text-foreground cursor-pointer gap-2 hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green rounded px-2 py-1"
             aria-label="Volver a la página anterior"
           >
             <svg
@@ -203,10 +282,47 @@ const Navbar: React.FC = () => {
           alt="Logo de Video Platform"
           className="w-16 h-16 object-contain absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2"
         />
-        <div className="nav-options flex">
+        <div className="nav-options flex items-center">
+          <form role="search" onSubmit={handleSearch} className="mr-2">
+            <label htmlFor="navbar-search" className="sr-only">
+              Buscar videos
+            </label>
+            <input
+              ref={searchInputRef}
+              id="navbar-search"
+              type="search"
+              value={searchText}
+              onChange={(e) => {
+                setSearchText(e.target.value);
+                setIsSearchInvalid(false);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") e.currentTarget.blur();
+              }}
+              placeholder="Buscar ( / )"
+              aria-keyshortcuts="/"
+              aria-invalid={isSearchInvalid}
+              title={isSearchInvalid ? "Consulta no válida, revisa los filtros" : undefined}
+              autoComplete="off"
+              className={`w-36 lg:w-56 px-3 py-1.5 bg-foreground/5 border ${
+                isSearchInvalid ? "border-red" : "border-blue"
+              } text-foreground text-sm rounded-lg focus:outline-none focus:border-lightblue placeholder-foreground/50 transition-[width]`}
+            />
+          </form>
+          {onOpenCommandPalette && (
+            <button
+              type="button"
+              onClick={onOpenCommandPalette}
+              className="hidden lg:block mr-2 px-2 py-1 text-xs text-foreground/70 border border-foreground/30 rounded cursor-pointer hover:text-green hover:border-green focus:outline-none focus:ring-2 focus:ring-green transition"
+              aria-label="Abrir paleta de comandos"
+              aria-keyshortcuts="Control+K Meta+K"
+            >
+              Ctrl K
+            </button>
+          )}
           <Link
             to="/home"
-            className="flex flex-col justify-center items-center text-white px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a la página principal"
           >
             <svg
@@ -229,7 +345,7 @@ const Navbar: React.FC = () => {
           </Link>
           <Link
             to="/search"
-            className="flex flex-col justify-center items-center text-white px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a búsqueda de videos"
           >
             <svg
@@ -251,7 +367,7 @@ const Navbar: React.FC = () => {
           </Link>
           <Link
             to="/liked"
-            className="flex flex-col justify-center items-center text-white px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a mis videos favoritos"
           >
             <svg
@@ -270,9 +386,31 @@ const Navbar: React.FC = () => {
               <path d="M19.5 12.572l-7.5 7.428l-7.5 -7.428a5 5 0 1 1 7.5 -6.566a5 5 0 1 1 7.5 6.572" />
             </svg>
           </Link>
+          <Link
+            to="/history"
+            className="flex flex-col justify-center items-center text-foreground px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            aria-label="Ir a mi historial de videos vistos"
+          >
+            <svg
+              width="24"
+              height="24"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="icon icon-tabler icons-tabler-outline icon-tabler-history hover:stroke-green transition"
+              aria-hidden="true"
+            >
+              <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+              <path d="M12 8l0 4l2 2" />
+              <path d="M3.05 11a9 9 0 1 1 .5 4m-.5 5v-5h5" />
+            </svg>
+          </Link>
           <Link
             to="/profile"
-            className="flex flex-col justify-center items-center text-white px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
+            className="flex flex-col justify-center items-center text-foreground px-4 focus:outline-none focus:ring-2 focus:ring-green rounded transition"
             aria-label="Ir a mi perfil"
           >
             <svg
@@ -0,0 +1,210 @@
+import { useEffect, useId, useRef, type ReactNode } from "react";
+
+/**
+ * Option of a PlayerMenu
+ * @typedef {Object} PlayerMenuOption
+ * @property {string} value - Value passed to onSelect
+ * @property {string} label - Text shown in the menu
+ */
+export interface PlayerMenuOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Props for the PlayerMenu component
+ * @typedef {Object} PlayerMenuProps
+ * @property {string} label - Accessible name of the button and the menu
+ * @property {ReactNode} buttonContent - Icon or short text shown in the button
+ * @property {PlayerMenuOption[]} options - Choices, in display order
+ * @property {string} value - Selected value
+ * @property {boolean} isOpen - Menu open state
+ * @property {Function} onOpenChange - Opens or closes the menu
+ * @property {Function} onSelect - Receives the chosen value
+ * @property {string} [keyShortcuts] - Shortcut announced for the button (aria-keyshortcuts)
+ */
+interface PlayerMenuProps {
+  label: string;
+  buttonContent: ReactNode;
+  options: PlayerMenuOption[];
+  value: string;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (value: string) => void;
+  keyShortcuts?: string;
+}
+
+/**
+ * Pop-up menu of the video player controls (captions, quality, speed)
+ *
+ * @component
+ * @param {PlayerMenuProps} props - Component props
+ * @returns {JSX.Element} Menu button and, when open, the list of choices
+ *
+ * @example
+ * ```tsx
+ * <PlayerMenu
+ *   label="Velocidad"
+ *   buttonContent="1x"
+ *   options={[{ value: "1", label: "Normal" }, { value: "2", label: "2x" }]}
+ *   value="1"
+ *   isOpen={openMenu === "speed"}
+ *   onOpenChange={(open) => setOpenMenu(open ? "speed" : null)}
+ *   onSelect={(rate) => setRate(Number(rate))}
+ * />
+ * ```
+ *
+ * @description
+ * - Follows the menu button pattern: the menu gets focus on the selected option
+ * - ArrowUp/ArrowDown/Home/End move between options, Escape closes and returns focus to the button
+ * - Tab or a click outside closes it
+ */
+const PlayerMenu: React.FC<PlayerMenuProps> = ({
+  label,
+  buttonContent,
+  options,
+  value,
+  isOpen,
+  onOpenChange,
+  onSelect,
+  keyShortcuts,
+}) => {
+  const menuId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  /**
+   * Effect: Focuses the selected option when the menu opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const items = itemRefs.current;
+    (items.find((item) => item?.getAttribute("aria-checked") === "true") ?? items[0])?.focus();
+  }, [isOpen]);
+
+  /**
+   * Effect: Closes the menu on a click outside of it
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) onOpenChange(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => document.removeEventListener("pointerdown", handlePointerDown);
+  }, [isOpen, onOpenChange]);
+
+  /**
+   * Closes the menu and gives focus back to its button
+   */
+  const close = () => {
+    onOpenChange(false);
+    buttonRef.current?.focus();
+  };
+
+  /**
+   * Handles the arrow keys of the menu button (open on the selected option)
+   *
+   * @param {React.KeyboardEvent<HTMLButtonElement>} e - Keyboard event
+   */
+  const handleButtonKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      e.preventDefault();
+      e.stopPropagation();
+      onOpenChange(true);
+    }
+  };
+
+  /**
+   * Moves focus between options and closes the menu
+   *
+   * @param {React.KeyboardEvent<HTMLDivElement>} e - Keyboard event from an option
+   */
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const items = itemRefs.current.filter((item): item is HTMLButtonElement => item !== null);
+    const current = items.indexOf(document.activeElement as HTMLButtonElement);
+
+    switch (e.key) {
+      case "ArrowDown":
+        items[(current + 1) % items.length]?.focus();
+        break;
+      case "ArrowUp":
+        items[(current - 1 + items.length) % items.length]?.focus();
+        break;
+      case "Home":
+        items[0]?.focus();
+        break;
+      case "End":
+        items[items.length - 1]?.focus();
+        break;
+      case "Escape":
+        close();
+        break;
+      case "Tab":
+        onOpenChange(false);
+        return;
+      default:
+        return;
+    }
+    // Keeps the player shortcuts (arrows, Escape in fullscreen) out of the menu
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={() => onOpenChange(!isOpen)}
+        onKeyDown={handleButtonKeyDown}
+        className="min-w-10 h-10 px-2 flex items-center justify-center rounded text-white text-sm font-semibold cursor-pointer hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green"
+        aria-label={label}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        aria-keyshortcuts={keyShortcuts}
+      >
+        {buttonContent}
+      </button>
+
+      {isOpen && (
+        <div
+          id={menuId}
+          role="menu"
+          aria-label={label}
+          onKeyDown={handleMenuKeyDown}
+          className="absolute bottom-full right-0 mb-2 min-w-36 max-h-48 overflow-y-auto py-1 rounded bg-darkblue/95 border border-white/20 shadow-lg z-30"
+        >
+          {options.map((option, index) => (
+            <button
+              key={option.value}
+              ref={(element) => {
+                itemRefs.current[index] = element;
+              }}
+              type="button"
+              role="menuitemradio"
+              aria-checked={option.value === value}
+              tabIndex={-1}
+              onClick={() => {
+                onSelect(option.value);
+                close();
+              }}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm cursor-pointer hover:bg-white/10 focus:bg-white/10 focus:outline-none ${
+                option.value === value ? "text-green" : "text-white"
+              }`}
+            >
+              <span className="w-4" aria-hidden="true">
+                {option.value === value ? "✓" : ""}
+              </span>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerMenu;
@@ -1,4 +1,4 @@
-import { Navigate } from "react-router";
+import { Navigate, useLocation } from "react-router";
 import useUserStore from "../stores/useUserStore";
 import type { ReactNode } from "react";
 
@@ -30,24 +30,32 @@ interface ProtectedRouteProps {
  * @description
  * Component states:
  * - isLoading: Shows loading screen
- * - !isAuthenticated: Redirects to /login
+ * - !isAuthenticated: Redirects to /login, remembering the current route (with query string)
+ *   so the user can be sent back after logging in
  * - isAuthenticated: Shows content (children)
  */
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
   const { isAuthenticated, isLoading } = useUserStore();
+  const location = useLocation();
 
   // While verifying token, show loading
   if (isLoading) {
     return (
-      <div className="flex items-center justify-center h-screen bg-darkblue">
-        <div className="text-white text-xl">Loading...</div>
+      <div className="flex items-center justify-center h-screen bg-surface">
+        <div className="text-foreground text-xl">Loading...</div>
       </div>
     );
   }
 
-  // If not authenticated, redirect to login
+  // If not authenticated, redirect to login and remember where the user was
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return (
+      <Navigate
+        to="/login"
+        replace
+        state={{ from: `${location.pathname}${location.search}` }}
+      />
+    );
   }
 
   // If authenticated, show content
@@ -5,8 +5,9 @@
  * @module PublicRoute
  */
 
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import useUserStore from "../stores/useUserStore";
+import { getReturnPath } from "../utils/redirect";
 import type { ReactNode } from "react";
 
 /**
@@ -30,7 +31,7 @@ interface PublicRouteProps {
  * @description
  * Component states:
  * - isLoading: Shows loading screen
- * - isAuthenticated: Redirects to /home
+ * - isAuthenticated: Redirects to the route saved by ProtectedRoute, or /home
  * - !isAuthenticated: Shows content (login, register, etc.)
  * 
  * Use cases:
@@ -55,19 +56,20 @@ interface PublicRouteProps {
  */
 const PublicRoute: React.FC<PublicRouteProps> = ({ children }) => {
   const { isAuthenticated, isLoading } = useUserStore();
+  const location = useLocation();
 
   // While verifying token, show loading
   if (isLoading) {
     return (
-      <div className="flex items-center justify-center h-screen bg-darkblue">
-        <div className="text-white text-xl">Loading...</div>
+      <div className="flex items-center justify-center h-screen bg-surface">
+        <div className="text-foreground text-xl">Loading...</div>
       </div>
     );
   }
 
-  // If already authenticated, redirect to home
+  // If already authenticated, go back to where the user was (or home)
   if (isAuthenticated) {
-    return <Navigate to="/home" replace />;
+    return <Navigate to={getReturnPath(location.state)} replace />;
   }
 
   // If not authenticated, show content (login, register, etc.)
@@ -198,7 +198,7 @@ const RatingModal: React.FC<RatingModalProps> = ({
           strokeLinecap="round"
           strokeLinejoin="round"
           className={`${
-            isActive ? "text-yellow" : "text-white/40"
+            isActive ? "text-yellow" : "text-foreground/40"
           } transition-colors`}
         >
           <path stroke="none" d="M0 0h24v24H0z" fill="none" />
@@ -218,11 +218,11 @@ const RatingModal: React.FC<RatingModalProps> = ({
     >
       <div
         ref={modalRef}
-        className="flex flex-col justify-center items-center bg-darkblue border border-white/20 rounded-lg p-8 max-w-md w-full"
+        className="flex flex-col justify-center items-center bg-surface border border-foreground/20 rounded-lg p-8 max-w-md w-full"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Title */}
-        <h2 id="rating-modal-title" className="text-2xl font-bold text-white mb-4">
+        <h2 id="rating-modal-title" className="text-2xl font-bold text-foreground mb-4">
           ¿Cómo calificarías este video?
         </h2>
 
@@ -242,7 +242,7 @@ const RatingModal: React.FC<RatingModalProps> = ({
 
         {/* Rating text */}
         {rating > 0 && (
-          <p className="text-white/70 mb-6">
+          <p className="text-foreground/70 mb-6">
             {rating === 1 && "Muy malo"}
             {rating === 2 && "Malo"}
             {rating === 3 && "Regular"}
@@ -256,7 +256,7 @@ const RatingModal: React.FC<RatingModalProps> = ({
           <button
             onClick={handleClose}
             disabled={isSubmitting}
-            className="flex-1 px-6 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 transition disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer focus:outline-none focus:ring-2 focus:ring-white"
+            className="flex-1 px-6 py-3 bg-foreground/10 text-foreground rounded-lg hover:bg-foreground/20 transition disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer focus:outline-none focus:ring-2 focus:ring-foreground"
             aria-label="Cancelar calificación"
           >
             Cancelar
@@ -179,18 +179,18 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
     >
       <div
         ref={modalRef}
-        className="bg-darkblue border border-white/20 rounded-lg shadow-xl w-full max-w-md flex flex-col"
+        className="bg-surface border border-foreground/20 rounded-lg shadow-xl w-full max-w-md flex flex-col"
         style={{ maxHeight: '85vh' }}
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-white/10 flex-shrink-0">
-          <h2 id="rating-stats-title" className="text-xl font-semibold text-white">
+        <div className="flex items-center justify-between p-6 border-b border-foreground/10 flex-shrink-0">
+          <h2 id="rating-stats-title" className="text-xl font-semibold text-foreground">
             Calificaciones
           </h2>
           <button
             onClick={onClose}
-            className="text-white/60 hover:text-white transition focus:outline-none focus:ring-2 focus:ring-white rounded"
+            className="text-foreground/60 hover:text-foreground transition focus:outline-none focus:ring-2 focus:ring-foreground rounded"
             aria-label="Cerrar modal"
           >
             <svg
@@ -212,7 +212,7 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
         </div>
 
         {/* Average Rating */}
-        <div className="p-6 border-b border-white/10 flex-shrink-0">
+        <div className="p-6 border-b border-foreground/10 flex-shrink-0">
           <div className="text-center">
             <div className="text-5xl font-bold text-yellow mb-2">
               {stats.averageRating.toFixed(1)}
@@ -227,7 +227,7 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
                   fill={star <= Math.round(stats.averageRating) ? "currentColor" : "none"}
                   stroke="currentColor"
                   strokeWidth="2"
-                  className={star <= Math.round(stats.averageRating) ? "text-yellow" : "text-white/40"}
+                  className={star <= Math.round(stats.averageRating) ? "text-yellow" : "text-foreground/40"}
                   aria-hidden="true"
                 >
                   <path stroke="none" d="M0 0h24v24H0z" fill="none" />
@@ -235,7 +235,7 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
                 </svg>
               ))}
             </div>
-            <div className="text-white/60 text-sm">
+            <div className="text-foreground/60 text-sm">
               Basado en {stats.totalRatings} {stats.totalRatings === 1 ? 'calificación' : 'calificaciones'}
             </div>
           </div>
@@ -244,7 +244,7 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
         {/* Ratings List with Scroll */}
         <div className="flex-1 overflow-y-auto p-6 space-y-3" style={{ minHeight: '200px', maxHeight: 'calc(85vh - 280px)' }}>
           {allRatings.length === 0 ? (
-            <div className="text-center py-8 text-white/60">
+            <div className="text-center py-8 text-foreground/60">
               <p>No hay calificaciones aún</p>
             </div>
           ) : (
@@ -257,7 +257,7 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
                   className={`p-4 rounded-lg border ${
                     isUserRating
                       ? 'bg-green/10 border-green/30'
-                      : 'bg-white/5 border-white/10'
+                      : 'bg-foreground/5 border-foreground/10'
                   }`}
                 >
                   <div className="flex items-start justify-between mb-2">
@@ -275,7 +275,7 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
                             fill={star <= rating.rating ? "currentColor" : "none"}
                             stroke="currentColor"
                             strokeWidth="2"
-                            className={star <= rating.rating ? "text-yellow" : "text-white/40"}
+                            className={star <= rating.rating ? "text-yellow" : "text-foreground/40"}
                             aria-hidden="true"
                           >
                             <path stroke="none" d="M0 0h24v24H0z" fill="none" />
@@ -318,26 +318,26 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
                   
                   {isUserRating && showDeleteConfirm ? (
                     <div className="bg-red/20 border border-red/40 rounded p-3 mt-2">
-                      <p className="text-white text-sm mb-2">¿Eliminar tu calificación?</p>
+                      <p className="text-foreground text-sm mb-2">¿Eliminar tu calificación?</p>
                       <div className="flex gap-2">
                         <button
                           onClick={onDeleteRating}
                           disabled={isDeleting}
-                          className="flex-1 px-3 py-1 bg-red hover:bg-red/80 text-white text-sm rounded transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red"
+                          className="flex-1 px-3 py-1 bg-red hover:bg-red/80 text-foreground text-sm rounded transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red"
                         >
                           {isDeleting ? "Eliminando..." : "Sí"}
                         </button>
                         <button
                           onClick={() => setShowDeleteConfirm(false)}
                           disabled={isDeleting}
-                          className="flex-1 px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-sm rounded transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-white"
+                          className="flex-1 px-3 py-1 bg-foreground/10 hover:bg-foreground/20 text-foreground text-sm rounded transition disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-foreground"
                         >
                           No
                         </button>
                       </div>
                     </div>
                   ) : (
-                    <div className="text-white/40 text-xs mt-1">
+                    <div className="text-foreground/40 text-xs mt-1">
                       {formatDate(rating.createdAt)}
                     </div>
                   )}
@@ -348,10 +348,10 @@ const RatingStatsModal: React.FC<RatingStatsModalProps> = ({
         </div>
 
         {/* Footer */}
-        <div className="border-t border-white/10 p-4 flex justify-end flex-shrink-0">
+        <div className="border-t border-foreground/10 p-4 flex justify-end flex-shrink-0">
           <button
             onClick={onClose}
-            className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition focus:outline-none focus:ring-2 focus:ring-white"
+            className="px-6 py-2 bg-foreground/10 hover:bg-foreground/20 text-foreground rounded-lg transition focus:outline-none focus:ring-2 focus:ring-foreground"
             aria-label="Cerrar modal de calificaciones"
           >
             Cerrar
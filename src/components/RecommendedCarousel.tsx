@@ -0,0 +1,211 @@
+import { useState, useEffect, useRef } from "react";
+import VideoCard from "./VideoCard";
+import VideoCardSkeleton from "./VideoCardSkeleton";
+import CarouselScroller from "./CarouselScroller";
+import TitleBanner from "./TitleBanner";
+import type { PexelsVideo } from "../types/pexels.types";
+import type { Recommendation } from "../types/recommendation.types";
+import { pexelsService } from "../services/pexels.service";
+import { isAbortError } from "../services/http.client";
+import useUserStore from "../stores/useUserStore";
+import useUserRatingsStore from "../stores/useUserRatingsStore";
+import useWatchHistoryStore from "../stores/useWatchHistoryStore";
+import { useHistorySnapshot, useScrollRestoration } from "../hooks/useHistoryRestoration";
+import { useNearViewport } from "../hooks/useNearViewport";
+import { RECOMMENDED_TITLE } from "../utils/homeLayout";
+import {
+  describeRecommendationSource,
+  getRecommendationSources,
+  recommendVideos,
+} from "../utils/recommendations";
+
+/**
+ * Props for the RecommendedCarousel component
+ * @typedef {Object} RecommendedCarouselProps
+ * @property {number} [limit] - Maximum videos shown (default: 12)
+ */
+interface RecommendedCarouselProps {
+  limit?: number;
+}
+
+/**
+ * Liked videos fetched to learn from (most recent likes)
+ * @constant {number}
+ */
+const MAX_LIKED_SOURCES = 8;
+
+/**
+ * Recently watched videos used as sources
+ * @constant {number}
+ */
+const MAX_WATCHED_SOURCES = 10;
+
+/**
+ * Popular videos scored as candidates (backend maximum page size)
+ * @constant {number}
+ */
+const CANDIDATE_COUNT = 80;
+
+/**
+ * "Recomendados para ti" carousel
+ * Recommends popular videos sharing keywords with what the user liked, rated
+ * highly or watched recently, leaving out the videos already liked
+ *
+ * @component
+ * @param {RecommendedCarouselProps} props - Component props
+ * @returns {JSX.Element} Carousel of recommended videos
+ *
+ * @example
+ * ```tsx
+ * <RecommendedCarousel limit={12} />
+ * ```
+ *
+ * @description
+ * - Each card has a "¿Por qué veo esto?" button whose tooltip names the source video
+ * - Recomputed when the user likes, rates or watches videos
+ * - Explains how to get recommendations when there is no activity yet
+ * - Coming back through history shows the same videos at the same horizontal offset
+ * - Loads once it gets near the viewport, with skeleton cards meanwhile
+ */
+const RecommendedCarousel: React.FC<RecommendedCarouselProps> = ({ limit = 12 }) => {
+  const user = useUserStore((state) => state.user);
+  const userId = user?.id ?? "";
+  const likedKey = (user?.moviesLiked ?? []).join(",");
+  const ratings = useUserRatingsStore((state) => state.byUser[userId]);
+  const history = useWatchHistoryStore((state) => state.byUser[userId]);
+
+  const snapshotId = "carousel:recommended";
+  const { restored, save: saveSnapshot } = useHistorySnapshot<Recommendation[]>(snapshotId);
+  const skipLoad = useRef(restored !== undefined);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>(restored ?? []);
+  const [hasSources, setHasSources] = useState(true);
+  const [loading, setLoading] = useState(!restored);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const isNear = useNearViewport(rootRef, undefined, restored !== undefined);
+
+  /**
+   * Loads the liked videos and the candidates, then scores them
+   * Waits until the carousel is near the viewport; runs again when the user's
+   * likes, ratings or history change, or on retry
+   */
+  useEffect(() => {
+    if (!isNear) return;
+    if (skipLoad.current) {
+      skipLoad.current = false;
+      return;
+    }
+
+    const controller = new AbortController();
+    const likedIds = likedKey ? likedKey.split(",") : [];
+
+    const loadRecommendations = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const recentLikes = likedIds.slice(-MAX_LIKED_SOURCES).reverse();
+        const [likedResults, candidates] = await Promise.all([
+          Promise.allSettled(
+            recentLikes.map((id) => pexelsService.getVideoById(id, { signal: controller.signal }))
+          ),
+          pexelsService.getPopularVideos(1, CANDIDATE_COUNT, { signal: controller.signal }),
+        ]);
+        if (controller.signal.aborted) return;
+
+        // A liked video that can't be loaded is just not used as a source
+        const liked = likedResults
+          .filter((result): result is PromiseFulfilledResult<PexelsVideo> => result.status === "fulfilled")
+          .map((result) => result.value);
+        const sources = getRecommendationSources(
+          liked,
+          ratings ?? [],
+          (history ?? []).slice(0, MAX_WATCHED_SOURCES)
+        );
+
+        setHasSources(sources.length > 0);
+        setRecommendations(recommendVideos(candidates.videos, sources, new Set(likedIds), limit));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Error loading recommendations:", err);
+        setError("Error loading videos");
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    loadRecommendations();
+    return () => controller.abort();
+  }, [isNear, likedKey, ratings, history, limit, reloadKey]);
+
+  useEffect(() => {
+    if (recommendations.length > 0) saveSnapshot(recommendations);
+  }, [recommendations, saveSnapshot]);
+
+  useScrollRestoration(snapshotId, !loading && recommendations.length > 0, scrollerRef);
+
+  return (
+    <div ref={rootRef} className="videos-list w-full h-fit flex flex-col gap-5">
+      <TitleBanner title={RECOMMENDED_TITLE} />
+
+      <div className="videos-container">
+        {loading ? (
+          <div className="flex gap-6 overflow-hidden pb-4">
+            <span className="sr-only" role="status">
+              Buscando videos para ti...
+            </span>
+            {Array.from({ length: 4 }, (_, index) => (
+              <VideoCardSkeleton key={index} />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-red text-lg py-8">
+            <p>{error}</p>
+            <button
+              onClick={() => setReloadKey((key) => key + 1)}
+              className="mt-4 px-4 py-2 bg-blue text-white text-sm rounded hover:bg-lightblue transition"
+            >
+              Reintentar
+            </button>
+          </div>
+        ) : recommendations.length > 0 ? (
+          <CarouselScroller label={RECOMMENDED_TITLE} scrollerRef={scrollerRef} itemCount={recommendations.length}>
+            {recommendations.map(({ video, source }) => {
+              const tooltipId = `recommendation-why-${video._id}`;
+              return (
+                <div key={video._id} className="relative flex-shrink-0">
+                  <VideoCard video={video} />
+                  <button
+                    type="button"
+                    className="peer absolute top-3 right-3 z-10 w-8 h-8 flex items-center justify-center rounded-full bg-surface/80 text-foreground font-bold cursor-help focus:outline-none focus:ring-2 focus:ring-lightblue"
+                    aria-label="¿Por qué veo esto?"
+                    aria-describedby={tooltipId}
+                  >
+                    ?
+                  </button>
+                  <span
+                    id={tooltipId}
+                    role="tooltip"
+                    className="absolute top-12 right-3 z-20 max-w-[16rem] px-3 py-2 rounded bg-surface border border-lightblue text-sm text-foreground shadow-lg invisible opacity-0 peer-hover:visible peer-hover:opacity-100 peer-focus:visible peer-focus:opacity-100 transition-opacity pointer-events-none"
+                  >
+                    {describeRecommendationSource(source)}
+                  </span>
+                </div>
+              );
+            })}
+          </CarouselScroller>
+        ) : (
+          <div className="text-foreground/70 text-lg py-8">
+            {hasSources
+              ? "Aún no encontramos videos parecidos a los que te gustan."
+              : "Dale me gusta, califica o mira videos para recibir recomendaciones."}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecommendedCarousel;
@@ -0,0 +1,129 @@
+import useUserStore from "../stores/useUserStore";
+import type { ApiErrorKind } from "../services/http.client";
+
+/**
+ * Props for the RequestError component
+ * @typedef {Object} RequestErrorProps
+ * @property {ApiErrorKind} kind - Category of the error returned by getApiErrorKind
+ * @property {string} [notFoundMessage] - Message shown for "not-found" errors
+ * @property {Function} [onRetry] - Optional callback for the "Reintentar" button
+ * @property {Function} [onBack] - Optional callback for the "Volver" button
+ */
+interface RequestErrorProps {
+  kind: ApiErrorKind;
+  notFoundMessage?: string;
+  onRetry?: () => void;
+  onBack?: () => void;
+}
+
+/**
+ * Texts shown for each error category
+ * @constant {Record<ApiErrorKind, {title: string, description: string}>}
+ */
+const ERROR_TEXTS: Record<ApiErrorKind, { title: string; description: string }> = {
+  "not-found": {
+    title: "Contenido no encontrado",
+    description: "Es posible que haya sido eliminado o que el enlace sea incorrecto.",
+  },
+  unauthorized: {
+    title: "Tu sesión expiró",
+    description: "Inicia sesión de nuevo para seguir viendo videos.",
+  },
+  network: {
+    title: "No pudimos conectar con el servidor",
+    description: "Revisa tu conexión a internet e inténtalo de nuevo.",
+  },
+  server: {
+    title: "El servidor tuvo un problema",
+    description: "Estamos teniendo dificultades. Inténtalo de nuevo en unos momentos.",
+  },
+  "invalid-response": {
+    title: "Recibimos datos inesperados",
+    description: "El servidor respondió con un formato que no reconocemos. Inténtalo de nuevo más tarde.",
+  },
+  unknown: {
+    title: "Error al cargar los videos",
+    description: "Ocurrió un error inesperado. Inténtalo de nuevo.",
+  },
+};
+
+/**
+ * Error state component for failed backend requests
+ * Shows a different message and action depending on the kind of error
+ *
+ * @component
+ * @param {RequestErrorProps} props - Component props
+ * @returns {JSX.Element} Error message with contextual actions
+ *
+ * @example
+ * ```tsx
+ * <RequestError kind={getApiErrorKind(err)} onRetry={loadVideos} />
+ * ```
+ *
+ * @description
+ * Actions by error kind:
+ * - not-found: "Volver" (if onBack is provided)
+ * - unauthorized: "Iniciar sesión" (clears the session)
+ * - network / server / invalid-response / unknown: "Reintentar" (if onRetry is provided)
+ */
+const RequestError: React.FC<RequestErrorProps> = ({ kind, notFoundMessage, onRetry, onBack }) => {
+  const { logout } = useUserStore();
+  const texts = ERROR_TEXTS[kind];
+
+  return (
+    <div className="flex flex-col items-center justify-center text-center gap-3 py-8" role="alert">
+      <svg
+        className="text-red"
+        width="56"
+        height="56"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        aria-hidden="true"
+      >
+        <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+        <path d="M12 9v4" />
+        <path d="M10.363 3.591l-8.106 13.534a1.914 1.914 0 0 0 1.636 2.871h16.214a1.914 1.914 0 0 0 1.636 -2.87l-8.106 -13.536a1.914 1.914 0 0 0 -3.274 0z" />
+        <path d="M12 16h.01" />
+      </svg>
+      <p className="text-red text-xl font-semibold">
+        {kind === "not-found" && notFoundMessage ? notFoundMessage : texts.title}
+      </p>
+      <p className="text-foreground/70 max-w-md">{texts.description}</p>
+
+      <div className="flex gap-3 mt-2">
+        {kind === "unauthorized" ? (
+          <button
+            onClick={() => logout()}
+            className="px-6 py-2 bg-blue text-white rounded hover:bg-lightblue transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-lightblue"
+          >
+            Iniciar sesión
+          </button>
+        ) : (
+          kind !== "not-found" &&
+          onRetry && (
+            <button
+              onClick={onRetry}
+              className="px-6 py-2 bg-blue text-white rounded hover:bg-lightblue transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-lightblue"
+            >
+              Reintentar
+            </button>
+          )
+        )}
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="px-6 py-2 bg-foreground/10 text-foreground rounded hover:bg-foreground/20 transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-foreground"
+          >
+            Volver
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestError;
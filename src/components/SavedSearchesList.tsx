@@ -0,0 +1,71 @@
+import { Link } from "react-router-dom";
+import useUserStore from "../stores/useUserStore";
+import useSavedSearchesStore from "../stores/useSavedSearchesStore";
+import { describeSavedSearch, getSavedSearchPath } from "../utils/savedSearches";
+
+/**
+ * List of the current user's saved searches
+ * Each entry opens the search on SearchPage, where new videos since the
+ * last visit are flagged
+ *
+ * @component
+ * @returns {JSX.Element} Saved searches section
+ *
+ * @example
+ * ```tsx
+ * <SavedSearchesList />
+ * ```
+ *
+ * @description
+ * - Shows name, summary of category/filters/order and last visit date
+ * - Delete button for each saved search
+ * - Empty state explaining how to save a search
+ */
+const SavedSearchesList: React.FC = () => {
+  const userId = useUserStore((state) => state.user?.id) ?? "";
+  const savedSearches = useSavedSearchesStore((state) => state.byUser[userId]) ?? [];
+  const removeSavedSearch = useSavedSearchesStore((state) => state.removeSavedSearch);
+
+  return (
+    <section className="w-full" aria-labelledby="saved-searches-title">
+      <h2 id="saved-searches-title" className="text-3xl font-bold text-foreground mb-6">
+        Búsquedas Guardadas
+      </h2>
+
+      {savedSearches.length === 0 ? (
+        <p className="text-foreground/70">
+          Aún no tienes búsquedas guardadas. Usa "Guardar búsqueda" en la página de búsqueda.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {savedSearches.map((search) => (
+            <li
+              key={search.id}
+              className="flex items-center justify-between gap-4 bg-gray/50 p-3 text-foreground rounded-lg"
+            >
+              <Link
+                to={getSavedSearchPath(search)}
+                className="flex-1 min-w-0 focus:outline-none focus:ring-2 focus:ring-lightblue rounded"
+              >
+                <p className="font-semibold truncate hover:text-lightblue transition">{search.name}</p>
+                <p className="text-sm text-foreground/70 truncate">{describeSavedSearch(search)}</p>
+                <p className="text-xs text-foreground/50">
+                  Última visita: {new Date(search.lastVisitedAt).toLocaleDateString("es")}
+                </p>
+              </Link>
+              <button
+                onClick={() => removeSavedSearch(userId, search.id)}
+                className="text-foreground/70 hover:text-red transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-red rounded px-2 py-1"
+                aria-label={`Eliminar búsqueda guardada ${search.name}`}
+              >
+                Eliminar
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default SavedSearchesList;
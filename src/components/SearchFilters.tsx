@@ -0,0 +1,191 @@
+import { useState } from "react";
+import type { VideoSearchFilters } from "../types/pexels.types";
+import {
+  ADDED_WITHIN_OPTIONS,
+  ORIENTATION_OPTIONS,
+  SIZE_OPTIONS,
+  hasSearchFilters,
+} from "../utils/searchFilters";
+
+/**
+ * Props for the SearchFilters component
+ * @typedef {Object} SearchFiltersProps
+ * @property {VideoSearchFilters} filters - Filters currently applied (read from the URL)
+ * @property {Function} onChange - Called with the new filters when a control changes
+ */
+interface SearchFiltersProps {
+  filters: VideoSearchFilters;
+  onChange: (filters: VideoSearchFilters) => void;
+}
+
+/**
+ * Shared classes for the filter controls
+ * @constant {string}
+ */
+const CONTROL_CLASS =
+  "w-full px-3 py-2 bg-surface border border-blue text-foreground rounded focus:outline-none focus:border-lightblue";
+
+/**
+ * Advanced search filter panel
+ * Orientation, minimum resolution, duration range and upload date
+ *
+ * @component
+ * @param {SearchFiltersProps} props - Component props
+ * @returns {JSX.Element} Collapsible filter panel
+ *
+ * @example
+ * ```tsx
+ * <SearchFilters
+ *   filters={filters}
+ *   onChange={(next) => setSearchParams((prev) => writeSearchFilters(prev, next), { replace: true })}
+ * />
+ * ```
+ *
+ * @description
+ * - Selects apply immediately; duration bounds apply on blur or Enter
+ * - "Limpiar filtros" removes every advanced filter
+ * - Shows how many filters are active on the toggle button
+ */
+const SearchFilters: React.FC<SearchFiltersProps> = ({ filters, onChange }) => {
+  const [isOpen, setIsOpen] = useState(hasSearchFilters(filters));
+  const activeCount = Object.values(filters).filter((value) => value !== undefined).length;
+
+  /**
+   * Updates a single filter, removing it when the value is empty
+   *
+   * @param {keyof VideoSearchFilters} key - Filter to change
+   * @param {string} value - Raw control value
+   */
+  const update = (key: keyof VideoSearchFilters, value: string) => {
+    const isDuration = key === "minDuration" || key === "maxDuration";
+    const parsed = value === "" ? undefined : isDuration ? Math.max(0, Math.floor(Number(value))) : value;
+    if (isDuration && parsed !== undefined && !Number.isFinite(parsed)) return;
+    onChange({ ...filters, [key]: parsed });
+  };
+
+  /**
+   * Applies a duration input when it loses focus
+   * Inputs are uncontrolled so typing doesn't reload results on every key
+   *
+   * @param {React.FocusEvent<HTMLInputElement> | React.KeyboardEvent<HTMLInputElement>} e - Event from the input
+   * @param {"minDuration" | "maxDuration"} key - Bound being edited
+   */
+  const commitDuration = (
+    e: React.FocusEvent<HTMLInputElement> | React.KeyboardEvent<HTMLInputElement>,
+    key: "minDuration" | "maxDuration"
+  ) => {
+    const value = e.currentTarget.value;
+    if (value !== String(filters[key] ?? "")) update(key, value);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mb-6">
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+          aria-controls="search-filters-panel"
+          className="px-4 py-2 bg-foreground/10 text-foreground rounded hover:bg-foreground/20 transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-foreground"
+        >
+          Filtros{activeCount > 0 && ` (${activeCount})`}
+        </button>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="text-foreground/70 hover:text-red transition cursor-pointer"
+          >
+            Limpiar filtros
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div
+          id="search-filters-panel"
+          className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 p-4 bg-foreground/5 border border-blue/50 rounded-lg text-foreground"
+        >
+          <label className="flex flex-col gap-1">
+            <span className="text-sm text-foreground/70">Orientación</span>
+            <select
+              value={filters.orientation ?? ""}
+              onChange={(e) => update("orientation", e.target.value)}
+              className={CONTROL_CLASS}
+            >
+              <option value="">Cualquiera</option>
+              {ORIENTATION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-sm text-foreground/70">Resolución mínima</span>
+            <select
+              value={filters.size ?? ""}
+              onChange={(e) => update("size", e.target.value)}
+              className={CONTROL_CLASS}
+            >
+              <option value="">Cualquiera</option>
+              {SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="flex flex-col gap-1">
+            <legend className="text-sm text-foreground/70 mb-1">Duración (segundos)</legend>
+            <div className="flex items-center gap-2">
+              <input
+                key={`min-${filters.minDuration ?? ""}`}
+                type="number"
+                min={0}
+                defaultValue={filters.minDuration ?? ""}
+                placeholder="Mín."
+                aria-label="Duración mínima en segundos"
+                onBlur={(e) => commitDuration(e, "minDuration")}
+                onKeyDown={(e) => e.key === "Enter" && commitDuration(e, "minDuration")}
+                className={CONTROL_CLASS}
+              />
+              <span aria-hidden="true">–</span>
+              <input
+                key={`max-${filters.maxDuration ?? ""}`}
+                type="number"
+                min={0}
+                defaultValue={filters.maxDuration ?? ""}
+                placeholder="Máx."
+                aria-label="Duración máxima en segundos"
+                onBlur={(e) => commitDuration(e, "maxDuration")}
+                onKeyDown={(e) => e.key === "Enter" && commitDuration(e, "maxDuration")}
+                className={CONTROL_CLASS}
+              />
+            </div>
+          </fieldset>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-sm text-foreground/70">Fecha de publicación</span>
+            <select
+              value={filters.addedWithin ?? ""}
+              onChange={(e) => update("addedWithin", e.target.value)}
+              className={CONTROL_CLASS}
+            >
+              <option value="">Cualquier fecha</option>
+              {ADDED_WITHIN_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchFilters;
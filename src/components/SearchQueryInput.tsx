@@ -0,0 +1,281 @@
+import { useRef, useState } from "react";
+import type { SearchQueryError, SearchSuggestion } from "../types/search.types";
+
+/**
+ * Props for the SearchQueryInput component
+ * @typedef {Object} SearchQueryInputProps
+ * @property {string} value - Current text
+ * @property {Function} onChange - Called with the new text
+ * @property {SearchQueryError[]} errors - Syntax errors to highlight
+ * @property {SearchSuggestion[]} [suggestions] - Autocomplete suggestions for the current text
+ * @property {Function} [onSelectSuggestion] - Called when a suggestion is chosen
+ * @property {Function} [onRemoveSuggestion] - Called to delete a recent search from the history
+ * @property {string} [placeholder] - Placeholder text
+ * @property {React.ReactNode} [children] - Rendered inside the box, e.g. the submit button
+ */
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: SearchQueryError[];
+  suggestions?: SearchSuggestion[];
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void;
+  onRemoveSuggestion?: (suggestion: SearchSuggestion) => void;
+  placeholder?: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Shared box classes so the highlight layer lines up with the typed text
+ * @constant {string}
+ */
+const BOX_CLASS = "w-full pl-6 pr-16 py-4 border-2 rounded-lg whitespace-pre";
+
+/**
+ * Spanish name of each suggestion kind
+ * @constant {Record<SearchSuggestion["kind"], string>}
+ */
+const KIND_LABELS: Record<SearchSuggestion["kind"], string> = {
+  recent: "Reciente",
+  category: "Categoría",
+  author: "Autor",
+};
+
+/**
+ * Search combobox that underlines query syntax errors in place
+ * A mirror layer behind the transparent input repeats the text with the
+ * erroneous ranges marked; the error messages are listed below.
+ * Suggestions follow the ARIA combobox pattern: focus stays in the input and
+ * aria-activedescendant points to the highlighted option
+ *
+ * @component
+ * @param {SearchQueryInputProps} props - Component props
+ * @returns {JSX.Element} Input with inline error highlighting
+ *
+ * @example
+ * ```tsx
+ * const query = parseSearchQuery(text);
+ * <SearchQueryInput
+ *   value={text}
+ *   onChange={setText}
+ *   errors={query.errors}
+ *   suggestions={suggestions}
+ *   onSelectSuggestion={(suggestion) => submit(suggestion.query)}
+ *   onRemoveSuggestion={(suggestion) => removeSearch(userId, suggestion.query)}
+ * >
+ *   <button type="submit">Buscar</button>
+ * </SearchQueryInput>
+ * ```
+ *
+ * @description
+ * - The mirror follows the input's horizontal scroll on long queries
+ * - aria-invalid and aria-describedby point screen readers to the messages
+ * - ArrowUp/ArrowDown move through suggestions, Enter chooses, Escape closes
+ * - Shift+Delete (or the ✕ button) removes the highlighted recent search
+ */
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({
+  value,
+  onChange,
+  errors,
+  suggestions = [],
+  onSelectSuggestion,
+  onRemoveSuggestion,
+  placeholder,
+  children,
+}) => {
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const hasErrors = errors.length > 0;
+  const isExpanded = isOpen && suggestions.length > 0;
+  // The list may shrink under the highlighted option while typing
+  const active = activeIndex < suggestions.length ? activeIndex : -1;
+
+  /**
+   * Chooses a suggestion and closes the list
+   *
+   * @param {SearchSuggestion} suggestion - Chosen suggestion
+   */
+  const select = (suggestion: SearchSuggestion) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSelectSuggestion?.(suggestion);
+  };
+
+  /**
+   * Handles keyboard navigation of the suggestion list
+   *
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = suggestions.length;
+    switch (e.key) {
+      case "ArrowDown":
+        if (count === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(isExpanded ? (active + 1) % count : 0);
+        break;
+      case "ArrowUp":
+        if (count === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(isExpanded ? (active <= 0 ? count - 1 : active - 1) : count - 1);
+        break;
+      case "Enter":
+        // Without a highlighted option Enter submits the form as usual
+        if (isExpanded && active >= 0) {
+          e.preventDefault();
+          select(suggestions[active]);
+        } else {
+          setIsOpen(false);
+        }
+        break;
+      case "Escape":
+        if (isExpanded) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+      case "Delete":
+        if (e.shiftKey && isExpanded && active >= 0 && suggestions[active].kind === "recent") {
+          e.preventDefault();
+          onRemoveSuggestion?.(suggestions[active]);
+        }
+        break;
+    }
+  };
+
+  /**
+   * Keeps the highlight layer aligned with the input's scroll position
+   *
+   * @param {React.SyntheticEvent<HTMLInputElement>} e - Scroll or selection event
+   */
+  const syncScroll = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    if (mirrorRef.current) mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
+  /**
+   * Splits the text into plain and erroneous segments
+   *
+   * @returns {React.ReactNode[]} Segments for the mirror layer
+   */
+  const renderSegments = () => {
+    const segments: React.ReactNode[] = [];
+    const sorted = [...errors].sort((a, b) => a.start - b.start);
+    let cursor = 0;
+
+    sorted.forEach((error, index) => {
+      const start = Math.max(error.start, cursor);
+      if (start > cursor) segments.push(value.slice(cursor, start));
+      if (error.end > start) {
+        segments.push(
+          <mark
+            key={index}
+            className="bg-red/20 text-transparent underline decoration-wavy decoration-red underline-offset-4 rounded-sm"
+          >
+            {value.slice(start, error.end)}
+          </mark>
+        );
+      }
+      cursor = Math.max(cursor, error.end);
+    });
+    segments.push(value.slice(cursor));
+
+    return segments;
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <div
+          ref={mirrorRef}
+          aria-hidden="true"
+          className={`${BOX_CLASS} absolute inset-0 overflow-hidden border-transparent bg-foreground/5 text-transparent pointer-events-none`}
+        >
+          {renderSegments()}
+        </div>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          onScroll={syncScroll}
+          onSelect={syncScroll}
+          placeholder={placeholder}
+          spellCheck={false}
+          autoComplete="off"
+          role="combobox"
+          aria-label="Buscar videos"
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls="search-suggestions"
+          aria-activedescendant={isExpanded && active >= 0 ? `search-suggestion-${active}` : undefined}
+          aria-invalid={hasErrors}
+          aria-describedby={hasErrors ? "search-query-errors" : undefined}
+          className={`${BOX_CLASS} relative bg-transparent text-foreground focus:outline-none transition placeholder-foreground/50 ${
+            hasErrors ? "border-red focus:border-red" : "border-blue focus:border-lightblue"
+          }`}
+        />
+        {children}
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          aria-label="Sugerencias de búsqueda"
+          hidden={!isExpanded}
+          className="absolute left-0 right-0 top-full mt-2 z-20 max-h-80 overflow-y-auto bg-surface border border-blue rounded-lg shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.kind}-${suggestion.query}`}
+              id={`search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus in the input so the blur doesn't close the list before the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(suggestion)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-foreground ${
+                index === active ? "bg-blue/40" : ""
+              }`}
+            >
+              <span className="w-20 shrink-0 text-xs uppercase tracking-wide text-foreground/50">
+                {KIND_LABELS[suggestion.kind]}
+              </span>
+              <span className="flex-1 truncate">{suggestion.label}</span>
+              {suggestion.kind === "recent" && onRemoveSuggestion && (
+                <button
+                  type="button"
+                  tabIndex={-1}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemoveSuggestion(suggestion);
+                  }}
+                  className="text-foreground/50 hover:text-red transition cursor-pointer"
+                  aria-label={`Eliminar "${suggestion.label}" de búsquedas recientes`}
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+      {hasErrors && (
+        <ul id="search-query-errors" className="mt-2 space-y-1 text-sm text-red" aria-live="polite">
+          {errors.map((error, index) => (
+            <li key={index}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import useServerStatusStore from "../stores/useServerStatusStore";
+
+/**
+ * Props for the ServerWakeBanner component
+ * @typedef {Object} ServerWakeBannerProps
+ * @property {boolean} [floating] - If true, the banner is fixed below the navbar; otherwise it is rendered in place
+ */
+interface ServerWakeBannerProps {
+  floating?: boolean;
+}
+
+/**
+ * Approximate time (ms) a sleeping Render instance needs to start
+ * Only used to fill the progress bar
+ * @constant {number}
+ */
+const EXPECTED_WAKE_TIME = 50_000;
+
+/**
+ * Banner shown while the backend is starting up
+ * Requests keep being retried in the background, so instead of an error
+ * the user sees how long it has been waiting and when the next attempt is
+ *
+ * @component
+ * @param {ServerWakeBannerProps} props - Component props
+ * @returns {JSX.Element | null} Progress banner, or null when the server is online
+ *
+ * @example
+ * ```tsx
+ * // Below the navbar in Layout
+ * <ServerWakeBanner floating />
+ *
+ * // Inside the login form
+ * <ServerWakeBanner />
+ * ```
+ *
+ * @description
+ * - Only visible while useServerStatusStore reports "waking"
+ * - Progress bar based on the elapsed time (never reaches 100% on its own)
+ * - Shows the current attempt and a countdown to the next one
+ * - Announced to screen readers with role="status"
+ */
+const ServerWakeBanner: React.FC<ServerWakeBannerProps> = ({ floating = false }) => {
+  const { state, attempt, maxAttempts, wakingSince, nextRetryAt } = useServerStatusStore();
+  const [now, setNow] = useState(() => Date.now());
+  const isWaking = state === "waking";
+
+  /**
+   * Effect: Refreshes the elapsed time every second while waking
+   */
+  useEffect(() => {
+    if (!isWaking) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isWaking]);
+
+  if (!isWaking || wakingSince === null) return null;
+
+  const elapsed = Math.max(0, now - wakingSince);
+  const progress = Math.min(95, Math.round((elapsed / EXPECTED_WAKE_TIME) * 100));
+  const secondsToRetry = nextRetryAt ? Math.max(0, Math.ceil((nextRetryAt - now) / 1000)) : 0;
+
+  return (
+    <div
+      className={
+        floating
+          ? "fixed top-20 left-0 w-full z-[999] px-4 py-3 bg-surface/95 border-b border-yellow"
+          : "w-full px-4 py-3 bg-yellow/20 border border-yellow rounded"
+      }
+      role="status"
+      aria-live="polite"
+    >
+      <div className="max-w-4xl mx-auto flex flex-col gap-2 text-foreground">
+        <p className="font-semibold">El servidor se está iniciando</p>
+        <p className="text-sm text-foreground/70">
+          Estaba en reposo y puede tardar hasta un minuto en responder. Seguiremos intentando
+          automáticamente (intento {attempt} de {maxAttempts}
+          {secondsToRetry > 0 && `, próximo en ${secondsToRetry} s`}).
+        </p>
+        <div
+          className="w-full h-2 bg-foreground/10 rounded overflow-hidden"
+          role="progressbar"
+          aria-label="Progreso del inicio del servidor"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={progress}
+        >
+          <div className="h-full bg-yellow transition-all duration-1000" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServerWakeBanner;
@@ -0,0 +1,48 @@
+import type { VideoSortOption } from "../types/pexels.types";
+import { SORT_OPTIONS } from "../utils/videoSort";
+
+/**
+ * Props for the SortSelect component
+ * @typedef {Object} SortSelectProps
+ * @property {VideoSortOption} value - Current order
+ * @property {Function} onChange - Called with the chosen order
+ * @property {string} [relevanceLabel] - Label for the backend order (default: "Relevancia")
+ */
+interface SortSelectProps {
+  value: VideoSortOption;
+  onChange: (sort: VideoSortOption) => void;
+  relevanceLabel?: string;
+}
+
+/**
+ * Select to choose the order of a video list
+ *
+ * @component
+ * @param {SortSelectProps} props - Component props
+ * @returns {JSX.Element} Labelled select
+ *
+ * @example
+ * ```tsx
+ * <SortSelect value={sort} onChange={handleSortChange} relevanceLabel="Agregados" />
+ * ```
+ */
+const SortSelect: React.FC<SortSelectProps> = ({ value, onChange, relevanceLabel = "Relevancia" }) => {
+  return (
+    <label className="flex items-center gap-2 text-foreground/70">
+      Ordenar por
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as VideoSortOption)}
+        className="px-3 py-2 bg-surface border border-blue text-foreground rounded focus:outline-none focus:border-lightblue cursor-pointer"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.value === "relevance" ? relevanceLabel : option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default SortSelect;
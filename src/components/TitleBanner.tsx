@@ -35,12 +35,12 @@ interface TitleBannerProps {
 const TitleBanner: React.FC<TitleBannerProps> = ({ title, onViewMore }) => {
   return (
     <>
-      <div className="w-full h-16 flex items-center justify-between bg-white/5 p-5 rounded-lg">
-        <h2 className="font-semibold text-white text-xl md:text-3xl">{title}</h2>
+      <div className="w-full h-16 flex items-center justify-between bg-foreground/5 p-5 rounded-lg">
+        <h2 className="font-semibold text-foreground text-xl md:text-3xl">{title}</h2>
         {onViewMore && (
           <button
             onClick={onViewMore}
-            className="back-button flex text-white cursor-pointer gap-2 hover:text-green transition"
+            className="back-button flex text-foreground cursor-pointer gap-2 hover:text-green transition"
           >
             <p>Ver mas</p>
             <svg
@@ -1,16 +1,21 @@
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import useUserStore from "../stores/useUserStore";
+import useWatchHistoryStore from "../stores/useWatchHistoryStore";
+import WatchProgressBar from "./WatchProgressBar";
 import { pexelsService } from "../services/pexels.service";
 import type { PexelsVideo } from "../types/pexels.types";
+import { getWatchedPercent } from "../utils/watchProgress";
 
 /**
  * Props for the VideoCard component
  * @typedef {Object} VideoCardProps
  * @property {PexelsVideo} video - Pexels video object with all video information
+ * @property {boolean} [isNew] - Shows a "Nuevo" badge (new result of a saved search)
  */
 interface VideoCardProps {
   video: PexelsVideo;
+  isNew?: boolean;
 }
 
 /**
@@ -18,6 +23,7 @@ interface VideoCardProps {
  * Includes preview image, author, duration, and interaction metrics
  * Clicking the image navigates to the video detail page
  * Clicking the heart toggles like/unlike
+ * Partially watched videos show how much was watched over the image
  * 
  * @component
  * @param {VideoCardProps} props - Component props
@@ -26,9 +32,10 @@ interface VideoCardProps {
  * @example
  * ```tsx
  * <VideoCard video={pexelsVideo} />
+ * <VideoCard video={pexelsVideo} isNew />
  * ```
  */
-const VideoCard: React.FC<VideoCardProps> = ({ video }) => {
+const VideoCard: React.FC<VideoCardProps> = ({ video, isNew = false }) => {
   const navigate = useNavigate();
   const { user, updateMoviesLiked } = useUserStore();
   const [isLiking, setIsLiking] = useState(false);
@@ -36,6 +43,10 @@ const VideoCard: React.FC<VideoCardProps> = ({ video }) => {
   const [hasLiked, setHasLiked] = useState(
     user?.moviesLiked?.includes(video._id) || false
   );
+  const historyEntry = useWatchHistoryStore((state) =>
+    user ? state.byUser[user.id]?.find((entry) => entry.videoId === video._id) : undefined
+  );
+  const watchedPercent = getWatchedPercent(historyEntry);
 
   /**
    * Handles click event on the image
@@ -101,19 +112,29 @@ const VideoCard: React.FC<VideoCardProps> = ({ video }) => {
   };
 
   return (
-    <div className="video-card h-64 w-full sm:w-72 md:w-96 md:h-fit flex-shrink-0 flex flex-col items-center gap-2">
+    <div className="video-card relative h-64 w-full sm:w-72 md:w-96 md:h-fit flex-shrink-0 flex flex-col items-center gap-2">
+      {isNew && (
+        <span className="absolute top-3 left-3 z-10 px-2 py-1 bg-green text-surface text-xs font-bold uppercase rounded pointer-events-none">
+          Nuevo
+        </span>
+      )}
       {/* Image - clickable and keyboard accessible to navigate */}
-      <img
-        src={video.image}
-        alt={`Video by ${video.user.name}. Press Enter to view details.`}
-        className="w-full h-52 object-cover rounded-2xl shadow-lg cursor-pointer focus:outline-none focus:ring-4 focus:ring-lightblue transition-all"
-        onClick={handleImageClick}
-        onKeyDown={handleImageKeyDown}
-        tabIndex={0}
-        role="button"
-        aria-label={`Ver video de ${video.user.name}`}
-      />
-      <div className="w-full flex justify-between items-center text-white">
+      <div className="relative w-full">
+        <img
+          src={video.image}
+          alt={`Video by ${video.user.name}. Press Enter to view details.`}
+          className="w-full h-52 object-cover rounded-2xl shadow-lg cursor-pointer focus:outline-none focus:ring-4 focus:ring-lightblue transition-all"
+          onClick={handleImageClick}
+          onKeyDown={handleImageKeyDown}
+          tabIndex={0}
+          role="button"
+          aria-label={`Ver video de ${video.user.name}`}
+        />
+        {watchedPercent !== null && (
+          <WatchProgressBar percent={watchedPercent} className="absolute inset-x-3 bottom-2" />
+        )}
+      </div>
+      <div className="w-full flex justify-between items-center text-foreground">
         <p className="video-author truncate">{video.user.name}</p>
         <div className="metrics-container flex items-center gap-4">
           <p className="video-duration flex items-center gap-1">
@@ -126,7 +147,7 @@ const VideoCard: React.FC<VideoCardProps> = ({ video }) => {
               strokeWidth="2"
               strokeLinecap="round"
               strokeLinejoin="round"
-              className="icon icon-tabler icons-tabler-outline icon-tabler-clock stroke-white"
+              className="icon icon-tabler icons-tabler-outline icon-tabler-clock stroke-foreground"
               aria-hidden="true"
             >
               <path stroke="none" d="M0 0h24v24H0z" fill="none" />
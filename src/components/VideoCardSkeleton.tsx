@@ -0,0 +1,28 @@
+/**
+ * Placeholder with the shape of a VideoCard, shown while videos load
+ * Decorative: the loading state is announced by the container
+ *
+ * @component
+ * @returns {JSX.Element} Pulsing card placeholder
+ *
+ * @example
+ * ```tsx
+ * {loading && Array.from({ length: 4 }, (_, i) => <VideoCardSkeleton key={i} />)}
+ * ```
+ */
+const VideoCardSkeleton: React.FC = () => {
+  return (
+    <div
+      className="h-64 w-full sm:w-72 md:w-96 md:h-fit flex-shrink-0 flex flex-col items-center gap-2 animate-pulse"
+      aria-hidden="true"
+    >
+      <div className="w-full h-52 rounded-2xl bg-foreground/10" />
+      <div className="w-full flex justify-between items-center gap-4">
+        <div className="h-4 w-1/3 rounded bg-foreground/10" />
+        <div className="h-4 w-1/4 rounded bg-foreground/10" />
+      </div>
+    </div>
+  );
+};
+
+export default VideoCardSkeleton;
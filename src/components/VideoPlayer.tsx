@@ -0,0 +1,661 @@
+import { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState, type Ref } from "react";
+import PlayerMenu from "./PlayerMenu";
+import type {
+  BufferSample,
+  PlayerCaptionTrack,
+  PlayerLocale,
+  PlayerQualityOption,
+  StreamLevel,
+  VideoPlayerHandle,
+} from "../types/player.types";
+import { useVideoSource } from "../hooks/useVideoSource";
+import { PLAYBACK_RATES, PLAYER_LABELS, SEEK_STEP, VOLUME_STEP, formatPlayerTime } from "../utils/player";
+import { isEditableTarget } from "../utils/keyboard";
+import { AUTO_QUALITY } from "../utils/videoQuality";
+
+/**
+ * Props for the VideoPlayer component
+ * @typedef {Object} VideoPlayerProps
+ * @property {Ref<VideoPlayerHandle>} [ref] - Receives the imperative API (play, pause, seek, current time)
+ * @property {string} src - Video file or HLS manifest (.m3u8) URL
+ * @property {string} [poster] - Image shown before playback
+ * @property {string} [title] - Video title, added to the accessible name of the player
+ * @property {PlayerCaptionTrack[]} [captions] - Subtitle files for the captions menu
+ * @property {PlayerQualityOption[]} [qualities] - Quality menu entries (hidden with fewer than two); HLS manifests played by hls.js list their own levels instead
+ * @property {string} [quality] - Selected quality id; for HLS levels "auto" or a resolution such as "720"
+ * @property {Function} [onQualityChange] - Receives the quality id chosen in the menu
+ * @property {PlayerLocale} [locale="es"] - Language of the control labels
+ * @property {boolean} [autoPlay=false] - Starts playing once the video can play
+ * @property {Function} [onStall] - Called when playback stops to wait for data (not on the first load or after seeking)
+ * @property {Function} [onBufferProgress] - Receives how fast the buffer grows, to estimate the throughput
+ * @property {Function} [onSourceError] - Receives the URL of a source that can't be played (including HLS failures), so another one can be passed
+ */
+interface VideoPlayerProps {
+  ref?: Ref<VideoPlayerHandle>;
+  src: string;
+  poster?: string;
+  title?: string;
+  captions?: PlayerCaptionTrack[];
+  qualities?: PlayerQualityOption[];
+  quality?: string;
+  onQualityChange?: (id: string) => void;
+  locale?: PlayerLocale;
+  autoPlay?: boolean;
+  onStall?: () => void;
+  onBufferProgress?: (sample: BufferSample) => void;
+  onSourceError?: (src: string) => void;
+}
+
+/**
+ * Menus of the control bar (only one is open at a time)
+ */
+type PlayerMenuId = "captions" | "quality" | "speed";
+
+/**
+ * Value of the captions menu when subtitles are hidden
+ * @constant {string}
+ */
+const CAPTIONS_OFF = "off";
+
+/**
+ * Path data of the 24x24 outline icons of the controls
+ * @constant
+ */
+const ICONS = {
+  play: ["M7 4v16l13 -8z"],
+  pause: [
+    "M6 5m0 1a1 1 0 0 1 1 -1h2a1 1 0 0 1 1 1v12a1 1 0 0 1 -1 1h-2a1 1 0 0 1 -1 -1z",
+    "M14 5m0 1a1 1 0 0 1 1 -1h2a1 1 0 0 1 1 1v12a1 1 0 0 1 -1 1h-2a1 1 0 0 1 -1 -1z",
+  ],
+  volume: [
+    "M15 8a5 5 0 0 1 0 8",
+    "M17.7 5a9 9 0 0 1 0 14",
+    "M6 15h-2a1 1 0 0 1 -1 -1v-4a1 1 0 0 1 1 -1h2l3.5 -4.5a.8 .8 0 0 1 1.5 .5v14a.8 .8 0 0 1 -1.5 .5l-3.5 -4.5",
+  ],
+  muted: [
+    "M6 15h-2a1 1 0 0 1 -1 -1v-4a1 1 0 0 1 1 -1h2l3.5 -4.5a.8 .8 0 0 1 1.5 .5v14a.8 .8 0 0 1 -1.5 .5l-3.5 -4.5",
+    "M16 10l4 4m0 -4l-4 4",
+  ],
+  captions: [
+    "M3 5m0 2a2 2 0 0 1 2 -2h14a2 2 0 0 1 2 2v10a2 2 0 0 1 -2 2h-14a2 2 0 0 1 -2 -2z",
+    "M10 10.5a1.5 1.5 0 0 0 -3 0v3a1.5 1.5 0 0 0 3 0",
+    "M17 10.5a1.5 1.5 0 0 0 -3 0v3a1.5 1.5 0 0 0 3 0",
+  ],
+  maximize: ["M4 8v-2a2 2 0 0 1 2 -2h2", "M4 16v2a2 2 0 0 0 2 2h2", "M16 4h2a2 2 0 0 1 2 2v2", "M16 20h2a2 2 0 0 0 2 -2v-2"],
+  minimize: ["M15 19v-2a2 2 0 0 1 2 -2h2", "M15 5v2a2 2 0 0 0 2 2h2", "M5 15h2a2 2 0 0 1 2 2v2", "M5 9h2a2 2 0 0 0 2 -2v-2"],
+};
+
+/**
+ * Manifest level closest to a resolution
+ *
+ * @param {StreamLevel[]} levels - Levels of the manifest
+ * @param {number} resolution - Wanted resolution
+ * @returns {StreamLevel | undefined} Closest level
+ */
+const findClosestLevel = (levels: StreamLevel[], resolution: number): StreamLevel | undefined =>
+  levels.reduce<StreamLevel | undefined>(
+    (best, level) =>
+      !best || Math.abs(level.resolution - resolution) < Math.abs(best.resolution - resolution) ? level : best,
+    undefined
+  );
+
+const CONTROL_BUTTON_CLASS =
+  "w-10 h-10 flex items-center justify-center rounded text-white cursor-pointer hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green";
+
+/**
+ * Outline icon of a player control
+ * Decorative: the buttons carry the accessible name
+ *
+ * @param {{ paths: string[] }} props - Path data of the icon
+ * @returns {JSX.Element} Icon svg
+ */
+const ControlIcon = ({ paths }: { paths: string[] }) => (
+  <svg
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    aria-hidden="true"
+  >
+    <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+    {paths.map((d) => (
+      <path key={d} d={d} />
+    ))}
+  </svg>
+);
+
+/**
+ * Video player with custom, localized controls
+ * Replaces the native controls so they look the same in every browser
+ *
+ * @component
+ * @param {VideoPlayerProps} props - Component props
+ * @returns {JSX.Element} Video with its control bar
+ *
+ * @example
+ * ```tsx
+ * const playerRef = useRef<VideoPlayerHandle>(null);
+ *
+ * <VideoPlayer
+ *   ref={playerRef}
+ *   src={videoUrl}
+ *   title="Waves crashing on the shore"
+ *   captions={[{ src: "/subtitles/generic-es.vtt", srcLang: "es", label: "Español", default: true }]}
+ *   autoPlay
+ * />
+ *
+ * playerRef.current?.seek(83);
+ * ```
+ *
+ * @description
+ * Controls: play/pause, seek bar, time, mute and volume, captions menu,
+ * quality menu, speed menu and fullscreen. Every control is a labelled
+ * button, slider or menu usable with the keyboard.
+ *
+ * Shortcuts while the player has focus:
+ * - Space / K: play or pause
+ * - ArrowLeft / ArrowRight: back or forward 5 seconds
+ * - ArrowUp / ArrowDown: volume
+ * - Home / End: start or end of the video
+ * - M: mute, C: captions on/off, F: fullscreen
+ *
+ * Changing `src` (e.g. another quality) keeps the position and the play state.
+ * HLS manifests play natively where supported and through hls.js elsewhere;
+ * with hls.js the quality menu lists the levels of the manifest. Sources that
+ * fail are reported through `onSourceError`.
+ */
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  ref,
+  src,
+  poster,
+  title,
+  captions = [],
+  qualities = [],
+  quality,
+  onQualityChange,
+  locale = "es",
+  autoPlay = false,
+  onStall,
+  onBufferProgress,
+  onSourceError,
+}) => {
+  const labels = PLAYER_LABELS[locale];
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const autoPlayRef = useRef(autoPlay);
+  // Stalls only count once the current source has started and while not seeking
+  const hasStarted = useRef(false);
+  const isSeeking = useRef(false);
+  const lastBufferSample = useRef<{ end: number; at: number } | null>(null);
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(NaN);
+  const [volume, setVolume] = useState(1);
+  const [isMuted, setIsMuted] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [captionLang, setCaptionLang] = useState(
+    () => captions.find((track) => track.default)?.srcLang ?? CAPTIONS_OFF
+  );
+  const [lastCaptionLang, setLastCaptionLang] = useState(
+    () => captions.find((track) => track.default)?.srcLang ?? captions[0]?.srcLang ?? CAPTIONS_OFF
+  );
+  const [openMenu, setOpenMenu] = useState<PlayerMenuId | null>(null);
+
+  const source = useVideoSource(videoRef, src);
+  const { levels, selectLevel } = source;
+
+  /**
+   * Effect: Reports manifests hls.js could not play, so the parent can fall back to another source
+   */
+  useEffect(() => {
+    if (source.failed) onSourceError?.(src);
+  }, [source.failed, src, onSourceError]);
+
+  /**
+   * Effect: Applies the selected quality to the levels of an HLS manifest
+   */
+  useEffect(() => {
+    if (levels.length === 0) return;
+    const level = quality && quality !== AUTO_QUALITY ? findClosestLevel(levels, Number(quality)) : undefined;
+    selectLevel(level?.index ?? -1);
+  }, [levels, quality, selectLevel]);
+
+  /**
+   * Effect: Shows only the selected subtitle track
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const apply = () => {
+      Array.from(video.textTracks).forEach((track) => {
+        track.mode = track.language === captionLang ? "showing" : "disabled";
+      });
+    };
+    apply();
+    // Tracks added later (new captions prop) follow the same selection
+    video.textTracks.addEventListener("addtrack", apply);
+    return () => video.textTracks.removeEventListener("addtrack", apply);
+  }, [captionLang]);
+
+  /**
+   * Effect: Tracks fullscreen changes (including Escape handled by the browser)
+   */
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  /**
+   * Starts playback; browsers may refuse it (autoplay policies), which just leaves the video paused
+   * Never rejects: any other failure (e.g. an unsupported source) shows the error message
+   */
+  const play = useCallback(async () => {
+    try {
+      await videoRef.current?.play();
+    } catch (err) {
+      if (err instanceof DOMException && (err.name === "NotAllowedError" || err.name === "AbortError")) return;
+      console.error("Video playback error:", err);
+      setHasError(true);
+    }
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    const end = Number.isFinite(video.duration) ? video.duration : Infinity;
+    video.currentTime = Math.min(Math.max(time, 0), end);
+    setCurrentTime(video.currentTime);
+  }, []);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      play,
+      pause: () => videoRef.current?.pause(),
+      seek,
+      getCurrentTime: () => videoRef.current?.currentTime ?? 0,
+      getDuration: () => videoRef.current?.duration ?? NaN,
+      focus: () => containerRef.current?.focus(),
+    }),
+    [play, seek]
+  );
+
+  /**
+   * Restores the position after a source change, or autoplays the first source
+   */
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setDuration(video.duration);
+    // The playback rate resets with every source
+    video.playbackRate = playbackRate;
+
+    const resume = source.takeResume();
+    if (resume) {
+      seek(resume.time);
+      if (resume.playing) play();
+    } else if (autoPlayRef.current) {
+      autoPlayRef.current = false;
+      play();
+    }
+  };
+
+  /**
+   * Reports a playback interruption caused by missing data
+   */
+  const handleStall = () => {
+    if (hasStarted.current && !isSeeking.current) onStall?.();
+  };
+
+  /**
+   * Measures how much the buffered range around the current position grew
+   * since the previous progress event
+   */
+  const handleProgress = () => {
+    const video = videoRef.current;
+    if (!video || isSeeking.current) return;
+    const { buffered, currentTime: position } = video;
+
+    let end: number | null = null;
+    for (let i = 0; i < buffered.length; i++) {
+      if (buffered.start(i) <= position && position <= buffered.end(i)) end = buffered.end(i);
+    }
+    if (end === null) return;
+
+    const now = performance.now();
+    const previous = lastBufferSample.current;
+    lastBufferSample.current = { end, at: now };
+    if (previous && end > previous.end) {
+      onBufferProgress?.({
+        mediaSeconds: end - previous.end,
+        elapsed: (now - previous.at) / 1000,
+        bufferedAhead: end - position,
+      });
+    }
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused || video.ended) play();
+    else video.pause();
+  };
+
+  const toggleMute = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    // Unmuting at volume 0 would still be silent
+    if (video.muted && video.volume === 0) video.volume = VOLUME_STEP * 5;
+    video.muted = !video.muted;
+  };
+
+  const changeVolume = (value: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.volume = Math.min(Math.max(value, 0), 1);
+    video.muted = video.volume === 0;
+  };
+
+  const changeRate = (rate: number) => {
+    const video = videoRef.current;
+    if (video) video.playbackRate = rate;
+    setPlaybackRate(rate);
+  };
+
+  const selectCaptions = (lang: string) => {
+    setCaptionLang(lang);
+    if (lang !== CAPTIONS_OFF) setLastCaptionLang(lang);
+  };
+
+  const toggleCaptions = () => {
+    if (captions.length === 0) return;
+    selectCaptions(captionLang === CAPTIONS_OFF ? lastCaptionLang : CAPTIONS_OFF);
+  };
+
+  const toggleFullscreen = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const request = document.fullscreenElement ? document.exitFullscreen() : container.requestFullscreen();
+    request.catch((err) => console.error("Fullscreen error:", err));
+  };
+
+  // One stable handler per menu, so the menus don't re-register their listeners on every render
+  const menuOpenHandlers = useMemo(() => {
+    const handler = (menu: PlayerMenuId) => (open: boolean) => setOpenMenu(open ? menu : null);
+    return { captions: handler("captions"), quality: handler("quality"), speed: handler("speed") };
+  }, []);
+
+  /**
+   * Keyboard shortcuts of the player
+   * Keys used by the focused control itself (slider arrows, button Space/Enter) are left to it
+   *
+   * @param {React.KeyboardEvent<HTMLDivElement>} e - Keyboard event from inside the player
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    const isSlider = target instanceof HTMLInputElement && target.type === "range";
+    const isButton = target instanceof HTMLButtonElement;
+    if (isEditableTarget(target) && !isSlider) return;
+
+    const key = e.key.toLowerCase();
+    const video = videoRef.current;
+    if (!video) return;
+
+    switch (key) {
+      case " ":
+        if (isButton) return;
+        togglePlay();
+        break;
+      case "k":
+        togglePlay();
+        break;
+      case "arrowleft":
+      case "arrowright":
+        if (isSlider) return;
+        seek(video.currentTime + (key === "arrowright" ? SEEK_STEP : -SEEK_STEP));
+        break;
+      case "arrowup":
+      case "arrowdown":
+        if (isSlider) return;
+        changeVolume(video.volume + (key === "arrowup" ? VOLUME_STEP : -VOLUME_STEP));
+        break;
+      case "home":
+      case "end":
+        if (isSlider) return;
+        seek(key === "home" ? 0 : video.duration);
+        break;
+      case "m":
+        toggleMute();
+        break;
+      case "c":
+        toggleCaptions();
+        break;
+      case "f":
+        toggleFullscreen();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const timeText = labels.timeOf(formatPlayerTime(currentTime), formatPlayerTime(duration));
+  const progress = Number.isFinite(duration) && duration > 0 ? (currentTime / duration) * 100 : 0;
+  const effectiveVolume = isMuted ? 0 : volume;
+  // Levels of an HLS manifest replace the qualities received as props
+  const hasLevels = levels.length > 1;
+  const qualityValue = quality ?? (hasLevels ? AUTO_QUALITY : "");
+  const playingLevel = levels.find((level) => level.index === source.currentLevel);
+  const autoLabel = playingLevel && qualityValue === AUTO_QUALITY ? `Auto (${playingLevel.resolution}p)` : "Auto";
+  const qualityOptions: PlayerQualityOption[] = hasLevels
+    ? [
+        { id: AUTO_QUALITY, label: autoLabel },
+        ...levels.map((level) => ({ id: String(level.resolution), label: `${level.resolution}p` })),
+      ]
+    : qualities;
+  const selectedQuality = qualityOptions.find((option) => option.id === qualityValue);
+  const showError = hasError || source.failed;
+  const areControlsVisible = !isPlaying || openMenu !== null;
+
+  return (
+    <div
+      ref={containerRef}
+      role="region"
+      aria-label={title ? `${labels.player}: ${title}` : labels.player}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="video-player group relative w-full aspect-video bg-black text-white focus:outline-none focus-visible:ring-2 focus-visible:ring-green"
+    >
+      <video
+        ref={videoRef}
+        className="w-full h-full"
+        poster={poster}
+        crossOrigin="anonymous"
+        playsInline
+        onClick={togglePlay}
+        onDoubleClick={toggleFullscreen}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onDurationChange={(e) => setDuration(e.currentTarget.duration)}
+        onLoadStart={() => {
+          setHasError(false);
+          hasStarted.current = false;
+          lastBufferSample.current = null;
+        }}
+        onLoadedMetadata={handleLoadedMetadata}
+        onVolumeChange={(e) => {
+          setVolume(e.currentTarget.volume);
+          setIsMuted(e.currentTarget.muted);
+        }}
+        onRateChange={(e) => setPlaybackRate(e.currentTarget.playbackRate)}
+        onWaiting={() => {
+          setIsBuffering(true);
+          handleStall();
+        }}
+        onStalled={handleStall}
+        onPlaying={() => {
+          setIsBuffering(false);
+          hasStarted.current = true;
+        }}
+        onSeeking={() => {
+          isSeeking.current = true;
+          lastBufferSample.current = null;
+        }}
+        onSeeked={() => {
+          isSeeking.current = false;
+        }}
+        onProgress={handleProgress}
+        onCanPlay={() => setIsBuffering(false)}
+        onError={() => {
+          setHasError(true);
+          setIsBuffering(false);
+          onSourceError?.(src);
+        }}
+      >
+        {captions.map((track) => (
+          <track key={track.srcLang} kind="subtitles" src={track.src} srcLang={track.srcLang} label={track.label} />
+        ))}
+      </video>
+
+      {/* Buffering / error overlay */}
+      {(isBuffering || showError) && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          {showError ? (
+            <p className="px-4 py-2 rounded bg-black/70 text-white" role="alert">
+              {labels.error}
+            </p>
+          ) : (
+            <div
+              className="w-12 h-12 rounded-full border-4 border-white/30 border-t-white animate-spin"
+              role="status"
+              aria-label={labels.buffering}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Control bar: always visible while paused, on hover or when a control has focus */}
+      <div
+        className={`absolute inset-x-0 bottom-0 flex flex-col gap-1 px-3 pt-6 pb-2 bg-gradient-to-t from-black/80 to-transparent transition-opacity group-hover:opacity-100 group-focus-within:opacity-100 ${
+          areControlsVisible ? "opacity-100" : "opacity-0"
+        }`}
+      >
+        <input
+          type="range"
+          min={0}
+          max={Number.isFinite(duration) ? duration : 0}
+          step={1}
+          value={currentTime}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="w-full h-1.5 cursor-pointer accent-green"
+          style={{
+            background: `linear-gradient(to right, var(--color-green) ${progress}%, rgb(255 255 255 / 0.3) ${progress}%)`,
+          }}
+          aria-label={labels.seek}
+          aria-valuetext={timeText}
+          aria-keyshortcuts="Home End"
+        />
+
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={togglePlay}
+            className={CONTROL_BUTTON_CLASS}
+            aria-label={isPlaying ? labels.pause : labels.play}
+            aria-keyshortcuts="k Space"
+          >
+            <ControlIcon paths={isPlaying ? ICONS.pause : ICONS.play} />
+          </button>
+
+          <button
+            type="button"
+            onClick={toggleMute}
+            className={CONTROL_BUTTON_CLASS}
+            aria-label={isMuted ? labels.unmute : labels.mute}
+            aria-keyshortcuts="m"
+          >
+            <ControlIcon paths={effectiveVolume === 0 ? ICONS.muted : ICONS.volume} />
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={VOLUME_STEP}
+            value={effectiveVolume}
+            onChange={(e) => changeVolume(Number(e.target.value))}
+            className="w-20 sm:w-24 cursor-pointer accent-green"
+            aria-label={labels.volume}
+            aria-valuetext={`${Math.round(effectiveVolume * 100)}%`}
+          />
+
+          <span className="ml-2 text-sm tabular-nums whitespace-nowrap" aria-hidden="true">
+            {formatPlayerTime(currentTime)} / {formatPlayerTime(duration)}
+          </span>
+
+          <div className="ml-auto flex items-center gap-1">
+            {captions.length > 0 && (
+              <PlayerMenu
+                label={labels.captions}
+                buttonContent={<ControlIcon paths={ICONS.captions} />}
+                options={[
+                  { value: CAPTIONS_OFF, label: labels.captionsOff },
+                  ...captions.map((track) => ({ value: track.srcLang, label: track.label })),
+                ]}
+                value={captionLang}
+                isOpen={openMenu === "captions"}
+                onOpenChange={menuOpenHandlers.captions}
+                onSelect={selectCaptions}
+                keyShortcuts="c"
+              />
+            )}
+            {qualityOptions.length > 1 && onQualityChange && (
+              <PlayerMenu
+                label={labels.quality}
+                buttonContent={selectedQuality?.label ?? labels.quality}
+                options={qualityOptions.map((option) => ({ value: option.id, label: option.label }))}
+                value={qualityValue}
+                isOpen={openMenu === "quality"}
+                onOpenChange={menuOpenHandlers.quality}
+                onSelect={onQualityChange}
+              />
+            )}
+            <PlayerMenu
+              label={labels.speed}
+              buttonContent={`${playbackRate}x`}
+              options={PLAYBACK_RATES.map((rate) => ({
+                value: String(rate),
+                label: rate === 1 ? labels.normalSpeed : `${rate}x`,
+              }))}
+              value={String(playbackRate)}
+              isOpen={openMenu === "speed"}
+              onOpenChange={menuOpenHandlers.speed}
+              onSelect={(rate) => changeRate(Number(rate))}
+            />
+            <button
+              type="button"
+              onClick={toggleFullscreen}
+              className={CONTROL_BUTTON_CLASS}
+              aria-label={isFullscreen ? labels.exitFullscreen : labels.fullscreen}
+              aria-keyshortcuts="f"
+            >
+              <ControlIcon paths={isFullscreen ? ICONS.minimize : ICONS.maximize} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoPlayer;
@@ -1,9 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import VideoCard from "./VideoCard";
+import VideoCardSkeleton from "./VideoCardSkeleton";
+import CarouselScroller from "./CarouselScroller";
 import TitleBanner from "./TitleBanner";
-import type { PexelsVideo } from "../types/pexels.types";
+import type { PexelsVideo, PexelsVideoSearchResponse } from "../types/pexels.types";
 import { pexelsService } from "../services/pexels.service";
+import { isAbortError } from "../services/http.client";
+import useSearchHistoryStore from "../stores/useSearchHistoryStore";
+import { useHistorySnapshot, useScrollRestoration } from "../hooks/useHistoryRestoration";
+import { useNearViewport } from "../hooks/useNearViewport";
 
 /**
  * Props for the VideosCarousel component
@@ -20,10 +26,41 @@ interface VideosCarouselProps {
   perPage?: number;
 }
 
+/**
+ * State saved for history navigation
+ */
+interface CarouselSnapshot {
+  videos: PexelsVideo[];
+  nextPage: number | null;
+}
+
+/**
+ * Skeleton cards shown while the first page loads
+ * @constant {number}
+ */
+const SKELETON_COUNT = 4;
+
+/**
+ * Merges pages, dropping videos already present (pages can shift between requests)
+ *
+ * @param {PexelsVideo[]} current - Videos already shown
+ * @param {PexelsVideo[]} incoming - Videos to append
+ * @returns {PexelsVideo[]} Combined list without duplicates
+ */
+const appendUnique = (current: PexelsVideo[], incoming: PexelsVideo[]): PexelsVideo[] => {
+  const ids = new Set(current.map((video) => video._id));
+  return [...current, ...incoming.filter((video) => !ids.has(video._id))];
+};
+
 /**
  * Horizontal video carousel component
  * Displays a list of videos in carousel format with horizontal scroll
  * Includes a title banner with "See more" button that navigates to search page
+ * Coming back through history shows the same videos at the same horizontal offset
+ *
+ * - Nothing is fetched until the carousel gets near the viewport; skeleton cards show meanwhile
+ * - Previous/next buttons page by the visible width, arrow keys move between cards
+ * - Scrolling to the end loads the next page
  * 
  * @component
  * @param {VideosCarouselProps} props - Component props
@@ -52,9 +89,20 @@ const VideosCarousel: React.FC<VideosCarouselProps> = ({
   isPopular = false,
   perPage = 12,
 }) => {
-  const [videos, setVideos] = useState<PexelsVideo[]>([]);
-  const [loading, setLoading] = useState(true);
+  const snapshotId = `carousel:${title}:${isPopular ? "popular" : category}`;
+  const { restored, save: saveSnapshot } = useHistorySnapshot<CarouselSnapshot>(snapshotId);
+  const skipLoad = useRef(restored !== undefined);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const moreController = useRef<AbortController | null>(null);
+  const [videos, setVideos] = useState<PexelsVideo[]>(restored?.videos ?? []);
+  const [nextPage, setNextPage] = useState<number | null>(restored?.nextPage ?? null);
+  const [loading, setLoading] = useState(!restored);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [moreError, setMoreError] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const isNear = useNearViewport(rootRef, undefined, restored !== undefined);
   const navigate = useNavigate();
 
   /**
@@ -71,67 +119,132 @@ const VideosCarousel: React.FC<VideosCarouselProps> = ({
   };
 
   /**
-   * Loads videos from Pexels API
+   * Fetches one page of the carousel
    * Uses getPopularVideos if isPopular is true, or searchVideos with the category
-   * @async
-   * @throws {Error} If there's an error loading videos
    */
-  const loadVideos = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      let response;
-      if (isPopular) {
-        response = await pexelsService.getPopularVideos(1, perPage);
-      } else if (category) {
-        response = await pexelsService.searchVideos(category, 1, perPage);
-      } else {
-        throw new Error("A category is required or mark as popular");
+  const fetchPage = useCallback(
+    (page: number, options: { signal: AbortSignal; onRevalidate?: (fresh: PexelsVideoSearchResponse) => void }) => {
+      if (isPopular) return pexelsService.getPopularVideos(page, perPage, options);
+      if (category) return pexelsService.searchVideos(category, page, perPage, options);
+      throw new Error("A category is required or mark as popular");
+    },
+    [category, isPopular, perPage]
+  );
+
+  /**
+   * Loads the first page once the carousel is near the viewport, when the category changes or on retry
+   * Cached results are shown instantly; a fresher first page replaces the first videos and keeps the rest.
+   * The request is cancelled if the props change before it finishes
+   */
+  useEffect(() => {
+    if (!isNear) return;
+    // Restored videos are shown as they were; a later retry or prop change loads again
+    if (skipLoad.current) {
+      skipLoad.current = false;
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const loadVideos = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setLoadingMore(false);
+        setMoreError(false);
+
+        const response = await fetchPage(1, {
+          signal: controller.signal,
+          onRevalidate: (fresh) =>
+            setVideos((current) => appendUnique(fresh.videos, current.slice(perPage))),
+        });
+
+        if (controller.signal.aborted) return;
+        setVideos(response.videos);
+        setNextPage(response.next_page);
+        // Authors seen here are offered as search suggestions
+        useSearchHistoryStore.getState().addAuthors(response.videos.map((video) => video.user.name));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error(`Error loading videos from ${title}:`, err);
+        setError("Error loading videos");
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
       }
+    };
+
+    loadVideos();
+    return () => {
+      controller.abort();
+      moreController.current?.abort();
+    };
+  }, [isNear, fetchPage, perPage, title, reloadKey]);
+
+  /**
+   * Appends the next page when the end of the carousel is reached
+   * Ignored while a page is already loading
+   */
+  const loadMore = useCallback(async () => {
+    if (nextPage === null || moreController.current) return;
+    const controller = new AbortController();
+    moreController.current = controller;
 
-      setVideos(response.videos);
+    try {
+      setLoadingMore(true);
+      setMoreError(false);
+      const response = await fetchPage(nextPage, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setVideos((current) => appendUnique(current, response.videos));
+      setNextPage(response.next_page);
+      useSearchHistoryStore.getState().addAuthors(response.videos.map((video) => video.user.name));
     } catch (err) {
-      console.error(`Error loading videos from ${title}:`, err);
-      setError("Error loading videos");
+      if (isAbortError(err)) return;
+      console.error(`Error loading more videos from ${title}:`, err);
+      setMoreError(true);
     } finally {
-      setLoading(false);
+      if (moreController.current === controller) moreController.current = null;
+      if (!controller.signal.aborted) setLoadingMore(false);
     }
-  };
+  }, [fetchPage, nextPage, title]);
 
   useEffect(() => {
-    loadVideos();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [category, isPopular]);
+    if (videos.length > 0) saveSnapshot({ videos, nextPage });
+  }, [videos, nextPage, saveSnapshot]);
+
+  useScrollRestoration(snapshotId, !loading && videos.length > 0, scrollerRef);
 
   return (
-    <div className="videos-list w-full h-fit flex flex-col gap-5">
+    <div ref={rootRef} className="videos-list w-full h-fit flex flex-col gap-5">
       {/* Title Banner */}
       <TitleBanner title={title} onViewMore={handleViewMore} />
 
       {/* Videos Container */}
       <div className="videos-container">
         {loading ? (
-          <div className="text-white/70 text-lg py-8">
-            Cargando videos de {title.toLowerCase()}...
+          <div className="flex gap-6 overflow-hidden pb-4">
+            <span className="sr-only" role="status">
+              Cargando videos de {title.toLowerCase()}...
+            </span>
+            {Array.from({ length: SKELETON_COUNT }, (_, index) => (
+              <VideoCardSkeleton key={index} />
+            ))}
           </div>
         ) : error ? (
           <div className="text-red text-lg py-8">
             <p>{error}</p>
             <button
-              onClick={loadVideos}
+              onClick={() => setReloadKey((key) => key + 1)}
               className="mt-4 px-4 py-2 bg-blue text-white text-sm rounded hover:bg-lightblue transition"
             >
               Reintentar
             </button>
           </div>
         ) : videos.length > 0 ? (
-          <div
-            className="flex gap-6 overflow-x-auto scroll-smooth pb-4"
-            style={{
-              scrollbarWidth: "thin",
-              scrollbarColor: "#3b82f6 #1f2937",
-            }}
+          <CarouselScroller
+            label={title}
+            scrollerRef={scrollerRef}
+            itemCount={videos.length}
+            onReachEnd={nextPage !== null && !loadingMore && !moreError ? loadMore : undefined}
           >
             {videos.map((video) => (
               <VideoCard
@@ -139,9 +252,21 @@ const VideosCarousel: React.FC<VideosCarouselProps> = ({
                 video={video}
               />
             ))}
-          </div>
+            {loadingMore && <VideoCardSkeleton />}
+            {moreError && (
+              <div className="flex-shrink-0 flex flex-col items-center justify-center gap-3 w-48 text-red">
+                <p>No se pudieron cargar más videos</p>
+                <button
+                  onClick={loadMore}
+                  className="px-4 py-2 bg-blue text-white text-sm rounded hover:bg-lightblue transition"
+                >
+                  Reintentar
+                </button>
+              </div>
+            )}
+          </CarouselScroller>
         ) : (
-          <div className="text-white/70 text-lg py-8">
+          <div className="text-foreground/70 text-lg py-8">
             No se encontraron videos en esta categoría.
           </div>
         )}
@@ -0,0 +1,210 @@
+import { useState, useRef, useLayoutEffect, useCallback, useEffect } from "react";
+import VideoCard from "./VideoCard";
+import type { PexelsVideo } from "../types/pexels.types";
+
+/**
+ * Props for the VirtualVideoGrid component
+ * @typedef {Object} VirtualVideoGridProps
+ * @property {PexelsVideo[]} videos - Videos to show, in display order
+ * @property {Function} [isNew] - Returns true for videos that get the "Nuevo" badge
+ * @property {Function} [sentinelRef] - Callback ref for an element after the last row (infinite scroll)
+ */
+interface VirtualVideoGridProps {
+  videos: PexelsVideo[];
+  isNew?: (video: PexelsVideo) => boolean;
+  sentinelRef?: (node: HTMLDivElement | null) => void;
+}
+
+/**
+ * Space between cards in px (Tailwind gap-6)
+ * @constant {number}
+ */
+const GAP = 24;
+
+/**
+ * Rows rendered above and below the viewport
+ * @constant {number}
+ */
+const OVERSCAN_ROWS = 2;
+
+/**
+ * Row height (card + gap) used until the first row is measured
+ * @constant {number}
+ */
+const ESTIMATED_ROW_HEIGHT = 300;
+
+/**
+ * Width of a VideoCard at the current breakpoint (w-full, sm:w-72, md:w-96)
+ *
+ * @param {number} containerWidth - Width of the grid
+ * @returns {number} Card width in px
+ */
+const getItemWidth = (containerWidth: number): number => {
+  if (window.matchMedia("(min-width: 768px)").matches) return 384;
+  if (window.matchMedia("(min-width: 640px)").matches) return 288;
+  return containerWidth;
+};
+
+/**
+ * Windowed grid of VideoCard
+ * Only the rows near the viewport are in the DOM; the container keeps the
+ * full height so the page scrollbar and the infinite scroll sentinel behave
+ * as if every card were rendered
+ *
+ * @component
+ * @param {VirtualVideoGridProps} props - Component props
+ * @returns {JSX.Element} Virtualized video grid
+ *
+ * @example
+ * ```tsx
+ * <VirtualVideoGrid
+ *   videos={videos}
+ *   isNew={(video) => newIds.has(video._id)}
+ *   sentinelRef={lastVideoElementRef}
+ * />
+ * ```
+ *
+ * @description
+ * - Columns follow the VideoCard breakpoints and the grid width
+ * - Row height is measured from a rendered row and updated on resize
+ * - The row holding the focused card stays mounted while scrolled away,
+ *   so keyboard focus is never lost
+ * - Exposed as a list with position info for screen readers
+ */
+const VirtualVideoGrid: React.FC<VirtualVideoGridProps> = ({ videos, isNew, sentinelRef }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowObserver = useRef<ResizeObserver | null>(null);
+  const [columns, setColumns] = useState(1);
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const [visibleRows, setVisibleRows] = useState({ start: 0, end: 2 * OVERSCAN_ROWS });
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+
+  const rowCount = Math.ceil(videos.length / columns);
+
+  /**
+   * Effect: Recomputes columns and visible rows on scroll and resize
+   * Updates are batched to one per animation frame
+   */
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const width = container.clientWidth;
+      const nextColumns = Math.max(1, Math.floor((width + GAP) / (getItemWidth(width) + GAP)));
+      // Distance scrolled past the top of the grid (negative while it's below the fold)
+      const offset = -container.getBoundingClientRect().top;
+      const start = Math.max(0, Math.floor(offset / rowHeight) - OVERSCAN_ROWS);
+      const end = Math.max(start, Math.ceil((offset + window.innerHeight) / rowHeight) + OVERSCAN_ROWS);
+
+      setColumns(nextColumns);
+      setVisibleRows((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    const resizeObserver = new ResizeObserver(schedule);
+    resizeObserver.observe(container);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+      resizeObserver.disconnect();
+    };
+  }, [rowHeight]);
+
+  /**
+   * Callback ref for the first rendered row
+   * Measures its height so rows are positioned without gaps or overlaps
+   *
+   * @param {HTMLDivElement | null} node - Row element
+   */
+  const measureRow = useCallback((node: HTMLDivElement | null) => {
+    rowObserver.current?.disconnect();
+    if (!node) return;
+
+    rowObserver.current = new ResizeObserver(() => {
+      const measured = node.offsetHeight + GAP;
+      if (measured > GAP) {
+        setRowHeight((prev) => (Math.abs(prev - measured) > 1 ? measured : prev));
+      }
+    });
+    rowObserver.current.observe(node);
+  }, []);
+
+  useEffect(() => () => rowObserver.current?.disconnect(), []);
+
+  /**
+   * Remembers which card has keyboard focus
+   *
+   * @param {React.FocusEvent<HTMLDivElement>} e - Focus event from inside the grid
+   */
+  const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    const cell = (e.target as HTMLElement).closest<HTMLElement>("[data-index]");
+    if (cell) setFocusedIndex(Number(cell.dataset.index));
+  };
+
+  /**
+   * Forgets the focused card once focus leaves the grid
+   *
+   * @param {React.FocusEvent<HTMLDivElement>} e - Blur event from inside the grid
+   */
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocusedIndex(null);
+  };
+
+  const rows = new Set<number>();
+  for (let row = visibleRows.start; row < Math.min(visibleRows.end, rowCount); row++) rows.add(row);
+  if (focusedIndex !== null && focusedIndex < videos.length) rows.add(Math.floor(focusedIndex / columns));
+  const sortedRows = [...rows].sort((a, b) => a - b);
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        role="list"
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        className="relative w-full"
+        style={{ height: Math.max(0, rowCount * rowHeight - GAP) }}
+      >
+        {sortedRows.map((row, position) => (
+          <div
+            key={row}
+            ref={position === 0 ? measureRow : undefined}
+            role="none"
+            className="absolute left-0 right-0 flex gap-6 justify-center"
+            style={{ top: row * rowHeight }}
+          >
+            {videos.slice(row * columns, (row + 1) * columns).map((video, column) => {
+              const index = row * columns + column;
+              return (
+                <div
+                  key={video._id}
+                  data-index={index}
+                  role="listitem"
+                  aria-posinset={index + 1}
+                  aria-setsize={videos.length}
+                  className="w-full sm:w-auto flex justify-center"
+                >
+                  <VideoCard video={video} isNew={isNew?.(video) ?? false} />
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      {sentinelRef && <div ref={sentinelRef} className="h-px w-full" aria-hidden="true" />}
+    </>
+  );
+};
+
+export default VirtualVideoGrid;
@@ -0,0 +1,41 @@
+/**
+ * Props for the WatchProgressBar component
+ * @typedef {Object} WatchProgressBarProps
+ * @property {number} percent - Share of the video watched, 0 to 100
+ * @property {string} [className] - Position classes (the bar is meant to sit over a thumbnail)
+ */
+interface WatchProgressBarProps {
+  percent: number;
+  className?: string;
+}
+
+/**
+ * Thin bar showing how much of a video was watched
+ * Drawn over the bottom of video thumbnails (VideoCard, HistoryPage)
+ *
+ * @component
+ * @param {WatchProgressBarProps} props - Component props
+ * @returns {JSX.Element} Progress bar
+ *
+ * @example
+ * ```tsx
+ * <div className="relative">
+ *   <img src={video.image} alt="" />
+ *   <WatchProgressBar percent={40} className="absolute inset-x-3 bottom-2" />
+ * </div>
+ * ```
+ */
+const WatchProgressBar: React.FC<WatchProgressBarProps> = ({ percent, className = "" }) => (
+  <div
+    className={`h-1 rounded-full bg-white/40 overflow-hidden pointer-events-none ${className}`}
+    role="progressbar"
+    aria-label="Progreso visto"
+    aria-valuemin={0}
+    aria-valuemax={100}
+    aria-valuenow={percent}
+  >
+    <div className="h-full bg-green" style={{ width: `${percent}%` }} />
+  </div>
+);
+
+export default WatchProgressBar;
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Restoration of list state when coming back through browser history
+ * Pages save snapshots of what they loaded (and their scroll offsets) under the
+ * current history entry; when the user returns to that entry with the back or
+ * forward buttons the snapshot is handed back instead of starting from scratch.
+ * Snapshots live in memory only, a reload starts fresh
+ * @module hooks/useHistoryRestoration
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from "react";
+import { useLocation, useNavigationType } from "react-router-dom";
+
+/**
+ * Maximum number of snapshots kept (oldest are dropped first)
+ * @constant {number}
+ */
+const MAX_SNAPSHOTS = 50;
+
+/**
+ * Frames spent trying to reach a saved offset while the content grows
+ * @constant {number}
+ */
+const MAX_RESTORE_FRAMES = 30;
+
+/**
+ * Snapshots by "<history entry key>:<id>", in insertion order
+ */
+const snapshots = new Map<string, unknown>();
+
+const remember = (key: string, value: unknown) => {
+  snapshots.delete(key);
+  snapshots.set(key, value);
+  if (snapshots.size > MAX_SNAPSHOTS) {
+    const oldest = snapshots.keys().next().value;
+    if (oldest !== undefined) snapshots.delete(oldest);
+  }
+};
+
+/**
+ * Saves and restores a snapshot tied to the current history entry
+ * The snapshot is only restored on history navigation (POP); following a link
+ * to the same page starts fresh
+ *
+ * @template T
+ * @param {string} id - Identifies the snapshot within the page
+ * @returns {{ restored: T | undefined; save: (snapshot: T) => void }} Snapshot found on mount and a function to update it
+ *
+ * @example
+ * const { restored, save } = useHistorySnapshot<{ videos: PexelsVideo[] }>("liked-list");
+ * const [videos, setVideos] = useState(restored?.videos ?? []);
+ * useEffect(() => save({ videos }), [videos, save]);
+ */
+export const useHistorySnapshot = <T>(id: string) => {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const key = `${location.key}:${id}`;
+  const [restored] = useState(() => (navigationType === "POP" ? (snapshots.get(key) as T | undefined) : undefined));
+
+  const save = useCallback((snapshot: T) => remember(key, snapshot), [key]);
+
+  return { restored, save };
+};
+
+/**
+ * Keeps the scroll offset of the window (vertical) or of an element
+ * (horizontal) and restores it when coming back through history
+ *
+ * @param {string} id - Identifies the scroll position within the page
+ * @param {boolean} ready - True once the restored content is rendered
+ * @param {RefObject<HTMLElement | null>} [elementRef] - Horizontal scroller; the window is used if omitted
+ *
+ * @example
+ * useScrollRestoration("search", videos.length > 0);
+ * useScrollRestoration(`carousel:${category}`, !loading, scrollerRef);
+ */
+export const useScrollRestoration = (
+  id: string,
+  ready: boolean,
+  elementRef?: RefObject<HTMLElement | null>
+) => {
+  const { restored, save } = useHistorySnapshot<number>(`scroll:${id}`);
+  const pending = useRef(restored);
+
+  /**
+   * Effect: Scrolls to the saved offset once the content is ready
+   * Retries for a few frames because lists may still be growing
+   */
+  useLayoutEffect(() => {
+    if (!ready || pending.current === undefined) return;
+    const target = pending.current;
+    let frame = 0;
+    let attempts = 0;
+
+    const apply = () => {
+      const element = elementRef?.current;
+      if (element) {
+        element.scrollTo({ left: target, behavior: "instant" });
+      } else {
+        window.scrollTo({ top: target, behavior: "instant" });
+      }
+      const current = element ? element.scrollLeft : window.scrollY;
+      if (Math.abs(current - target) <= 1 || ++attempts >= MAX_RESTORE_FRAMES) {
+        pending.current = undefined;
+        return;
+      }
+      frame = requestAnimationFrame(apply);
+    };
+
+    apply();
+    return () => cancelAnimationFrame(frame);
+  }, [ready, elementRef]);
+
+  /**
+   * Effect: Saves the offset while the user scrolls (once per frame)
+   */
+  useEffect(() => {
+    const target: HTMLElement | Window | null | undefined = elementRef ? elementRef.current : window;
+    if (!target) return;
+    let frame = 0;
+
+    const handleScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        save(elementRef?.current ? elementRef.current.scrollLeft : window.scrollY);
+      });
+    };
+
+    target.addEventListener("scroll", handleScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      target.removeEventListener("scroll", handleScroll);
+    };
+  }, [ready, elementRef, save]);
+};
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Personalized HomePage layout synced with the user profile
+ * The layout is read from the local store first and reconciled with the copy
+ * saved through authService: whichever was changed last wins. Changes are saved
+ * locally at once and then sent to the backend
+ * @module hooks/useHomeLayout
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { authService } from "../services/auth.service";
+import { isAbortError } from "../services/http.client";
+import useHomeLayoutStore from "../stores/useHomeLayoutStore";
+import useUserStore from "../stores/useUserStore";
+import type { HomeCarousel, HomeLayout } from "../types/preferences.types";
+import { getDefaultHomeLayout, resolveHomeLayout } from "../utils/homeLayout";
+
+/**
+ * Last save sent to the backend
+ * Saves are chained so a slow request never overwrites a newer layout
+ */
+let lastPush: Promise<boolean> = Promise.resolve(true);
+
+/**
+ * Sends a layout to the backend after the previous save finished
+ *
+ * @param {string} userId - Owner
+ * @param {HomeLayout} layout - Layout to save
+ * @returns {Promise<boolean>} True if it was saved
+ */
+const pushLayout = (userId: string, layout: HomeLayout): Promise<boolean> => {
+  lastPush = lastPush.then(async () => {
+    try {
+      await authService.updatePreferences(userId, { homeLayout: layout });
+      return true;
+    } catch (error) {
+      console.error("Error al sincronizar el diseño de inicio:", error);
+      return false;
+    }
+  });
+  return lastPush;
+};
+
+/**
+ * Current user's HomePage carousels and the functions to change them
+ *
+ * @returns {{carousels: HomeCarousel[], isCustomized: boolean, syncFailed: boolean, updateLayout: Function, resetLayout: Function}}
+ * Carousels in display order (hidden ones included), whether the user changed the
+ * default list, whether the last save only reached this device, and the updaters
+ *
+ * @example
+ * const { carousels, updateLayout } = useHomeLayout();
+ * updateLayout(moveCarousel(carousels, 2, -1));
+ */
+export const useHomeLayout = () => {
+  const userId = useUserStore((state) => state.user?.id ?? "");
+  const stored = useHomeLayoutStore((state) => (userId ? state.byUser[userId] : undefined));
+  const setLayout = useHomeLayoutStore((state) => state.setLayout);
+  const [syncFailed, setSyncFailed] = useState(false);
+
+  const carousels = useMemo(() => resolveHomeLayout(stored), [stored]);
+
+  /**
+   * Effect: Reconciles the local layout with the one in the user profile
+   * The newest copy wins; a local copy changed while offline is sent again
+   */
+  useEffect(() => {
+    if (!userId) return;
+    const controller = new AbortController();
+
+    const sync = async () => {
+      try {
+        const { homeLayout } = await authService.getPreferences(userId, controller.signal);
+        const local = useHomeLayoutStore.getState().byUser[userId];
+
+        if (homeLayout && (!local || homeLayout.updatedAt > local.updatedAt)) {
+          setLayout(userId, homeLayout);
+        } else if (local && (!homeLayout || local.updatedAt > homeLayout.updatedAt)) {
+          const saved = await pushLayout(userId, local);
+          if (!controller.signal.aborted) setSyncFailed(!saved);
+        }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        // The local copy (or the default list) keeps being used
+        console.error("Error al cargar el diseño de inicio:", error);
+      }
+    };
+
+    sync();
+    return () => controller.abort();
+  }, [userId, setLayout]);
+
+  /**
+   * Saves a new carousel list locally and in the user profile
+   *
+   * @param {HomeCarousel[]} next - Carousels in display order
+   */
+  const updateLayout = useCallback(
+    (next: HomeCarousel[]) => {
+      if (!userId) return;
+      const layout: HomeLayout = { carousels: next, updatedAt: new Date().toISOString() };
+      setLayout(userId, layout);
+      pushLayout(userId, layout).then((saved) => setSyncFailed(!saved));
+    },
+    [userId, setLayout]
+  );
+
+  /**
+   * Goes back to the default carousels (custom searches are removed)
+   */
+  const resetLayout = useCallback(() => updateLayout(getDefaultHomeLayout()), [updateLayout]);
+
+  return { carousels, isCustomized: stored !== undefined, syncFailed, updateLayout, resetLayout };
+};
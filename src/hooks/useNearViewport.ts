@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Detects when an element gets close to the viewport
+ * Used to defer work (like fetching a carousel) until the user scrolls near it
+ * @module hooks/useNearViewport
+ */
+
+import { useEffect, useState, type RefObject } from "react";
+
+/**
+ * Becomes true once the element is within `margin` of the viewport and stays true
+ *
+ * @param {RefObject<HTMLElement | null>} elementRef - Element to watch
+ * @param {string} [margin="400px 0px"] - IntersectionObserver rootMargin
+ * @param {boolean} [initial=false] - Start as already near (e.g. content restored from history)
+ * @returns {boolean} True once the element came near the viewport
+ *
+ * @example
+ * const containerRef = useRef<HTMLDivElement>(null);
+ * const isNear = useNearViewport(containerRef);
+ * useEffect(() => { if (isNear) loadVideos(); }, [isNear]);
+ */
+export const useNearViewport = (
+  elementRef: RefObject<HTMLElement | null>,
+  margin: string = "400px 0px",
+  initial: boolean = false
+): boolean => {
+  const [isNear, setIsNear] = useState(initial);
+
+  /**
+   * Effect: Watches the element until it intersects the extended viewport
+   */
+  useEffect(() => {
+    const element = elementRef.current;
+    if (isNear || !element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsNear(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: margin }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [elementRef, margin, isNear]);
+
+  return isNear;
+};
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Remembers where the user left each video of the VideoPage player
+ * The position is polled from the player, kept in the watch history and sent
+ * to the backend when it has a progress endpoint (not while the user has the
+ * history paused). Coming back to a video offers to resume from the saved position
+ * @module hooks/usePlaybackResume
+ */
+
+import { useCallback, useEffect, useState, type RefObject } from "react";
+import useUserStore from "../stores/useUserStore";
+import useWatchHistoryStore from "../stores/useWatchHistoryStore";
+import { pexelsService } from "../services/pexels.service";
+import { isAbortError } from "../services/http.client";
+import type { PexelsVideo } from "../types/pexels.types";
+import type { VideoPlayerHandle } from "../types/player.types";
+import { getResumePosition } from "../utils/watchProgress";
+
+/**
+ * How often the position is read from the player (ms)
+ * @constant {number}
+ */
+const POLL_INTERVAL = 1_000;
+
+/**
+ * How often the position is written to the watch history (ms)
+ * @constant {number}
+ */
+const SAVE_INTERVAL = 5_000;
+
+/**
+ * How often the position is sent to the backend (ms)
+ * @constant {number}
+ */
+const SYNC_INTERVAL = 15_000;
+
+/**
+ * Position saved in the browser for a video
+ *
+ * @param {string | undefined} userId - Owner of the history
+ * @param {string | undefined} videoId - Video to look up
+ * @returns {number | null} Seconds, null when there is none
+ */
+const readSavedPosition = (userId: string | undefined, videoId: string | undefined): number | null => {
+  if (!userId || !videoId) return null;
+  const entries = useWatchHistoryStore.getState().byUser[userId] ?? [];
+  return entries.find((entry) => entry.videoId === videoId)?.position ?? null;
+};
+
+/**
+ * Saves the playback position of a video and offers to resume it
+ *
+ * @param {PexelsVideo | null} video - Video being played
+ * @param {RefObject<VideoPlayerHandle | null>} playerRef - Player of the page
+ * @returns {{resumePosition: number | null, resume: Function, startOver: Function}}
+ * Position offered to resume from (null once answered or when there is none),
+ * a function seeking to it and a function dismissing the offer
+ *
+ * @example
+ * const { resumePosition, resume, startOver } = usePlaybackResume(video, playerRef);
+ * {resumePosition !== null && <button onClick={resume}>Reanudar</button>}
+ */
+export const usePlaybackResume = (video: PexelsVideo | null, playerRef: RefObject<VideoPlayerHandle | null>) => {
+  const userId = useUserStore((state) => state.user?.id);
+  const isPaused = useWatchHistoryStore((state) => (userId ? state.pausedByUser[userId] === true : false));
+  const videoId = video?._id;
+  const duration = video?.duration;
+
+  // Position offered for the current video, read again when the video changes
+  const [offer, setOffer] = useState<{ videoId: string | undefined; position: number | null }>(() => ({
+    videoId,
+    position: readSavedPosition(userId, videoId),
+  }));
+  if (offer.videoId !== videoId) {
+    setOffer({ videoId, position: readSavedPosition(userId, videoId) });
+  }
+  const isOffering = offer.position !== null;
+
+  /**
+   * Effect: Asks the backend for the position when the browser has none
+   * (e.g. the video was watched on another device)
+   */
+  useEffect(() => {
+    if (!userId || !videoId || readSavedPosition(userId, videoId) !== null) return;
+    const controller = new AbortController();
+
+    pexelsService
+      .getPlaybackProgress(videoId, { signal: controller.signal })
+      .then((saved) => {
+        const position = saved === null ? null : getResumePosition(saved, duration ?? NaN);
+        // Not worth offering once playback went past it
+        if (position === null || (playerRef.current?.getCurrentTime() ?? 0) >= position) return;
+        useWatchHistoryStore.getState().setPosition(userId, videoId, position);
+        setOffer({ videoId, position });
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) console.error("Error loading playback progress:", err);
+      });
+
+    return () => controller.abort();
+  }, [userId, videoId, duration, playerRef]);
+
+  /**
+   * Effect: Saves the position while the video plays
+   * Paused while the offer is shown, so playing the first seconds doesn't
+   * overwrite the position the user may still want to resume
+   */
+  useEffect(() => {
+    if (!userId || !videoId || isOffering || isPaused) return;
+    let latest: number | null | undefined; // Last position read, undefined until the metadata loads
+    let saved: number | null | undefined;
+    let synced: number | null | undefined;
+    let lastSave = Date.now();
+    let lastSync = Date.now();
+
+    const poll = () => {
+      const player = playerRef.current;
+      if (!player || !Number.isFinite(player.getDuration())) return;
+      latest = getResumePosition(player.getCurrentTime(), player.getDuration());
+    };
+
+    const save = (flush: boolean) => {
+      // Also checked here for the flush that runs when the user pauses the history
+      if (latest === undefined || useWatchHistoryStore.getState().pausedByUser[userId]) return;
+      const now = Date.now();
+      if (latest !== saved && (flush || now - lastSave >= SAVE_INTERVAL)) {
+        saved = latest;
+        lastSave = now;
+        useWatchHistoryStore.getState().setPosition(userId, videoId, latest);
+      }
+      if (latest !== synced && (flush || now - lastSync >= SYNC_INTERVAL)) {
+        synced = latest;
+        lastSync = now;
+        pexelsService
+          .savePlaybackProgress(videoId, latest)
+          .catch((err) => console.error("Error saving playback progress:", err));
+      }
+    };
+
+    const interval = window.setInterval(() => {
+      poll();
+      save(false);
+    }, POLL_INTERVAL);
+
+    // Leaving the tab or closing the page may not unmount the component
+    const flush = () => {
+      poll();
+      save(true);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", flush);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", flush);
+      // The player may already be gone; the last polled position is at most a second old
+      flush();
+    };
+  }, [userId, videoId, isOffering, isPaused, playerRef]);
+
+  /**
+   * Jumps to the saved position
+   */
+  const resume = useCallback(() => {
+    if (offer.position === null) return;
+    const player = playerRef.current;
+    player?.seek(offer.position);
+    player?.play();
+    player?.focus();
+    setOffer({ videoId, position: null });
+  }, [offer.position, playerRef, videoId]);
+
+  /**
+   * Dismisses the offer and keeps playing from the start
+   */
+  const startOver = useCallback(() => setOffer({ videoId, position: null }), [videoId]);
+
+  return { resumePosition: offer.position, resume, startOver };
+};
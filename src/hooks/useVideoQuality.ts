@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Quality selection for the VideoPage player
+ * Lists the files of a video in the player's quality menu, remembers the
+ * user's choice and, in automatic mode, picks a file by screen size and
+ * measured throughput, stepping down when playback keeps stalling.
+ * Videos with an HLS manifest play it instead when the browser can; the
+ * player then lists the levels of the manifest and hls.js adapts the quality.
+ * If the manifest fails, playback falls back to the progressive files
+ * @module hooks/useVideoQuality
+ */
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import useSettingsStore from "../stores/useSettingsStore";
+import type { PexelsVideo, VideoFile } from "../types/pexels.types";
+import type { BufferSample, PlayerQualityOption } from "../types/player.types";
+import {
+  AUTO_QUALITY,
+  estimateBitrate,
+  getLowerFile,
+  getPlayableFiles,
+  getQualityLabel,
+  pickAutoFile,
+  pickPreferredFile,
+  toQualityPreference,
+} from "../utils/videoQuality";
+import { canPlayHls } from "../utils/hls";
+
+/**
+ * Stalls within STALL_WINDOW that make the automatic mode step down
+ * @constant {number}
+ */
+const STALL_LIMIT = 2;
+
+/**
+ * Window in which stalls are counted (ms)
+ * @constant {number}
+ */
+const STALL_WINDOW = 30_000;
+
+/**
+ * Events closer than this belong to the same interruption (waiting + stalled) (ms)
+ * @constant {number}
+ */
+const STALL_DEBOUNCE = 2_000;
+
+/**
+ * Buffer ahead (s) under which the browser is still downloading at full speed
+ * Samples taken with a fuller buffer say little about the connection
+ * @constant {number}
+ */
+const FILL_THRESHOLD = 20;
+
+/**
+ * Weight of a new sample in the throughput average
+ * @constant {number}
+ */
+const THROUGHPUT_SMOOTHING = 0.3;
+
+/**
+ * Reads the downlink reported by the Network Information API (Chromium only)
+ *
+ * @returns {number | null} Kilobits per second, null when unavailable
+ */
+const readConnectionDownlink = (): number | null => {
+  const connection = (navigator as Navigator & { connection?: { downlink?: number } }).connection;
+  return connection?.downlink ? connection.downlink * 1000 : null;
+};
+
+/**
+ * Throughput estimate in kbps, shared by every video of the session
+ */
+let measuredThroughput: number | null = readConnectionDownlink();
+
+/**
+ * Screen area available to the player, in device pixels
+ *
+ * @returns {{ width: number; height: number }} Viewport size
+ */
+const getViewport = () => ({
+  width: window.innerWidth * window.devicePixelRatio,
+  height: window.innerHeight * window.devicePixelRatio,
+});
+
+/**
+ * Quality state of a video, ready to spread on VideoPlayer
+ *
+ * @param {PexelsVideo | null} video - Video being played
+ * @returns {{src: string, qualities: PlayerQualityOption[], quality: string, onQualityChange: Function, onStall: Function, onBufferProgress: Function}}
+ * URL of the chosen file, menu entries ("Auto" first), selected entry and the player callbacks
+ * (for HLS manifests: the manifest URL, the remembered level and a callback for playback failures)
+ *
+ * @example
+ * const quality = useVideoQuality(video);
+ * <VideoPlayer {...quality} />
+ */
+export const useVideoQuality = (video: PexelsVideo | null) => {
+  const preference = useSettingsStore((state) => state.videoQuality);
+  const setVideoQuality = useSettingsStore((state) => state.setVideoQuality);
+  const stalls = useRef<number[]>([]);
+  // Manifest the player could not play; its video falls back to the progressive files
+  const [failedHls, setFailedHls] = useState<string | null>(null);
+
+  const files = useMemo(() => getPlayableFiles(video?.video_files ?? []), [video?.video_files]);
+  const supportedHls = useMemo(
+    () => (canPlayHls() ? video?.video_files?.find((file) => file.quality === "hls") : undefined),
+    [video?.video_files]
+  );
+  const hlsFile = supportedHls && !(supportedHls.link === failedHls && files.length > 0) ? supportedHls : undefined;
+
+  // File picked by the automatic mode for the current files
+  const [auto, setAuto] = useState<{ files: VideoFile[]; id: string | undefined }>(() => ({
+    files,
+    id: pickAutoFile(files, getViewport(), measuredThroughput)?._id,
+  }));
+  if (auto.files !== files) {
+    setAuto({ files, id: pickAutoFile(files, getViewport(), measuredThroughput)?._id });
+  }
+
+  const isAuto = preference === AUTO_QUALITY;
+  const current = isAuto
+    ? (files.find((file) => file._id === auto.id) ?? files[0])
+    : pickPreferredFile(files, preference);
+
+  // With a single file there is nothing to choose
+  const qualities = useMemo<PlayerQualityOption[]>(
+    () =>
+      files.length < 2
+        ? []
+        : [
+            { id: AUTO_QUALITY, label: isAuto && current ? `Auto (${getQualityLabel(current)})` : "Auto" },
+            ...files.map((file) => ({ id: file._id, label: getQualityLabel(file) })),
+          ],
+    [files, isAuto, current]
+  );
+
+  /**
+   * Remembers the choice made in the menu
+   * Choosing "Auto" picks again with the current screen size and throughput
+   */
+  const onQualityChange = useCallback(
+    (id: string) => {
+      stalls.current = [];
+      if (id === AUTO_QUALITY) {
+        setAuto({ files, id: pickAutoFile(files, getViewport(), measuredThroughput)?._id });
+      }
+      setVideoQuality(toQualityPreference(id, files));
+    },
+    [files, setVideoQuality]
+  );
+
+  /**
+   * Remembers the level chosen for an HLS manifest ("auto" or a resolution)
+   */
+  const onLevelChange = useCallback(
+    (id: string) => setVideoQuality(id === AUTO_QUALITY ? AUTO_QUALITY : Number(id)),
+    [setVideoQuality]
+  );
+
+  /**
+   * Counts an interruption; in automatic mode repeated ones switch to a lighter file
+   * The player keeps the position when the source changes
+   */
+  const onStall = useCallback(() => {
+    if (!isAuto || !current) return;
+    const now = Date.now();
+    const recent = stalls.current.filter((time) => now - time < STALL_WINDOW);
+    if (recent.length > 0 && now - recent[recent.length - 1] < STALL_DEBOUNCE) return;
+    recent.push(now);
+    stalls.current = recent;
+    if (recent.length < STALL_LIMIT) return;
+
+    const lower = getLowerFile(files, current._id);
+    if (!lower) return;
+    stalls.current = [];
+    // The connection could not keep up with the current file
+    measuredThroughput = Math.min(measuredThroughput ?? Infinity, estimateBitrate(current));
+    setAuto({ files, id: lower._id });
+  }, [isAuto, current, files]);
+
+  /**
+   * Updates the throughput estimate from the buffer growth of the current file
+   */
+  const onBufferProgress = useCallback(
+    ({ mediaSeconds, elapsed, bufferedAhead }: BufferSample) => {
+      if (!current || elapsed <= 0 || bufferedAhead > FILL_THRESHOLD) return;
+      const sample = (mediaSeconds * estimateBitrate(current)) / elapsed;
+      measuredThroughput =
+        measuredThroughput === null
+          ? sample
+          : measuredThroughput * (1 - THROUGHPUT_SMOOTHING) + sample * THROUGHPUT_SMOOTHING;
+    },
+    [current]
+  );
+
+  /**
+   * Stops using a manifest the player could not play
+   */
+  const onSourceError = useCallback((src: string) => setFailedHls(src), []);
+
+  if (hlsFile) {
+    return {
+      src: hlsFile.link,
+      qualities: [],
+      quality: String(preference),
+      onQualityChange: onLevelChange,
+      onSourceError,
+    };
+  }
+
+  return {
+    src: current?.link ?? "",
+    qualities,
+    quality: isAuto ? AUTO_QUALITY : (current?._id ?? AUTO_QUALITY),
+    onQualityChange,
+    onStall,
+    onBufferProgress,
+  };
+};
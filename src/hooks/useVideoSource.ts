@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Loads the source of the VideoPlayer <video> element
+ * Progressive files and natively supported HLS go straight to the element;
+ * other HLS manifests are played through hls.js, loaded on demand, whose
+ * quality levels are exposed for the player's quality menu
+ * @module hooks/useVideoSource
+ */
+
+import { useCallback, useLayoutEffect, useRef, useState, type RefObject } from "react";
+import type Hls from "hls.js";
+import type { StreamLevel } from "../types/player.types";
+import { canPlayHlsNatively, isHlsSource } from "../utils/hls";
+
+/**
+ * Fatal hls.js errors recovered before giving up on a source
+ * @constant {number}
+ */
+const MAX_RECOVERIES = 3;
+
+/**
+ * HLS state of a source; kept with the URL it belongs to so a new source
+ * starts without the levels of the previous one
+ */
+interface StreamState {
+  src: string;
+  levels: StreamLevel[];
+  currentLevel: number; // Level playing, -1 until known
+  failed: boolean;
+}
+
+/**
+ * Levels of a manifest for the quality menu, best first
+ * Renditions repeating a resolution keep only the highest bitrate
+ *
+ * @param {Hls["levels"]} levels - Levels parsed by hls.js
+ * @returns {StreamLevel[]} One level per resolution
+ */
+const toStreamLevels = (levels: Hls["levels"]): StreamLevel[] => {
+  const byResolution = new Map<number, StreamLevel>();
+  levels.forEach((level, index) => {
+    const resolution = level.width && level.height ? Math.min(level.width, level.height) : level.height;
+    const current = byResolution.get(resolution);
+    if (!current || level.bitrate > current.bitrate) {
+      byResolution.set(resolution, { index, resolution, bitrate: level.bitrate });
+    }
+  });
+  return [...byResolution.values()].sort((a, b) => b.resolution - a.resolution);
+};
+
+/**
+ * Attaches a source to a video element
+ *
+ * @param {RefObject<HTMLVideoElement | null>} videoRef - Player video element
+ * @param {string} src - Progressive file or HLS manifest URL
+ * @returns {{levels: StreamLevel[], currentLevel: number, failed: boolean, selectLevel: Function, takeResume: Function}}
+ * Levels when hls.js plays the source (empty otherwise), the level playing, whether
+ * HLS playback failed, a function to pick a level (-1 = automatic) and a function
+ * returning the position to restore after a source change
+ *
+ * @example
+ * const { levels, selectLevel, takeResume } = useVideoSource(videoRef, src);
+ * selectLevel(levels[0].index);
+ */
+export const useVideoSource = (videoRef: RefObject<HTMLVideoElement | null>, src: string) => {
+  const hlsRef = useRef<Hls | null>(null);
+  const resume = useRef<{ time: number; playing: boolean } | null>(null);
+  const [stream, setStream] = useState<StreamState>({ src, levels: [], currentLevel: -1, failed: false });
+
+  /**
+   * Effect: Loads the source, remembering the position and play state of the previous one
+   * Runs before paint so the old position is read before the element resets it
+   */
+  useLayoutEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.currentSrc) resume.current = { time: video.currentTime, playing: !video.paused };
+
+    if (!isHlsSource(src) || canPlayHlsNatively(video)) {
+      video.src = src;
+      video.load();
+      return;
+    }
+
+    let cancelled = false;
+    let recoveries = 0;
+    const update = (changes: Partial<StreamState>) =>
+      setStream((current) => ({
+        ...(current.src === src ? current : { src, levels: [], currentLevel: -1, failed: false }),
+        ...changes,
+      }));
+
+    import("hls.js")
+      .then(({ default: HlsEngine }) => {
+        if (cancelled) return;
+        if (!HlsEngine.isSupported()) {
+          update({ failed: true });
+          return;
+        }
+
+        const hls = new HlsEngine();
+        hlsRef.current = hls;
+
+        hls.on(HlsEngine.Events.MANIFEST_PARSED, (_event, data) => update({ levels: toStreamLevels(data.levels) }));
+        hls.on(HlsEngine.Events.LEVEL_SWITCHED, (_event, data) => update({ currentLevel: data.level }));
+        hls.on(HlsEngine.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return;
+          // Network and decoding failures are retried a few times; anything else stops playback
+          recoveries += 1;
+          if (recoveries <= MAX_RECOVERIES && data.type === HlsEngine.ErrorTypes.NETWORK_ERROR) {
+            hls.startLoad();
+          } else if (recoveries <= MAX_RECOVERIES && data.type === HlsEngine.ErrorTypes.MEDIA_ERROR) {
+            hls.recoverMediaError();
+          } else {
+            console.error("HLS playback error:", data.details);
+            hls.destroy();
+            hlsRef.current = null;
+            update({ failed: true });
+          }
+        });
+
+        hls.loadSource(src);
+        hls.attachMedia(video);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Error loading hls.js:", err);
+        update({ failed: true });
+      });
+
+    return () => {
+      cancelled = true;
+      hlsRef.current?.destroy();
+      hlsRef.current = null;
+    };
+  }, [videoRef, src]);
+
+  /**
+   * Switches to a level of the manifest, keeping the position
+   *
+   * @param {number} index - Level index, or -1 to let hls.js choose
+   */
+  const selectLevel = useCallback((index: number) => {
+    const hls = hlsRef.current;
+    if (!hls) return;
+    const isSelected = index === -1 ? hls.autoLevelEnabled : !hls.autoLevelEnabled && hls.currentLevel === index;
+    if (!isSelected) hls.currentLevel = index;
+  }, []);
+
+  /**
+   * Position to restore once the new source has loaded its metadata (read once)
+   *
+   * @returns {{ time: number; playing: boolean } | null} Previous position and play state
+   */
+  const takeResume = useCallback(() => {
+    const value = resume.current;
+    resume.current = null;
+    return value;
+  }, []);
+
+  const current = stream.src === src ? stream : null;
+
+  return {
+    levels: current?.levels ?? [],
+    currentLevel: current?.currentLevel ?? -1,
+    failed: current?.failed ?? false,
+    selectLevel,
+    takeResume,
+  };
+};
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Seed data for the offline mock backend
+ * Builds the initial users, videos, ratings and comments stored by mockBackend
+ * @module mocks/fixtures
+ */
+
+import type { User } from "../types/auth.types";
+import type { Comment, PexelsVideo } from "../types/pexels.types";
+
+/**
+ * User as stored by the mock backend (the password is kept in plain text on purpose:
+ * it only lives in the developer's own localStorage)
+ */
+export interface MockUser extends User {
+  password: string;
+  moviesLiked: string[];
+  preferences?: Record<string, unknown>; // Free-form, validated by the client
+}
+
+/**
+ * Rating as stored by the mock backend
+ */
+export interface MockRating {
+  videoId: string;
+  userId: string;
+  rating: number;
+  createdAt: string;
+}
+
+/**
+ * Comment as stored by the mock backend
+ */
+export interface MockComment extends Comment {
+  videoId: string;
+}
+
+/**
+ * Whole mock database persisted in localStorage
+ * @property {number} version - Bumped when the seed changes so old copies are replaced
+ */
+export interface MockDatabase {
+  version: number;
+  users: MockUser[];
+  videos: PexelsVideo[];
+  ratings: MockRating[];
+  comments: MockComment[];
+}
+
+/**
+ * Version of the seed below
+ * @constant {number}
+ */
+export const FIXTURES_VERSION = 2;
+
+/**
+ * Account available out of the box in mock mode
+ * @constant {Object}
+ */
+export const DEMO_CREDENTIALS = { email: "demo@example.com", password: "Demo1234!" };
+
+/**
+ * Local clips served from /public, reused by every mock video
+ * @constant {string[]}
+ */
+const CLIPS = ["/videos/auth-video2.mp4", "/videos/auth-video3.mp4"];
+
+/**
+ * HLS manifest built from auth-video3.mp4 by `npm run hls:sample` and served by
+ * the dev server; when it hasn't been generated the player falls back to the MP4 files
+ * @constant {string}
+ */
+const HLS_SAMPLE = "/hls/sample/master.m3u8";
+
+/**
+ * Compact description of the seeded videos: [slug, author, duration (s), orientation]
+ * Slugs start with the category so the mock search can match them
+ * @constant {Array<[string, string, number, "landscape" | "portrait"]>}
+ */
+const VIDEO_SEED: Array<[string, string, number, "landscape" | "portrait"]> = [
+  ["entertainment-street-magician", "Jane Doe", 24, "landscape"],
+  ["entertainment-concert-crowd", "Carlos Ruiz", 41, "landscape"],
+  ["entertainment-circus-lights", "Ana Gómez", 18, "portrait"],
+  ["entertainment-cinema-popcorn", "Jane Doe", 12, "landscape"],
+  ["travel-mountain-road", "Liam Carter", 35, "landscape"],
+  ["travel-ocean-waves", "Jane Doe", 27, "landscape"],
+  ["travel-city-night", "Mei Tanaka", 52, "portrait"],
+  ["travel-desert-dunes", "Carlos Ruiz", 19, "landscape"],
+  ["music-guitar-closeup", "Ana Gómez", 22, "landscape"],
+  ["music-dj-set", "Liam Carter", 63, "landscape"],
+  ["music-piano-hands", "Mei Tanaka", 15, "portrait"],
+  ["music-vinyl-spin", "Jane Doe", 9, "landscape"],
+  ["fashion-runway-walk", "Sofía Pérez", 31, "portrait"],
+  ["fashion-street-style", "Ana Gómez", 17, "landscape"],
+  ["fashion-fabric-detail", "Sofía Pérez", 11, "landscape"],
+  ["games-arcade-machine", "Liam Carter", 26, "landscape"],
+  ["games-controller-play", "Mei Tanaka", 44, "landscape"],
+  ["games-chess-board", "Carlos Ruiz", 38, "portrait"],
+  ["technology-circuit-board", "Mei Tanaka", 20, "landscape"],
+  ["technology-coding-screen", "Jane Doe", 29, "landscape"],
+  ["technology-drone-flight", "Liam Carter", 47, "landscape"],
+  ["sports-soccer-goal", "Carlos Ruiz", 14, "landscape"],
+  ["sports-surf-ride", "Sofía Pérez", 33, "portrait"],
+  ["sports-running-track", "Ana Gómez", 21, "landscape"],
+];
+
+/**
+ * Thumbnail colors, picked by position
+ * @constant {string[]}
+ */
+const COLORS = ["#1e3a8a", "#065f46", "#7c2d12", "#581c87", "#0f766e", "#9f1239"];
+
+/**
+ * Builds an SVG thumbnail as a data URI so the mock works without network
+ *
+ * @param {string} label - Text drawn on the thumbnail
+ * @param {string} color - Background color
+ * @param {boolean} portrait - Whether to use a vertical canvas
+ * @returns {string} data:image/svg+xml URI
+ */
+const thumbnail = (label: string, color: string, portrait: boolean): string => {
+  const [width, height] = portrait ? [360, 640] : [640, 360];
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="${color}"/>` +
+    `<text x="50%" y="50%" fill="#ffffff" font-family="sans-serif" font-size="28" text-anchor="middle">${label}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * Turns a slug into a readable title ("travel-ocean-waves" -> "Ocean waves")
+ *
+ * @param {string} slug - Video slug
+ * @returns {string} Title without the category prefix
+ */
+const titleFromSlug = (slug: string): string => {
+  const words = slug.split("-").slice(1).join(" ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Builds a fresh copy of the seed database
+ *
+ * @param {number} [now] - Reference time used for the creation dates
+ * @returns {MockDatabase} Seeded database
+ */
+export const createSeedDatabase = (now: number = Date.now()): MockDatabase => {
+  const day = 24 * 60 * 60 * 1000;
+
+  const users: MockUser[] = [
+    {
+      id: "mock-user-1",
+      name: "Usuario Demo",
+      email: DEMO_CREDENTIALS.email,
+      password: DEMO_CREDENTIALS.password,
+      age: 25,
+      moviesLiked: ["mock-video-2", "mock-video-6"],
+    },
+    {
+      id: "mock-user-2",
+      name: "María López",
+      email: "maria@example.com",
+      password: "Maria1234!",
+      age: 31,
+      moviesLiked: ["mock-video-6", "mock-video-10"],
+    },
+  ];
+
+  const videos: PexelsVideo[] = VIDEO_SEED.map(([slug, author, duration, orientation], index) => {
+    const id = `mock-video-${index + 1}`;
+    const pexelsId = 100000 + index;
+    const portrait = orientation === "portrait";
+    const [width, height] = portrait ? [1080, 1920] : [1920, 1080];
+    const [sdWidth, sdHeight] = portrait ? [540, 960] : [960, 540];
+    const createdAt = new Date(now - index * 3 * day).toISOString();
+
+    return {
+      _id: id,
+      pexelsId,
+      width,
+      height,
+      url: `https://www.pexels.com/video/${slug}-${pexelsId}/`,
+      image: thumbnail(titleFromSlug(slug), COLORS[index % COLORS.length], portrait),
+      duration,
+      user: {
+        _id: `mock-author-${author.toLowerCase().replace(/\s+/g, "-")}`,
+        name: author,
+        url: `https://www.pexels.com/@${author.toLowerCase().replace(/\s+/g, "-")}`,
+      },
+      video_files: [
+        {
+          _id: `${id}-hd`,
+          quality: "hd",
+          file_type: "video/mp4",
+          width,
+          height,
+          fps: 29.97,
+          link: CLIPS[index % CLIPS.length],
+        },
+        {
+          _id: `${id}-sd`,
+          quality: "sd",
+          file_type: "video/mp4",
+          width: sdWidth,
+          height: sdHeight,
+          fps: 25,
+          link: CLIPS[(index + 1) % CLIPS.length],
+        },
+        // The first video also streams the local HLS sample (npm run hls:sample)
+        ...(index === 0
+          ? [
+              {
+                _id: `${id}-hls`,
+                quality: "hls" as const,
+                file_type: "application/x-mpegURL",
+                width,
+                height,
+                fps: 24,
+                link: HLS_SAMPLE,
+              },
+            ]
+          : []),
+      ],
+      video_pictures: [{ _id: `${id}-picture`, picture: thumbnail("", COLORS[index % COLORS.length], portrait), nr: 0 }],
+      likesCount: users.filter((user) => user.moviesLiked.includes(id)).length,
+      averageRating: 0,
+      totalRatings: 0,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+
+  const ratings: MockRating[] = [
+    { videoId: "mock-video-2", userId: "mock-user-1", rating: 5, createdAt: new Date(now - 2 * day).toISOString() },
+    { videoId: "mock-video-2", userId: "mock-user-2", rating: 4, createdAt: new Date(now - day).toISOString() },
+    { videoId: "mock-video-6", userId: "mock-user-2", rating: 3, createdAt: new Date(now - 4 * day).toISOString() },
+  ];
+
+  const comments: MockComment[] = [
+    {
+      _id: "mock-comment-1",
+      videoId: "mock-video-2",
+      userId: "mock-user-2",
+      userName: "María López",
+      text: "¡Qué buena energía tiene este video!",
+      createdAt: new Date(now - day).toISOString(),
+    },
+    {
+      _id: "mock-comment-2",
+      videoId: "mock-video-2",
+      userId: "mock-user-1",
+      userName: "Usuario Demo",
+      text: "Lo guardé en favoritos.",
+      createdAt: new Date(now - 2 * day).toISOString(),
+    },
+  ];
+
+  return { version: FIXTURES_VERSION, users, videos, ratings, comments };
+};
@@ -0,0 +1,562 @@
+/**
+ * @fileoverview In-browser implementation of the backend API
+ * Used by httpClient instead of fetch when VITE_MOCK_BACKEND is "true".
+ * Data starts from the fixtures and every change is persisted in localStorage,
+ * so likes, ratings, comments and accounts survive reloads
+ * @module mocks/mockBackend
+ */
+
+import type { User } from "../types/auth.types";
+import type { Comment, PexelsVideo } from "../types/pexels.types";
+import {
+  createSeedDatabase,
+  FIXTURES_VERSION,
+  type MockComment,
+  type MockDatabase,
+  type MockUser,
+} from "./fixtures";
+import { matchesSearchFilters, parseSearchFilters } from "../utils/searchFilters";
+
+/**
+ * localStorage key holding the mock database
+ * @constant {string}
+ */
+const STORAGE_KEY = "mock-backend-db";
+
+/**
+ * Prefixes of the fake tokens handed out by the mock
+ * @constant {string}
+ */
+const TOKEN_PREFIX = "mock-token.";
+const RESET_TOKEN_PREFIX = "mock-reset.";
+
+/**
+ * Simulated network latency range (ms)
+ * @constant {number}
+ */
+const MIN_LATENCY = 150;
+const MAX_LATENCY = 450;
+
+/**
+ * Request as seen by a route handler
+ */
+interface MockRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  /** User owning the Bearer token, null if missing or invalid */
+  user: MockUser | null;
+}
+
+/**
+ * Result of a route handler: status and JSON body
+ */
+interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+type MockHandler = (db: MockDatabase, request: MockRequest) => MockResult;
+
+/**
+ * Persists the database in localStorage
+ *
+ * @param {MockDatabase} db - Database to save
+ */
+const saveDatabase = (db: MockDatabase) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+/**
+ * Loads the database from localStorage, seeding it on first use or when the fixtures changed
+ *
+ * @returns {MockDatabase} Current database
+ */
+const loadDatabase = (): MockDatabase => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const db = JSON.parse(stored) as MockDatabase;
+      if (db.version === FIXTURES_VERSION) return db;
+    }
+  } catch (error) {
+    console.warn("Mock backend: stored data is invalid, reseeding", error);
+  }
+
+  const db = createSeedDatabase();
+  saveDatabase(db);
+  return db;
+};
+
+const ok = (body: unknown, status: number = 200): MockResult => ({ status, body });
+const fail = (status: number, message: string): MockResult => ({ status, body: { message } });
+
+/**
+ * Removes the password before sending a user to the client
+ *
+ * @param {MockUser} user - Stored user
+ * @returns {User} Public user data
+ */
+const toPublicUser = ({ id, name, email, age, moviesLiked }: MockUser): User => ({
+  id,
+  name,
+  email,
+  age,
+  moviesLiked: [...moviesLiked],
+});
+
+/**
+ * Removes the internal video reference before sending a comment to the client
+ *
+ * @param {MockComment} comment - Stored comment
+ * @returns {Comment} Comment as returned by the API
+ */
+const toPublicComment = ({ _id, userId, userName, text, createdAt, updatedAt }: MockComment): Comment => ({
+  _id,
+  userId,
+  userName,
+  text,
+  createdAt,
+  ...(updatedAt && { updatedAt }),
+});
+
+/**
+ * Computes the rating summary of a video
+ *
+ * @param {MockDatabase} db - Database
+ * @param {string} videoId - Video ID
+ * @returns {{averageRating: number, totalRatings: number}} Rating summary
+ */
+const getRatingSummary = (db: MockDatabase, videoId: string) => {
+  const ratings = db.ratings.filter((rating) => rating.videoId === videoId);
+  const total = ratings.reduce((sum, rating) => sum + rating.rating, 0);
+  return {
+    averageRating: ratings.length ? Math.round((total / ratings.length) * 10) / 10 : 0,
+    totalRatings: ratings.length,
+  };
+};
+
+/**
+ * Adds the live rating summary to a stored video
+ *
+ * @param {MockDatabase} db - Database
+ * @param {PexelsVideo} video - Stored video
+ * @returns {PexelsVideo} Video as returned by the API
+ */
+const withStats = (db: MockDatabase, video: PexelsVideo): PexelsVideo => ({
+  ...video,
+  ...getRatingSummary(db, video._id),
+});
+
+/**
+ * Wraps a handler so it answers 401 without a valid token
+ *
+ * @param {Function} handler - Handler that needs the current user
+ * @returns {MockHandler} Protected handler
+ */
+const authenticated =
+  (handler: (db: MockDatabase, request: MockRequest, user: MockUser) => MockResult): MockHandler =>
+  (db, request) =>
+    request.user ? handler(db, request, request.user) : fail(401, "Token inválido o expirado");
+
+/**
+ * Wraps a handler so it answers 404 when the video in the first route param doesn't exist
+ *
+ * @param {Function} handler - Handler receiving the video
+ * @returns {MockHandler} Handler with the video lookup
+ */
+const withVideo =
+  (handler: (db: MockDatabase, request: MockRequest, video: PexelsVideo) => MockResult): MockHandler =>
+  (db, request) => {
+    const video = db.videos.find((item) => item._id === request.params[0]);
+    return video ? handler(db, request, video) : fail(404, "Video no encontrado");
+  };
+
+/**
+ * Returns a page of videos in the shape the backend uses for lists
+ *
+ * @param {MockDatabase} db - Database
+ * @param {PexelsVideo[]} matches - Matching videos, already sorted
+ * @param {URLSearchParams} query - Request query (page, limit / per_page and advanced filters)
+ * @returns {MockResult} Paginated list
+ */
+const paginate = (db: MockDatabase, matches: PexelsVideo[], query: URLSearchParams): MockResult => {
+  // Advanced filters use the same parameter names as the page URL
+  const filters = parseSearchFilters(query);
+  const videos = matches.filter((video) => matchesSearchFilters(video, filters));
+  const perPage = Number(query.get("limit") ?? query.get("per_page")) || 15;
+  const page = Math.max(1, Number(query.get("page")) || 1);
+  const slice = videos.slice((page - 1) * perPage, page * perPage);
+  return ok({
+    page,
+    per_page: perPage,
+    total_results: videos.length,
+    url: "",
+    videos: slice.map((video) => withStats(db, video)),
+  });
+};
+
+/**
+ * Checks that a comment text is valid
+ *
+ * @param {unknown} text - Raw text from the body
+ * @returns {string | null} Trimmed text or null if empty
+ */
+const readCommentText = (text: unknown): string | null =>
+  typeof text === "string" && text.trim() ? text.trim() : null;
+
+/**
+ * Route table: method, path pattern (matched against the end of the URL path) and handler
+ * More specific patterns go first
+ */
+const routes: Array<[string, RegExp, MockHandler]> = [
+  // Auth
+  [
+    "POST",
+    /\/auth\/login$/,
+    (db, { body }) => {
+      const user = db.users.find((item) => item.email === body.email && item.password === body.password);
+      if (!user) return fail(401, "Correo o contraseña incorrectos");
+      return ok({ user: toPublicUser(user), token: `${TOKEN_PREFIX}${user.id}` });
+    },
+  ],
+  [
+    "POST",
+    /\/auth\/register$/,
+    (db, { body }) => {
+      const { name, email, password, age } = body;
+      if (typeof name !== "string" || typeof email !== "string" || typeof password !== "string") {
+        return fail(400, "Datos de registro incompletos");
+      }
+      if (db.users.some((item) => item.email === email)) {
+        return fail(409, "El correo ya está registrado");
+      }
+      const user: MockUser = {
+        id: `mock-user-${Date.now()}`,
+        name,
+        email,
+        password,
+        age: Number(age) || 0,
+        moviesLiked: [],
+      };
+      db.users.push(user);
+      return ok({ user: toPublicUser(user), token: `${TOKEN_PREFIX}${user.id}` }, 201);
+    },
+  ],
+  ["GET", /\/auth\/verify$/, authenticated((_db, _request, user) => ok(toPublicUser(user)))],
+  ["POST", /\/auth\/logout$/, () => ok({ message: "Sesión cerrada" })],
+  [
+    "POST",
+    /\/auth\/forgot-password$/,
+    (db, { body }) => {
+      const user = db.users.find((item) => item.email === body.email);
+      if (user) {
+        // There is no email in mock mode: the reset link is printed instead
+        console.info(`Mock backend: reset link /reset-password/${RESET_TOKEN_PREFIX}${user.id}`);
+      }
+      return ok({ message: "Si el correo existe, recibirás un enlace para restablecer tu contraseña" });
+    },
+  ],
+  [
+    "POST",
+    /\/auth\/reset-password$/,
+    (db, { body }) => {
+      const token = typeof body.token === "string" ? body.token : "";
+      const user = db.users.find((item) => `${RESET_TOKEN_PREFIX}${item.id}` === token);
+      if (!user || typeof body.newPassword !== "string") return fail(400, "El enlace no es válido o expiró");
+      user.password = body.newPassword;
+      return ok({ message: "Contraseña actualizada" });
+    },
+  ],
+  [
+    "POST",
+    /\/auth\/change-password$/,
+    authenticated((_db, { body }, user) => {
+      if (body.currentPassword !== user.password) return fail(400, "La contraseña actual es incorrecta");
+      if (typeof body.newPassword !== "string") return fail(400, "La nueva contraseña es obligatoria");
+      user.password = body.newPassword;
+      return ok({ message: "Contraseña actualizada" });
+    }),
+  ],
+
+  // Users
+  [
+    "GET",
+    /\/users\/([^/]+)\/preferences$/,
+    authenticated((_db, { params }, user) => {
+      if (params[0] !== user.id) return fail(403, "No puedes ver las preferencias de otro usuario");
+      return ok({ preferences: { homeLayout: null, ...user.preferences } });
+    }),
+  ],
+  [
+    "PUT",
+    /\/users\/([^/]+)\/preferences$/,
+    authenticated((_db, { params, body }, user) => {
+      if (params[0] !== user.id) return fail(403, "No puedes editar las preferencias de otro usuario");
+      user.preferences = { ...user.preferences, ...body };
+      return ok({ preferences: { homeLayout: null, ...user.preferences } });
+    }),
+  ],
+  [
+    "PUT",
+    /\/users\/([^/]+)$/,
+    authenticated((db, { params, body }, user) => {
+      if (params[0] !== user.id) return fail(403, "No puedes editar otro usuario");
+      if (typeof body.email === "string" && db.users.some((item) => item.email === body.email && item.id !== user.id)) {
+        return fail(409, "El correo ya está registrado");
+      }
+      if (typeof body.name === "string") user.name = body.name;
+      if (typeof body.email === "string") user.email = body.email;
+      if (body.age !== undefined) user.age = Number(body.age) || user.age;
+      return ok(toPublicUser(user));
+    }),
+  ],
+  [
+    "DELETE",
+    /\/users\/([^/]+)$/,
+    authenticated((db, { params }, user) => {
+      if (params[0] !== user.id) return fail(403, "No puedes eliminar otro usuario");
+      db.users = db.users.filter((item) => item.id !== user.id);
+      db.ratings = db.ratings.filter((rating) => rating.userId !== user.id);
+      db.comments = db.comments.filter((comment) => comment.userId !== user.id);
+      for (const video of db.videos) {
+        if (user.moviesLiked.includes(video._id)) video.likesCount = Math.max(0, (video.likesCount ?? 1) - 1);
+      }
+      return ok(toPublicUser(user));
+    }),
+  ],
+
+  // Video lists
+  [
+    "GET",
+    /\/videos\/popular$/,
+    (db, { query }) =>
+      paginate(
+        db,
+        [...db.videos].sort((a, b) => (b.likesCount ?? 0) - (a.likesCount ?? 0)),
+        query
+      ),
+  ],
+  [
+    "GET",
+    /\/videos\/search$/,
+    (db, { query }) => {
+      const term = (query.get("query") ?? query.get("q") ?? "").trim().toLowerCase();
+      const matches = db.videos.filter(
+        (video) => !term || video.url.toLowerCase().includes(term) || video.user.name.toLowerCase().includes(term)
+      );
+      return paginate(db, matches, query);
+    },
+  ],
+
+  // Ratings
+  [
+    "GET",
+    /\/videos\/([^/]+)\/rating\/stats$/,
+    withVideo((db, _request, video) => ok({
+      ...getRatingSummary(db, video._id),
+      ratings: db.ratings
+        .filter((rating) => rating.videoId === video._id)
+        .map(({ userId, rating, createdAt }) => ({ userId, rating, createdAt })),
+    })),
+  ],
+  [
+    "GET",
+    /\/videos\/([^/]+)\/rating\/user$/,
+    authenticated((db, { params }, user) => {
+      const rating = db.ratings.find((item) => item.videoId === params[0] && item.userId === user.id);
+      return rating ? ok({ rating: rating.rating }) : fail(404, "Aún no has calificado este video");
+    }),
+  ],
+  ["GET", /\/videos\/([^/]+)\/rating$/, withVideo((db, _request, video) => ok(getRatingSummary(db, video._id)))],
+  [
+    "POST",
+    /\/videos\/([^/]+)\/rating$/,
+    authenticated((db, request, user) =>
+      withVideo((_db, { body }, video) => {
+        const value = Number(body.rating);
+        if (!Number.isInteger(value) || value < 1 || value > 5) return fail(400, "La calificación debe estar entre 1 y 5");
+
+        const existing = db.ratings.find((item) => item.videoId === video._id && item.userId === user.id);
+        if (existing) {
+          existing.rating = value;
+          existing.createdAt = new Date().toISOString();
+        } else {
+          db.ratings.push({ videoId: video._id, userId: user.id, rating: value, createdAt: new Date().toISOString() });
+        }
+        return ok({ message: "Calificación guardada", ...getRatingSummary(db, video._id) });
+      })(db, request)
+    ),
+  ],
+  [
+    "DELETE",
+    /\/videos\/([^/]+)\/rating$/,
+    authenticated((db, { params }, user) => {
+      const before = db.ratings.length;
+      db.ratings = db.ratings.filter((item) => !(item.videoId === params[0] && item.userId === user.id));
+      if (db.ratings.length === before) return fail(404, "No has calificado este video");
+      return ok({ message: "Calificación eliminada", ...getRatingSummary(db, params[0]) });
+    }),
+  ],
+
+  // Likes
+  [
+    "POST",
+    /\/videos\/([^/]+)\/like$/,
+    authenticated((db, request, user) =>
+      withVideo((_db, _request, video) => {
+        const liked = !user.moviesLiked.includes(video._id);
+        user.moviesLiked = liked
+          ? [...user.moviesLiked, video._id]
+          : user.moviesLiked.filter((id) => id !== video._id);
+        video.likesCount = Math.max(0, (video.likesCount ?? 0) + (liked ? 1 : -1));
+        return ok({ message: liked ? "Like agregado" : "Like eliminado", likesCount: video.likesCount, liked });
+      })(db, request)
+    ),
+  ],
+
+  // Comments
+  [
+    "GET",
+    /\/videos\/([^/]+)\/comments$/,
+    withVideo((db, _request, video) => ok({
+      comments: db.comments
+        .filter((comment) => comment.videoId === video._id)
+        .map(toPublicComment),
+    })),
+  ],
+  [
+    "POST",
+    /\/videos\/([^/]+)\/comments$/,
+    authenticated((db, request, user) =>
+      withVideo((_db, { body }, video) => {
+        const text = readCommentText(body.text);
+        if (!text) return fail(400, "El comentario no puede estar vacío");
+
+        const comment: MockComment = {
+          _id: `mock-comment-${Date.now()}`,
+          videoId: video._id,
+          userId: user.id,
+          userName: user.name,
+          text,
+          createdAt: new Date().toISOString(),
+        };
+        db.comments.push(comment);
+        return ok({ comment: toPublicComment(comment) }, 201);
+      })(db, request)
+    ),
+  ],
+  [
+    "PUT",
+    /\/videos\/([^/]+)\/comments\/([^/]+)$/,
+    authenticated((db, { params, body }, user) => {
+      const comment = db.comments.find((item) => item.videoId === params[0] && item._id === params[1]);
+      if (!comment) return fail(404, "Comentario no encontrado");
+      if (comment.userId !== user.id) return fail(403, "Solo puedes editar tus comentarios");
+
+      const text = readCommentText(body.text);
+      if (!text) return fail(400, "El comentario no puede estar vacío");
+      comment.text = text;
+      comment.updatedAt = new Date().toISOString();
+      return ok({ comment: toPublicComment(comment) });
+    }),
+  ],
+  [
+    "DELETE",
+    /\/videos\/([^/]+)\/comments\/([^/]+)$/,
+    authenticated((db, { params }, user) => {
+      const comment = db.comments.find((item) => item.videoId === params[0] && item._id === params[1]);
+      if (!comment) return fail(404, "Comentario no encontrado");
+      if (comment.userId !== user.id) return fail(403, "Solo puedes eliminar tus comentarios");
+      db.comments = db.comments.filter((item) => item !== comment);
+      return ok({ message: "Comentario eliminado" });
+    }),
+  ],
+
+  // Single video (last: it would match the more specific paths above)
+  ["GET", /\/videos\/([^/]+)$/, withVideo((db, _request, video) => ok({ video: withStats(db, video) }))],
+];
+
+/**
+ * Waits a random latency so loading states are visible, unless the request is aborted
+ *
+ * @param {AbortSignal | null} [signal] - Request signal
+ * @returns {Promise<void>} Resolves after the latency
+ */
+const simulateLatency = (signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY));
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Builds a fetch Response from a handler result
+ *
+ * @param {MockResult} result - Status and body
+ * @returns {Response} JSON response
+ */
+const jsonResponse = ({ status, body }: MockResult): Response =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+/**
+ * Drop-in replacement for fetch that answers from the mock database
+ *
+ * @async
+ * @param {string} url - Full request URL (only the path and query are used)
+ * @param {RequestInit} [init] - Method, headers, body and signal
+ * @returns {Promise<Response>} JSON response
+ * @example
+ * const response = await mockFetch("/api/videos/popular?limit=12");
+ */
+export const mockFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  await simulateLatency(init.signal);
+
+  const method = (init.method ?? "GET").toUpperCase();
+  const { pathname, searchParams } = new URL(url, window.location.origin);
+  const path = pathname.replace(/\/+$/, "");
+
+  const db = loadDatabase();
+  const headers = new Headers(init.headers);
+  const token = headers.get("Authorization")?.replace(/^Bearer\s+/, "") ?? "";
+  const user = token.startsWith(TOKEN_PREFIX)
+    ? db.users.find((item) => item.id === token.slice(TOKEN_PREFIX.length)) ?? null
+    : null;
+
+  let body: Record<string, unknown> = {};
+  if (typeof init.body === "string" && init.body) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return jsonResponse(fail(400, "JSON inválido"));
+    }
+  }
+
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) continue;
+    const match = path.match(pattern);
+    if (!match) continue;
+
+    const result = handler(db, { params: match.slice(1).map(decodeURIComponent), query: searchParams, body, user });
+    if (method !== "GET" && result.status < 400) saveDatabase(db);
+    return jsonResponse(result);
+  }
+
+  return jsonResponse(fail(404, `Mock backend: no route for ${method} ${path}`));
+};
+
+/**
+ * Restores the seed data, dropping every change made in mock mode
+ * @example
+ * resetMockBackend();
+ */
+export const resetMockBackend = (): void => {
+  saveDatabase(createSeedDatabase());
+};
@@ -93,7 +93,7 @@ const ForgotPassword: React.FC = () => {
 
   return (
     <div className="login w-full h-screen flex relative">
-      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-white bg-darkblue/95 md:bg-darkblue gap-5 p-6 md:p-10 relative z-10">
+      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-foreground bg-surface/95 md:bg-surface gap-5 p-6 md:p-10 relative z-10">
         <div></div>
         <div className="flex flex-col justify-center items-center gap-3 md:gap-5">
           <h2 className="text-3xl font-semibold text-center">
@@ -105,14 +105,14 @@ const ForgotPassword: React.FC = () => {
 
           {/* Mostrar mensaje de éxito */}
           {success && (
-            <div className="w-full bg-green-500/20 border border-green-500 text-green-200 px-4 py-2 rounded text-sm">
+            <div className="w-full bg-green-500/20 border border-green-500 text-green px-4 py-2 rounded text-sm">
               ¡Correo enviado! Revisa tu bandeja de entrada.
             </div>
           )}
 
           {/* Mostrar error */}
           {error && (
-            <div className="w-full bg-red-500/20 border border-red-500 text-red-200 px-4 py-2 rounded text-sm">
+            <div className="w-full bg-red-500/20 border border-red-500 text-red px-4 py-2 rounded text-sm">
               {error}
             </div>
           )}
@@ -0,0 +1,253 @@
+/**
+ * Watch history page
+ * Lists the videos the user has watched, grouped by day
+ *
+ * @module HistoryPage
+ */
+
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import Modal from "../components/Modal";
+import WatchProgressBar from "../components/WatchProgressBar";
+import useUserStore from "../stores/useUserStore";
+import useWatchHistoryStore from "../stores/useWatchHistoryStore";
+import type { WatchHistoryEntry } from "../types/history.types";
+import { getEntryTitle, groupHistoryByDay, matchesHistoryQuery } from "../utils/watchHistory";
+import { getWatchedPercent } from "../utils/watchProgress";
+
+/**
+ * URL param holding the text of the history search box
+ * @constant {string}
+ */
+const HISTORY_QUERY_PARAM = "q";
+
+/**
+ * Formats the time of day a video was watched
+ *
+ * @param {string} watchedAt - ISO date
+ * @returns {string} e.g. "14:32"
+ */
+const formatWatchedTime = (watchedAt: string): string =>
+  new Date(watchedAt).toLocaleTimeString("es", { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * Watch history page component
+ *
+ * @component
+ * @returns {JSX.Element} History page
+ *
+ * @description
+ * Features:
+ * - Videos from useWatchHistoryStore, most recent first, grouped by day ("Hoy", "Ayer", date)
+ * - Watch progress bar on the thumbnail of partially watched videos
+ * - Search by title or author, kept in the URL (?q=...)
+ * - Remove a single video or clear the whole history (with confirmation)
+ * - Pause/resume recording: while paused, watched videos and positions are not saved
+ *
+ * @example
+ * ```tsx
+ * <ProtectedRoute>
+ *   <Layout>
+ *     <HistoryPage />
+ *   </Layout>
+ * </ProtectedRoute>
+ * ```
+ */
+const HistoryPage: React.FC = () => {
+  const userId = useUserStore((state) => state.user?.id) ?? "";
+  const history = useWatchHistoryStore((state) => state.byUser[userId]);
+  const isPaused = useWatchHistoryStore((state) => state.pausedByUser[userId] === true);
+  const { removeEntry, clearHistory, setPaused } = useWatchHistoryStore();
+  const [showClearModal, setShowClearModal] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get(HISTORY_QUERY_PARAM) ?? "";
+
+  const entries = useMemo(() => history ?? [], [history]);
+  const days = useMemo(
+    () => groupHistoryByDay(entries.filter((entry) => matchesHistoryQuery(entry, query))),
+    [entries, query]
+  );
+
+  /**
+   * Writes the search text to the URL without adding history entries
+   *
+   * @param {string} value - Typed text
+   */
+  const handleQueryChange = (value: string) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (value) next.set(HISTORY_QUERY_PARAM, value);
+        else next.delete(HISTORY_QUERY_PARAM);
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  /**
+   * Clears the history once the user confirms
+   */
+  const handleClear = () => {
+    clearHistory(userId);
+    setShowClearModal(false);
+  };
+
+  /**
+   * Renders a watched video with its progress and remove button
+   *
+   * @param {WatchHistoryEntry} entry - History entry
+   * @returns {JSX.Element} List item
+   */
+  const renderEntry = (entry: WatchHistoryEntry) => {
+    const title = getEntryTitle(entry);
+    const percent = getWatchedPercent(entry);
+    return (
+      <li key={entry.videoId} className="flex items-center gap-2 p-2 rounded-lg bg-foreground/5 hover:bg-foreground/10 transition">
+        <Link
+          to={`/video/${entry.videoId}`}
+          className="flex flex-1 min-w-0 items-center gap-4 rounded focus:outline-none focus:ring-2 focus:ring-lightblue"
+        >
+          <div className="relative shrink-0 w-32 sm:w-40 aspect-video">
+            <img src={entry.image} alt="" className="w-full h-full object-cover rounded-lg" />
+            {percent !== null && <WatchProgressBar percent={percent} className="absolute inset-x-2 bottom-1.5" />}
+          </div>
+          <div className="min-w-0 flex flex-col gap-1">
+            <p className="text-foreground font-semibold truncate">{title}</p>
+            <p className="text-foreground/70 text-sm truncate">{entry.author}</p>
+            <p className="text-foreground/50 text-xs">
+              {formatWatchedTime(entry.watchedAt)} · {entry.duration}s
+              {percent !== null && ` · Visto ${percent}%`}
+            </p>
+          </div>
+        </Link>
+        <button
+          type="button"
+          onClick={() => removeEntry(userId, entry.videoId)}
+          className="shrink-0 p-2 text-foreground/70 hover:text-foreground hover:bg-red/20 rounded transition focus:outline-none focus:ring-2 focus:ring-red cursor-pointer"
+          title="Quitar del historial"
+          aria-label={`Quitar "${title}" del historial`}
+        >
+          <svg
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            aria-hidden="true"
+          >
+            <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+            <path d="M18 6l-12 12" />
+            <path d="M6 6l12 12" />
+          </svg>
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="flex flex-col w-full min-h-screen mt-20 px-4 pb-8">
+      {/* Header */}
+      <div className="flex flex-col justify-center items-center my-8">
+        <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-2">Historial</h1>
+        <p className="text-foreground/70 text-lg">
+          {entries.length} {entries.length === 1 ? "video" : "videos"}
+        </p>
+      </div>
+
+      <div className="w-full max-w-4xl mx-auto flex flex-col gap-6">
+        {/* Controls */}
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+          <label htmlFor="history-search" className="sr-only">
+            Buscar en el historial
+          </label>
+          <input
+            id="history-search"
+            type="search"
+            value={query}
+            onChange={(e) => handleQueryChange(e.target.value)}
+            placeholder="Buscar en el historial..."
+            disabled={entries.length === 0}
+            className="flex-1 px-4 py-2 bg-foreground/5 border-2 border-blue text-foreground rounded-lg focus:outline-none focus:border-lightblue placeholder-foreground/50 disabled:opacity-50"
+          />
+          <button
+            type="button"
+            onClick={() => setPaused(userId, !isPaused)}
+            className="px-4 py-2 bg-blue text-white rounded-lg font-semibold hover:bg-lightblue transition focus:outline-none focus:ring-2 focus:ring-lightblue cursor-pointer"
+          >
+            {isPaused ? "Reanudar historial" : "Pausar historial"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowClearModal(true)}
+            disabled={entries.length === 0}
+            className="px-4 py-2 bg-red-dark hover:bg-red-medium text-white rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-red cursor-pointer"
+          >
+            Borrar historial
+          </button>
+        </div>
+
+        <div role="status">
+          {isPaused && (
+            <p className="px-4 py-3 rounded-lg bg-yellow/10 border border-yellow/40 text-foreground">
+              El historial está en pausa. Los videos que veas no se guardarán hasta que lo reanudes.
+            </p>
+          )}
+        </div>
+
+        {/* Videos grouped by day */}
+        {entries.length === 0 ? (
+          <div className="flex flex-col items-center py-16 text-center">
+            <h2 className="text-foreground text-3xl font-bold mb-2">Aún no has visto videos</h2>
+            <p className="text-foreground/70 text-lg max-w-md">
+              {isPaused
+                ? "Reanuda el historial para guardar los videos que veas"
+                : "Los videos que veas aparecerán aquí"}
+            </p>
+          </div>
+        ) : days.length === 0 ? (
+          <p className="py-16 text-center text-foreground/70 text-lg">Ningún video del historial coincide con «{query}»</p>
+        ) : (
+          days.map((day) => (
+            <section key={day.key} aria-labelledby={`history-day-${day.key}`}>
+              <h2 id={`history-day-${day.key}`} className="text-xl font-semibold text-lightblue mb-3 first-letter:uppercase">
+                {day.label}
+              </h2>
+              <ul className="flex flex-col gap-2">{day.entries.map(renderEntry)}</ul>
+            </section>
+          ))
+        )}
+      </div>
+
+      <Modal isOpen={showClearModal} onClose={() => setShowClearModal(false)}>
+        <div className="flex flex-col gap-4 w-full text-center">
+          <h3 className="text-2xl text-foreground font-semibold">¿Borrar todo el historial?</h3>
+          <p className="text-foreground/70">
+            Se quitarán todos los videos vistos y las posiciones guardadas. Esta acción no se puede deshacer.
+          </p>
+          <div className="flex gap-4 w-full">
+            <button
+              type="button"
+              onClick={() => setShowClearModal(false)}
+              className="flex-1 py-3 bg-foreground/10 text-foreground rounded font-semibold hover:bg-foreground/20 transition focus:outline-none focus:ring-2 focus:ring-lightblue cursor-pointer"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleClear}
+              className="flex-1 py-3 bg-red-dark hover:bg-red-medium text-white rounded font-semibold transition focus:outline-none focus:ring-2 focus:ring-red cursor-pointer"
+            >
+              Borrar historial
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default HistoryPage;
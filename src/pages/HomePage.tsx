@@ -5,23 +5,34 @@
  * @module HomePage
  */
 
+import { useCallback, useState } from "react";
 import { Link } from "react-router-dom";
 import VideosCarousel from "../components/VideosCarousel";
+import RecommendedCarousel from "../components/RecommendedCarousel";
+import HomeLayoutEditor from "../components/HomeLayoutEditor";
+import { useScrollRestoration } from "../hooks/useHistoryRestoration";
+import { useHomeLayout } from "../hooks/useHomeLayout";
+import { getHomeCarouselSource } from "../utils/homeLayout";
 
 /**
  * Main page component
- * Renders video carousels by category
+ * Renders the user's video carousels
  * 
  * @component
  * @returns {JSX.Element} Home page with video carousels
  * 
  * @description
  * Main features:
- * - 8 video categories: Popular, Entertainment, Travel, Music, Fashion, Games, Technology, Sports
- * - Each category has its own horizontal carousel
+ * - "Recomendados para ti": videos similar to the ones the user liked, rated or watched
+ * - By default one carousel per category of the shared registry (utils/categories):
+ *   Popular, Entertainment, Travel, Music, Fashion, Games, Technology, Sports
+ * - "Personalizar" lets the user reorder and hide carousels and add custom search
+ *   carousels; the layout is saved per user and synced with the profile preferences
+ * - Each carousel is a horizontal list
  * - Clicking on a video navigates to the video detail page
  * - Footer with links to About Us and Site Map
  * - Responsive design with adaptive padding and spacing
+ * - Vertical and carousel scroll offsets restored when coming back through history
  * 
  * @example
  * ```tsx
@@ -34,70 +45,90 @@ import VideosCarousel from "../components/VideosCarousel";
  * ```
  */
 const HomePage: React.FC = () => {
-
-  /**
-   * Video categories configuration
-   * @constant {Array<{title: string, category?: string, isPopular?: boolean}>}
-   */
-  const categories = [
-    { title: "Videos Populares", isPopular: true },
-    { title: "Entretenimiento", category: "entertainment" },
-    { title: "Viajes", category: "travel" },
-    { title: "Música", category: "music" },
-    { title: "Moda", category: "fashion" },
-    { title: "Videojuegos", category: "games" },
-    { title: "Tecnología", category: "technology" },
-    { title: "Deportes", category: "sports" },
-  ];
+  useScrollRestoration("home", true);
+  const { carousels, syncFailed, updateLayout, resetLayout } = useHomeLayout();
+  const [isEditing, setIsEditing] = useState(false);
+  // Stable reference: Modal re-runs its focus handling when onClose changes
+  const closeEditor = useCallback(() => setIsEditing(false), []);
+  const visibleCarousels = carousels.filter((carousel) => !carousel.hidden);
 
   return (
     <div className="flex flex-col w-full min-h-screen mt-20 px-4 overflow-hidden">
       {/* Header */}
       <div className="flex flex-col justify-center items-center my-8">
-        <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">
+        <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-2">
           Explora Videos
         </h1>
-        <p className="text-white/70 text-lg">
+        <p className="text-foreground/70 text-lg">
           Descubre contenido de todas las categorías
         </p>
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="mt-4 px-4 py-2 text-foreground border border-foreground/40 rounded-lg cursor-pointer hover:border-green hover:text-green transition focus:outline-none focus:ring-2 focus:ring-green"
+        >
+          Personalizar
+        </button>
+        {syncFailed && (
+          <p className="mt-2 text-sm text-yellow" role="status">
+            No se pudo sincronizar tu diseño; se guardó en este dispositivo
+          </p>
+        )}
       </div>
 
-      {/* Carruseles de Categorías */}
+      {/* Carruseles del usuario */}
       <div className="flex flex-col gap-12 mb-8">
-        {categories.map((cat, index) => (
-          <VideosCarousel
-            key={index}
-            title={cat.title}
-            category={cat.category}
-            isPopular={cat.isPopular}
-            perPage={12}
-          />
-        ))}
+        {visibleCarousels.map((carousel) => {
+          if (carousel.kind === "recommended") return <RecommendedCarousel key={carousel.id} limit={12} />;
+          const source = getHomeCarouselSource(carousel);
+          return (
+            <VideosCarousel
+              key={carousel.id}
+              title={source.title}
+              category={source.category}
+              isPopular={source.isPopular}
+              perPage={12}
+            />
+          );
+        })}
+        {visibleCarousels.length === 0 && (
+          <p className="text-center text-foreground/70">
+            Ocultaste todos los carruseles. Usa "Personalizar" para mostrar alguno.
+          </p>
+        )}
       </div>
 
+      <HomeLayoutEditor
+        isOpen={isEditing}
+        carousels={carousels}
+        onChange={updateLayout}
+        onReset={resetLayout}
+        onClose={closeEditor}
+      />
+
       {/* Footer */}
       <footer className="py-6">
         <div className="container mx-auto px-4">
           <div className="flex justify-center items-center gap-8 flex-wrap">
             <Link
               to="/about"
-              className="text-white hover:text-green transition-colors text-lg focus:outline-none focus:ring-2 focus:ring-lightblue rounded px-2 py-1"
+              className="text-foreground hover:text-green transition-colors text-lg focus:outline-none focus:ring-2 focus:ring-lightblue rounded px-2 py-1"
               aria-label="Ir a página Sobre Nosotros"
             >
               Sobre Nosotros
             </Link>
-            <span className="text-white/30">|</span>
+            <span className="text-foreground/30">|</span>
             <Link
               to="/sitemap"
-              className="text-white hover:text-green transition-colors text-lg focus:outline-none focus:ring-2 focus:ring-lightblue rounded px-2 py-1"
+              className="text-foreground hover:text-green transition-colors text-lg focus:outline-none focus:ring-2 focus:ring-lightblue rounded px-2 py-1"
               aria-label="Ir a Mapa del Sitio"
             >
               Mapa del Sitio
             </Link>
-            <span className="text-white/30">|</span>
+            <span className="text-foreground/30">|</span>
             <Link
               to="/user-manual"
-              className="text-white hover:text-green transition-colors text-lg focus:outline-none focus:ring-2 focus:ring-green rounded px-2 py-1 flex items-center gap-2"
+              className="text-foreground hover:text-green transition-colors text-lg focus:outline-none focus:ring-2 focus:ring-green rounded px-2 py-1 flex items-center gap-2"
               aria-label="Ir a Manual de Usuario"
             >
               Manual de Usuario
@@ -5,11 +5,17 @@
  * @module LikedPage
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import useUserStore from "../stores/useUserStore";
-import VideoCard from "../components/VideoCard";
+import VirtualVideoGrid from "../components/VirtualVideoGrid";
+import { useHistorySnapshot, useScrollRestoration } from "../hooks/useHistoryRestoration";
+import RequestError from "../components/RequestError";
+import SortSelect from "../components/SortSelect";
 import { pexelsService } from "../services/pexels.service";
-import type { PexelsVideo } from "../types/pexels.types";
+import { getApiErrorKind, type ApiErrorKind } from "../services/http.client";
+import type { PexelsVideo, VideoSortOption } from "../types/pexels.types";
+import { SORT_PARAM, parseSortOption, sortVideos, writeSortOption } from "../utils/videoSort";
 
 /**
  * Liked videos page component
@@ -22,8 +28,11 @@ import type { PexelsVideo } from "../types/pexels.types";
  * Features:
  * - Loads video IDs from user.moviesLiked
  * - Gets complete information for each video from backend
- * - Displays videos in responsive grid
+ * - Skips videos that no longer exist (404) instead of failing the whole list
+ * - Displays videos in a responsive virtualized grid
+ * - Sort control kept in the URL (?sort=...), same options as SearchPage
  * - Handles loading and error states
+ * - Coming back through history reuses the loaded videos and restores the scroll offset
  * - Shows message if no liked videos
  * 
  * @example
@@ -37,15 +46,33 @@ import type { PexelsVideo } from "../types/pexels.types";
  */
 const LikedPage: React.FC = () => {
   const { user } = useUserStore();
-  const [likedVideos, setLikedVideos] = useState<PexelsVideo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const likedKey = user?.moviesLiked?.join(",") ?? "";
+  const { restored: restoredSnapshot, save: saveSnapshot } = useHistorySnapshot<{
+    likedKey: string;
+    videos: PexelsVideo[];
+  }>("liked-list");
+  // Likes may have changed since the snapshot was taken
+  const restored = restoredSnapshot?.likedKey === likedKey ? restoredSnapshot : undefined;
+  const skipLoad = useRef(restored !== undefined);
+
+  const [likedVideos, setLikedVideos] = useState<PexelsVideo[]>(restored?.videos ?? []);
+  const [loading, setLoading] = useState(!restored);
+  const [error, setError] = useState<ApiErrorKind | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sort = parseSortOption(searchParams.get(SORT_PARAM));
+  const sortedVideos = useMemo(() => sortVideos(likedVideos, sort), [likedVideos, sort]);
 
   /**
    * Loads user's liked videos
    * Gets each video by its ID from backend
    */
   useEffect(() => {
+    if (skipLoad.current) {
+      skipLoad.current = false;
+      return;
+    }
+
     const loadLikedVideos = async () => {
       try {
         setLoading(true);
@@ -61,30 +88,51 @@ const LikedPage: React.FC = () => {
         console.log(`Loading ${user.moviesLiked.length} liked videos...`);
 
         // Load each video by its ID
-        const videoPromises = user.moviesLiked.map((videoId) =>
-          pexelsService.getVideoById(videoId)
+        const results = await Promise.allSettled(
+          user.moviesLiked.map((videoId) => pexelsService.getVideoById(videoId))
         );
 
-        const videos = await Promise.all(videoPromises);
+        // Videos removed from the backend are skipped, any other failure is reported
+        const failure = results.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === "rejected" && getApiErrorKind(result.reason) !== "not-found"
+        );
+        if (failure) throw failure.reason;
+
+        const videos = results
+          .filter((result): result is PromiseFulfilledResult<PexelsVideo> => result.status === "fulfilled")
+          .map((result) => result.value);
         setLikedVideos(videos);
+        saveSnapshot({ likedKey: user.moviesLiked.join(","), videos });
         
         console.log(`✓ ${videos.length} liked videos loaded successfully`);
       } catch (err) {
         console.error("Error loading liked videos:", err);
-        setError("Could not load videos");
+        setError(getApiErrorKind(err));
       } finally {
         setLoading(false);
       }
     };
 
     loadLikedVideos();
-  }, [user]);
+  }, [user, reloadKey, saveSnapshot]);
+
+  useScrollRestoration("liked", !loading && likedVideos.length > 0);
+
+  /**
+   * Changes the order by writing it to the URL
+   * 
+   * @param {VideoSortOption} next - New order ("relevance" keeps the order they were liked in)
+   */
+  const handleSortChange = (next: VideoSortOption) => {
+    setSearchParams((prev) => writeSortOption(prev, next), { replace: true });
+  };
 
   if (loading) {
     return (
       <div className="flex flex-col w-full min-h-screen mt-20 px-4 justify-center items-center">
         <div className="inline-block animate-spin rounded-full h-16 w-16 border-b-4 border-lightblue mb-4"></div>
-        <p className="text-white text-xl">Cargando videos...</p>
+        <p className="text-foreground text-xl">Cargando videos...</p>
       </div>
     );
   }
@@ -92,21 +140,7 @@ const LikedPage: React.FC = () => {
   if (error) {
     return (
       <div className="flex flex-col w-full min-h-screen mt-20 px-4 justify-center items-center">
-        <svg
-          className="mb-4"
-          width="64"
-          height="64"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-        >
-          <path stroke="none" d="M0 0h24v24H0z" fill="none" />
-          <path d="M12 9v4" />
-          <path d="M10.363 3.591l-8.106 13.534a1.914 1.914 0 0 0 1.636 2.871h16.214a1.914 1.914 0 0 0 1.636 -2.87l-8.106 -13.536a1.914 1.914 0 0 0 -3.274 0z" />
-          <path d="M12 16h.01" />
-        </svg>
-        <p className="text-red text-xl">{error}</p>
+        <RequestError kind={error} onRetry={() => setReloadKey((key) => key + 1)} />
       </div>
     );
   }
@@ -115,7 +149,7 @@ const LikedPage: React.FC = () => {
     return (
       <div className="flex flex-col w-full min-h-screen mt-20 px-4 justify-center items-center">
         <svg
-          className="mb-4 text-white/40"
+          className="mb-4 text-foreground/40"
           width="96"
           height="96"
           viewBox="0 0 24 24"
@@ -126,10 +160,10 @@ const LikedPage: React.FC = () => {
           <path stroke="none" d="M0 0h24v24H0z" fill="none" />
           <path d="M19.5 12.572l-7.5 7.428l-7.5 -7.428a5 5 0 1 1 7.5 -6.566a5 5 0 1 1 7.5 6.572" />
         </svg>
-        <h2 className="text-white text-3xl font-bold mb-2">
+        <h2 className="text-foreground text-3xl font-bold mb-2">
           Aún no tienes videos favoritos
         </h2>
-        <p className="text-white/70 text-lg text-center max-w-md">
+        <p className="text-foreground/70 text-lg text-center max-w-md">
           Explora videos y agrégalos a favoritos para verlos aquí
         </p>
       </div>
@@ -140,20 +174,20 @@ const LikedPage: React.FC = () => {
     <div className="flex flex-col w-full min-h-screen mt-20 px-4 pb-8">
       {/* Header */}
       <div className="flex flex-col justify-center items-center my-8">
-        <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">
+        <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-2">
           Mis Favoritos
         </h1>
-        <p className="text-white/70 text-lg">
+        <p className="text-foreground/70 text-lg">
           {likedVideos.length} {likedVideos.length === 1 ? "video" : "videos"}
         </p>
       </div>
 
-      {/* Grid de Videos */}
-      <div className="flex flex-wrap gap-6 justify-center">
-        {likedVideos.map((video) => (
-          <VideoCard key={video._id} video={video} />
-        ))}
+      <div className="w-full max-w-4xl mx-auto mb-6 flex justify-end">
+        <SortSelect value={sort} onChange={handleSortChange} relevanceLabel="Orden de favoritos" />
       </div>
+
+      {/* Grid de Videos */}
+      <VirtualVideoGrid videos={sortedVideos} />
     </div>
   );
 };
@@ -5,10 +5,15 @@
  * @module LoginPage
  */
 
-import { Link, useNavigate } from "react-router";
+import { Link, useLocation, useNavigate } from "react-router";
 import Input from "../components/Input";
-import { useState, useRef, type FormEvent } from "react";
+import { useState, useRef, useEffect, type FormEvent } from "react";
+import ServerWakeBanner from "../components/ServerWakeBanner";
 import useUserStore from "../stores/useUserStore";
+import useServerStatusStore from "../stores/useServerStatusStore";
+import { authService } from "../services/auth.service";
+import { DEMO_CREDENTIALS } from "../mocks/fixtures";
+import { getReturnPath } from "../utils/redirect";
 
 /**
  * Login page component
@@ -23,6 +28,10 @@ import useUserStore from "../stores/useUserStore";
  * - Form with email and password validation
  * - Rotating background video (4 videos)
  * - Error handling with visual messages
+ * - "Session expired" notice after a 401 from the backend
+ * - Wakes the backend on mount and shows its progress while it starts up
+ * - Shows the demo account when running with VITE_MOCK_BACKEND, with a button restoring the demo data
+ * - Returns to the route the user was on before being sent to login
  * - Loading state during authentication
  * - Links to registration and password recovery
  * - Responsive design (mobile and desktop)
@@ -52,10 +61,23 @@ const LoginPage: React.FC = () => {
   // Form states
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [isDemoDataReset, setIsDemoDataReset] = useState(false);
   
   // Zustand store
-  const { login, isLoading, error, clearError } = useUserStore();
+  const { login, isLoading, error, clearError, sessionExpired, clearSessionExpired } = useUserStore();
   const navigate = useNavigate();
+  const location = useLocation();
+  const isServerWaking = useServerStatusStore((state) => state.state === "waking");
+
+  /**
+   * Effect: Wakes the backend up as soon as the page opens
+   * Login is a POST and is never retried, so the server should be running before it is sent
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+    authService.wakeServer(controller.signal);
+    return () => controller.abort();
+  }, []);
 
   /**
    * Handles the video end event
@@ -66,9 +88,21 @@ const LoginPage: React.FC = () => {
     setCurrentVideoIndex(nextIndex);
   };
 
+  /**
+   * Restores the seed data of the offline mode, dropping accounts, likes,
+   * ratings and comments created while using it
+   *
+   * @async
+   */
+  const handleResetDemoData = async () => {
+    const { resetMockBackend } = await import("../mocks/mockBackend");
+    resetMockBackend();
+    setIsDemoDataReset(true);
+  };
+
   /**
    * Handles the login form submission
-   * Attempts to authenticate the user and redirects to /home if successful
+   * Attempts to authenticate the user and redirects to the previous route (or /home) if successful
    * 
    * @async
    * @param {FormEvent} e - Form event
@@ -79,8 +113,8 @@ const LoginPage: React.FC = () => {
 
     try {
       await login({ email, password });
-      // If login is successful, redirect to home
-      navigate("/home");
+      // If login is successful, go back to where the user was (or home)
+      navigate(getReturnPath(location.state), { replace: true });
     } catch (error) {
       // Error is already handled in the store
       console.error("Error en login:", error);
@@ -89,15 +123,54 @@ const LoginPage: React.FC = () => {
 
   return (
     <div className="login w-full h-screen flex relative">
-      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-white bg-darkblue/95 md:bg-darkblue gap-5 p-6 md:p-10 relative z-10">
+      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-foreground bg-surface/95 md:bg-surface gap-5 p-6 md:p-10 relative z-10">
         <div></div>
         <div className="flex flex-col justify-center items-center gap-3 md:gap-5">
           <h2 className="text-3xl font-semibold">Inicio de sesión</h2>
           <p className="text-base">Conéctate y vive la experiencia completa.</p>
           
+          {/* Aviso de sesión expirada */}
+          {sessionExpired && (
+            <div
+              className="w-full flex items-start justify-between gap-2 bg-yellow/20 border border-yellow text-foreground px-4 py-2 rounded"
+              role="status"
+            >
+              <p>Tu sesión expiró. Inicia sesión de nuevo para continuar donde estabas.</p>
+              <button
+                type="button"
+                onClick={clearSessionExpired}
+                className="text-foreground/70 hover:text-foreground transition cursor-pointer"
+                aria-label="Cerrar aviso"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+
+          {/* Credenciales de prueba en modo sin backend */}
+          {import.meta.env.VITE_MOCK_BACKEND === "true" && (
+            <div className="w-full flex flex-col items-start gap-1 text-sm text-foreground/70 bg-foreground/5 border border-foreground/20 px-4 py-2 rounded">
+              <p>
+                Modo sin conexión: usa <strong>{DEMO_CREDENTIALS.email}</strong> /{" "}
+                <strong>{DEMO_CREDENTIALS.password}</strong>
+              </p>
+              <button
+                type="button"
+                onClick={handleResetDemoData}
+                className="underline hover:text-foreground transition cursor-pointer"
+              >
+                Restablecer datos de demostración
+              </button>
+              {isDemoDataReset && <p role="status">Datos de demostración restablecidos.</p>}
+            </div>
+          )}
+
+          {/* Aviso mientras el servidor se inicia */}
+          <ServerWakeBanner />
+
           {/* Mostrar error si existe */}
           {error && (
-            <div className="w-full bg-red-500/20 border border-red-500 text-red-200 px-4 py-2 rounded">
+            <div className="w-full bg-red-500/20 border border-red-500 text-red px-4 py-2 rounded">
               {error}
             </div>
           )}
@@ -132,9 +205,13 @@ const LoginPage: React.FC = () => {
             <button
               type="submit"
               className="bg-blue-medium text-white py-3 rounded h-12 font-semibold mt-2 disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={isLoading}
+              disabled={isLoading || isServerWaking}
             >
-              {isLoading ? "Iniciando sesión..." : "Iniciar sesión"}
+              {isLoading
+                ? "Iniciando sesión..."
+                : isServerWaking
+                  ? "Esperando al servidor..."
+                  : "Iniciar sesión"}
             </button>
           </form>
         </div>
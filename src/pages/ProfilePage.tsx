@@ -12,6 +12,7 @@ import Input from "../components/Input";
 import useUserStore from "../stores/useUserStore";
 import { validatePassword } from "../utils/validators";
 import VideoCard from "../components/VideoCard";
+import SavedSearchesList from "../components/SavedSearchesList";
 import { pexelsService } from "../services/pexels.service";
 import type { PexelsVideo } from "../types/pexels.types";
 
@@ -26,6 +27,7 @@ import type { PexelsVideo } from "../types/pexels.types";
  * Main features:
  * - Profile information view (name, email, age)
  * - Recent "Likes" section (last 4 videos)
+ * - Saved searches section
  * - Profile edit modal
  * - Password change with validation
  * - Account deletion confirmation
@@ -234,26 +236,26 @@ const ProfilePage: React.FC = () => {
       <div className="w-full md:w-1/3 min-h-screen flex flex-col justify-center items-center gap-8">
         <div className="flex flex-col justify-center items-center gap-1">
           <div className="w-28 h-28 bg-[url('/images/user-image.jpg')] bg-cover bg-center rounded-full"></div>
-          <h2 className="text-2xl font-semibold mb-2 text-white text-center">
+          <h2 className="text-2xl font-semibold mb-2 text-foreground text-center">
             {user?.name || "Nombre de Usuario"}
           </h2>
         </div>
         <div className="w-full flex flex-col gap-3">
-          <div className="flex flex-col gap-0.5 bg-gray/50 p-3 text-white rounded-lg">
-            <h6 className="text-base font-semibold text-white">Nombre</h6>
-            <p className="text-base text-white/70">
+          <div className="flex flex-col gap-0.5 bg-gray/50 p-3 text-foreground rounded-lg">
+            <h6 className="text-base font-semibold text-foreground">Nombre</h6>
+            <p className="text-base text-foreground/70">
               {user?.name || "Nombre del usuario"}
             </p>
           </div>
-          <div className="flex flex-col gap-0.5 bg-gray/50 p-3 text-white rounded-lg">
-            <h6 className="text-base font-semibold text-white">Email</h6>
-            <p className="text-base text-white/70">
+          <div className="flex flex-col gap-0.5 bg-gray/50 p-3 text-foreground rounded-lg">
+            <h6 className="text-base font-semibold text-foreground">Email</h6>
+            <p className="text-base text-foreground/70">
               {user?.email || "Email del usuario"}
             </p>
           </div>
-          <div className="flex flex-col gap-0.5 bg-gray/50 p-3 text-white rounded-lg">
-            <h6 className="text-base font-semibold text-white">Edad</h6>
-            <p className="text-base text-white/70">
+          <div className="flex flex-col gap-0.5 bg-gray/50 p-3 text-foreground rounded-lg">
+            <h6 className="text-base font-semibold text-foreground">Edad</h6>
+            <p className="text-base text-foreground/70">
               {user?.age || "Edad del usuario"}
             </p>
           </div>
@@ -272,7 +274,7 @@ const ProfilePage: React.FC = () => {
             Cerrar sesion
           </button>
         </div>
-        <p className="text-white">
+        <p className="text-foreground">
           ¿Deseas eliminar tu cuenta?
           <button
             onClick={() => setShowDeleteModal(true)}
@@ -287,7 +289,7 @@ const ProfilePage: React.FC = () => {
         <div className="w-full max-w-4xl">
           {/* Header de Me Gusta Recientes */}
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-3xl font-bold text-white">Me Gusta Recientes</h2>
+            <h2 className="text-3xl font-bold text-foreground">Me Gusta Recientes</h2>
             {user?.moviesLiked && user.moviesLiked.length > 4 && (
               <button
                 onClick={() => navigate('/liked')}
@@ -307,7 +309,7 @@ const ProfilePage: React.FC = () => {
           ) : recentLikedVideos.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-16">
               <svg
-                className="mb-4 text-white/40"
+                className="mb-4 text-foreground/40"
                 width="64"
                 height="64"
                 viewBox="0 0 24 24"
@@ -318,7 +320,7 @@ const ProfilePage: React.FC = () => {
                 <path stroke="none" d="M0 0h24v24H0z" fill="none" />
                 <path d="M19.5 12.572l-7.5 7.428l-7.5 -7.428a5 5 0 1 1 7.5 -6.566a5 5 0 1 1 7.5 6.572" />
               </svg>
-              <p className="text-white/70 text-lg text-center">
+              <p className="text-foreground/70 text-lg text-center">
                 Aún no tienes videos con "Me Gusta"
               </p>
               <button
@@ -336,11 +338,15 @@ const ProfilePage: React.FC = () => {
               ))}
             </div>
           )}
+
+          <div className="mt-12 mb-8">
+            <SavedSearchesList />
+          </div>
         </div>
       </div>
       <Modal isOpen={showEditModal} onClose={() => setShowEditModal(false)}>
         <div className="flex flex-col gap-4 mb-6 w-full">
-          <h3 className="text-2xl text-white font-semibold text-center mb-4">
+          <h3 className="text-2xl text-foreground font-semibold text-center mb-4">
             Editar Perfil
           </h3>
           <Input
@@ -399,7 +405,7 @@ const ProfilePage: React.FC = () => {
             onClick={() => {
               setShowEditModal(false);
             }}
-            className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
+            className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-foreground cursor-pointer"
             aria-label="Cancelar edición de perfil"
           >
             Cancelar
@@ -420,7 +426,7 @@ const ProfilePage: React.FC = () => {
         }}
       >
         <div className="flex flex-col gap-4 mb-6 w-full">
-          <h3 className="text-2xl text-white font-semibold text-center mb-4">
+          <h3 className="text-2xl text-foreground font-semibold text-center mb-4">
             Cambiar Contraseña
           </h3>
           
@@ -446,7 +452,7 @@ const ProfilePage: React.FC = () => {
                 setPasswordData({ ...passwordData, newPassword: e.target.value })
               }
             />
-            <p className="text-xs text-white/70 mt-1">
+            <p className="text-xs text-foreground/70 mt-1">
               Mínimo 8 caracteres, una mayúscula, un número y un carácter especial
             </p>
           </div>
@@ -481,7 +487,7 @@ const ProfilePage: React.FC = () => {
                 confirmNewPassword: "",
               });
             }}
-            className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
+            className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-foreground cursor-pointer"
             aria-label="Cancelar cambio de contraseña"
           >
             Cancelar
@@ -517,7 +523,7 @@ const ProfilePage: React.FC = () => {
         <h3 className="text-2xl text-red font-semibold text-center mb-4">
           Eliminando Cuenta
         </h3>
-        <p className="text-white mb-4 text-sm">
+        <p className="text-foreground mb-4 text-sm">
           Esta acción eliminará permanentemente tu cuenta y todos tus datos. No
           podrás recuperar esta información.
         </p>
@@ -535,7 +541,7 @@ const ProfilePage: React.FC = () => {
           <div className="w-full h-fit flex flex-col gap-1">
             <label
               htmlFor="delete-confirm"
-              className="text-sm font-semibold text-white"
+              className="text-sm font-semibold text-foreground"
             >
               Escribe "ELIMINAR" para confirmar
             </label>
@@ -546,11 +552,11 @@ const ProfilePage: React.FC = () => {
               value={deleteConfirmText}
               onChange={(e) => setDeleteConfirmText(e.target.value)}
               required
-              className="border-2 text-white bg-transparent rounded-sm h-10 p-2 focus:outline-none focus:ring-2 focus:ring-red"
+              className="border-2 text-foreground bg-transparent rounded-sm h-10 p-2 focus:outline-none focus:ring-2 focus:ring-red"
               aria-label='Campo de confirmación para eliminar cuenta. Escribe ELIMINAR en mayúsculas'
             />
             {deleteConfirmText && deleteConfirmText !== "ELIMINAR" && (
-              <span className="text-xs text-red-400">
+              <span className="text-xs text-red">
                 Debe coincidir exactamente con "ELIMINAR"
               </span>
             )}
@@ -572,7 +578,7 @@ const ProfilePage: React.FC = () => {
               setDeletePassword("");
               setDeleteConfirmText("");
             }}
-            className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
+            className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-foreground cursor-pointer"
             aria-label="Cancelar eliminación de cuenta"
           >
             Cancelar
@@ -583,10 +589,10 @@ const ProfilePage: React.FC = () => {
       {/* Modal de Cerrar Sesión */}
       <Modal isOpen={showLogoutModal} onClose={() => setShowLogoutModal(false)}>
         <div className="flex flex-col items-center gap-4 w-full">
-          <h3 className="text-2xl text-white font-semibold text-center">
+          <h3 className="text-2xl text-foreground font-semibold text-center">
             Cerrar Sesión
           </h3>
-          <p className="text-white text-center text-base">
+          <p className="text-foreground text-center text-base">
             ¿Realmente deseas cerrar sesión?
           </p>
 
@@ -601,7 +607,7 @@ const ProfilePage: React.FC = () => {
             </button>
             <button
               onClick={() => setShowLogoutModal(false)}
-              className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
+              className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700 transition focus:outline-none focus:ring-2 focus:ring-foreground cursor-pointer"
               aria-label="Cancelar cierre de sesión"
             >
               Cancelar
@@ -124,7 +124,7 @@ const RegisterPage: React.FC = () => {
 
   return (
     <div className="login w-full min-h-screen flex relative">
-      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-white bg-darkblue/95 md:bg-darkblue gap-5 p-6 md:p-10 relative z-10">
+      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-foreground bg-surface/95 md:bg-surface gap-5 p-6 md:p-10 relative z-10">
         <div></div>
         <div className="flex flex-col justify-center items-center gap-3 md:gap-5">
           <h2 className="text-3xl font-semibold">Crear una cuenta</h2>
@@ -134,7 +134,7 @@ const RegisterPage: React.FC = () => {
 
           {/* Mostrar errores */}
           {(error || validationError) && (
-            <div className="w-full bg-red-500/20 border border-red-500 text-red-200 px-4 py-2 rounded text-sm">
+            <div className="w-full bg-red-500/20 border border-red-500 text-red px-4 py-2 rounded text-sm">
               {error || validationError}
             </div>
           )}
@@ -177,7 +177,7 @@ const RegisterPage: React.FC = () => {
                 onChange={(e) => setPassword(e.target.value)}
                 required
               />
-              <p className="text-xs text-white/60 mt-1">
+              <p className="text-xs text-foreground/60 mt-1">
                 Mínimo 8 caracteres, una mayúscula, un número y un carácter especial
               </p>
             </div>
@@ -130,7 +130,7 @@ const ResetPassword: React.FC = () => {
 
   return (
     <div className="login w-full min-h-screen flex relative">
-      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-white bg-darkblue/95 md:bg-darkblue gap-5 p-6 md:p-10 relative z-10">
+      <div className="auth-form w-full md:w-md flex flex-col justify-between items-center h-full text-foreground bg-surface/95 md:bg-surface gap-5 p-6 md:p-10 relative z-10">
         <div></div>
         <div className="flex flex-col justify-center items-center gap-3 md:gap-5">
           <h2 className="text-3xl font-semibold text-center">
@@ -142,14 +142,14 @@ const ResetPassword: React.FC = () => {
 
           {/* Mostrar mensaje de éxito */}
           {success && (
-            <div className="w-full bg-green-500/20 border border-green-500 text-green-200 px-4 py-2 rounded text-sm">
+            <div className="w-full bg-green-500/20 border border-green-500 text-green px-4 py-2 rounded text-sm">
               ¡Contraseña actualizada exitosamente! Redirigiendo al login...
             </div>
           )}
 
           {/* Mostrar error */}
           {error && (
-            <div className="w-full bg-red-500/20 border border-red-500 text-red-200 px-4 py-2 rounded text-sm">
+            <div className="w-full bg-red-500/20 border border-red-500 text-red px-4 py-2 rounded text-sm">
               {error}
             </div>
           )}
@@ -168,7 +168,7 @@ const ResetPassword: React.FC = () => {
               <button
                 type="button"
                 onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-[42px] text-gray-400 hover:text-white transition-colors"
+                className="absolute right-3 top-[42px] text-foreground/60 hover:text-foreground transition-colors"
               >
                 {showPassword ? "" : ""}
               </button>
@@ -5,39 +5,90 @@
  * @module SearchPage
  */
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
-import VideoCard from "../components/VideoCard";
+import VirtualVideoGrid from "../components/VirtualVideoGrid";
+import { useHistorySnapshot, useScrollRestoration } from "../hooks/useHistoryRestoration";
+import RequestError from "../components/RequestError";
+import SearchFilters from "../components/SearchFilters";
+import SearchQueryInput from "../components/SearchQueryInput";
+import CategoryIcon from "../components/CategoryIcon";
+import SortSelect from "../components/SortSelect";
 import { pexelsService } from "../services/pexels.service";
-import type { PexelsVideo } from "../types/pexels.types";
+import { getApiErrorKind, isAbortError, type ApiErrorKind } from "../services/http.client";
+import useSettingsStore from "../stores/useSettingsStore";
+import useSearchHistoryStore from "../stores/useSearchHistoryStore";
+import useUserStore from "../stores/useUserStore";
+import useSavedSearchesStore from "../stores/useSavedSearchesStore";
+import type { PexelsVideo, VideoSearchFilters, VideoSortOption } from "../types/pexels.types";
+import type { VideoCategory } from "../types/category.types";
+import { getFilterChips, parseSearchFilters, toFilterQuery, writeSearchFilters } from "../utils/searchFilters";
+import { parseSearchQuery } from "../utils/searchQuery";
+import { getSearchSuggestions } from "../utils/searchSuggestions";
+import { VIDEO_CATEGORIES, findCategory, getCategoryLabel } from "../utils/categories";
+import { SAVED_SEARCH_PARAM, getSearchKey, isNewSinceVisit } from "../utils/savedSearches";
+import { SORT_PARAM, getSortLabel, parseSortOption, sortVideos, writeSortOption } from "../utils/videoSort";
+
+/**
+ * Loaded list saved for history navigation
+ * @typedef {Object} SearchListSnapshot
+ */
+interface SearchListSnapshot {
+  listKey: string;
+  videos: PexelsVideo[];
+  page: number;
+  firstPage: number;
+  hasMore: boolean;
+  totalResults: number | null;
+  totalPages: number | null;
+}
 
 /**
  * Search page component
  * Implements category search with infinite pagination using Intersection Observer
+ * over a virtualized video grid
  * 
  * @component
  * @returns {JSX.Element} Search page with filters and results
  * 
  * @description
  * Main features:
- * - Search bar with form
+ * - Search bar with a query language, e.g. `ocean author:"Jane Doe" duration:<30 sort:rating`
+ * - Query syntax errors underlined in the input and listed below it
+ * - Autocomplete with the user's recent searches, categories and seen authors
+ * - Save the current search under a name; opening it (?saved=...) flags videos new since the last visit
  * - Category filters via query params (?category=...)
- * - Active filter badge with remove button
- * - Infinite scroll with Intersection Observer
- * - Automatic pagination when reaching the end
+ * - Quick-filter chips for the registered categories; known categories get their Spanish label
+ * - Advanced filters (orientation, size, duration, date) in the URL, e.g. ?orientation=portrait&max_duration=30
+ * - Active filter badge plus one removable chip per advanced filter and sort order
+ * - Sort control (relevance, newest, likes, rating, shortest, longest) kept in the URL (?sort=...);
+ *   the whole loaded list is re-sorted as infinite scroll appends pages
+ * - Infinite scroll with Intersection Observer on a sentinel after the grid
+ * - Virtualized grid: only the rows near the viewport are in the DOM
+ * - Automatic pagination when reaching the end, stopping at the last page
+ * - Total results counter from the backend pagination
+ * - "Cargar más" button and "Ir a la página" form when infinite scroll is disabled
  * - Responsive flex-wrap layout
  * - Scroll reset when changing category
+ * - Superseded requests are cancelled and duplicate videos skipped
+ * - Coming back through history restores the loaded pages and the scroll offset
  * - Popular videos by default if no filter
  * - Clicking on video navigates to detail page
  * 
  * Managed states:
  * - activeFilter: Current category from URL params
- * - searchQuery: Search input text
+ * - filters: Advanced filters from URL params
+ * - sort: Client-side order from URL params
+ * - visit: Previous visit of the open saved search, used for the "Nuevo" badges
+ * - searchQuery: Search input text (keeps the searched text after submitting)
  * - videos: Array of loaded videos
  * - page: Current page for pagination
  * - hasMore: If there are more videos to load
+ * - totalResults / totalPages: Pagination reported by the backend (null if unknown)
+ * - firstPage: First page in the current list (changes when jumping to a page)
  * - loading: Loading state
- * - error: Error message if loading fails
+ * - error: Kind of error if loading fails
+ * - reloadKey: Bumped by "Reintentar" to load the current page again
  * 
  * @example
  * ```tsx
@@ -56,221 +107,629 @@ const SearchPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const activeFilter = searchParams.get("category") || "";
+  // Serialized filters keep a stable identity between renders with the same URL
+  const filterQuery = toFilterQuery(parseSearchFilters(searchParams));
+  const filters = useMemo(() => parseSearchFilters(new URLSearchParams(filterQuery)), [filterQuery]);
+  const sort = parseSortOption(searchParams.get(SORT_PARAM));
   
-  const [searchQuery, setSearchQuery] = useState("");
-  const [videos, setVideos] = useState<PexelsVideo[]>([]);
+  const [searchQuery, setSearchQuery] = useState(activeFilter);
+  const [shownFilter, setShownFilter] = useState(activeFilter);
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  // Keep the input in sync when the category changes from outside (chip removed, back button)
+  if (shownFilter !== activeFilter) {
+    setShownFilter(activeFilter);
+    setSearchQuery(activeFilter);
+  }
+
+  const userId = useUserStore((state) => state.user?.id) ?? "";
+  const recentSearches = useSearchHistoryStore((state) => state.recentByUser[userId]);
+  const seenAuthors = useSearchHistoryStore((state) => state.authors);
+  const addSearch = useSearchHistoryStore((state) => state.addSearch);
+  const removeSearch = useSearchHistoryStore((state) => state.removeSearch);
+  const addAuthors = useSearchHistoryStore((state) => state.addAuthors);
+  const searchKey = getSearchKey(searchParams);
+  const savedId = searchParams.get(SAVED_SEARCH_PARAM);
+  const savedSearches = useSavedSearchesStore((state) => state.byUser[userId]);
+  const saveSearch = useSavedSearchesStore((state) => state.saveSearch);
+  const recordVisit = useSavedSearchesStore((state) => state.recordVisit);
+  // The saved search only applies while the URL still matches it
+  const openSaved = savedSearches?.find((search) => search.id === savedId && search.query === searchKey);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [visit, setVisit] = useState<{
+    id: string;
+    lastVisitedAt: string;
+    seenIds: Set<string>;
+    startedAt: string;
+  } | null>(null);
+
+  // Snapshot the previous visit once per opening, so badges stay while new visits are recorded
+  if ((openSaved?.id ?? null) !== (visit?.id ?? null)) {
+    setVisit(
+      openSaved
+        ? {
+            id: openSaved.id,
+            lastVisitedAt: openSaved.lastVisitedAt,
+            seenIds: new Set(openSaved.seenIds),
+            startedAt: new Date().toISOString(),
+          }
+        : null
+    );
+  }
+
+  const suggestions = useMemo(
+    () =>
+      getSearchSuggestions(searchQuery, {
+        recent: recentSearches ?? [],
+        categories: VIDEO_CATEGORIES,
+        authors: seenAuthors,
+      }),
+    [searchQuery, recentSearches, seenAuthors]
+  );
+  const listKey = `${activeFilter}?${filterQuery}`;
+  const { restored: restoredSnapshot, save: saveSnapshot } = useHistorySnapshot<SearchListSnapshot>("search-list");
+  // Only reuse a snapshot of this exact list
+  const restored = restoredSnapshot?.listKey === listKey ? restoredSnapshot : undefined;
+
+  const [videos, setVideos] = useState<PexelsVideo[]>(restored?.videos ?? []);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<ApiErrorKind | null>(null);
+  const [page, setPage] = useState(restored?.page ?? 1);
+  // Last page whose videos are in the list (page may already point to the next request)
+  const [loadedPage, setLoadedPage] = useState(restored?.page ?? 0);
+  const [hasMore, setHasMore] = useState(restored?.hasMore ?? true);
+  const [totalResults, setTotalResults] = useState<number | null>(restored?.totalResults ?? null);
+  const [totalPages, setTotalPages] = useState<number | null>(restored?.totalPages ?? null);
+  const [firstPage, setFirstPage] = useState(restored?.firstPage ?? 1);
+  const [jumpPage, setJumpPage] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+  const { infiniteScroll, setInfiniteScroll } = useSettingsStore();
   
   const observer = useRef<IntersectionObserver | null>(null);
+  // True while a page is being requested, so the observer can't ask for the same page twice
+  const isFetching = useRef(false);
+  // Category and filters the current list belongs to (null before the first load)
+  const loadedFilter = useRef<string | null>(restored?.listKey ?? null);
+  // IDs already shown, used to skip videos repeated across pages
+  const loadedIds = useRef(new Set<string>(restored?.videos.map((video) => video._id)));
+  // A restored list already has its current page loaded
+  const skipLoad = useRef(restored !== undefined);
+
+  useScrollRestoration("search", videos.length > 0);
+  
+  const sortedVideos = useMemo(() => sortVideos(videos, sort), [videos, sort]);
+  const newIds = useMemo(
+    () =>
+      new Set(
+        visit
+          ? videos
+              .filter((video) => isNewSinceVisit(video, visit.lastVisitedAt, visit.seenIds))
+              .map((video) => video._id)
+          : []
+      ),
+    [videos, visit]
+  );
+  const filterChips = getFilterChips(filters);
   
   /**
-   * Callback ref for the last video element
+   * Callback ref for the sentinel after the last row of videos
    * Implements Intersection Observer to detect when user reaches the end
    * and automatically load more videos
    * 
    * @callback lastVideoElementRef
-   * @param {HTMLDivElement | null} node - DOM element of last video
+   * @param {HTMLDivElement | null} node - Sentinel element rendered by VirtualVideoGrid
    */
   const lastVideoElementRef = useCallback(
     (node: HTMLDivElement | null) => {
       if (loading) return;
       if (observer.current) observer.current.disconnect();
+      if (!infiniteScroll) return;
       
       observer.current = new IntersectionObserver((entries) => {
-        if (entries[0].isIntersecting && hasMore) {
+        if (entries[0].isIntersecting && hasMore && !isFetching.current) {
+          isFetching.current = true;
           setPage((prevPage) => prevPage + 1);
         }
       });
       
       if (node) observer.current.observe(node);
     },
-    [loading, hasMore]
+    [loading, hasMore, infiniteScroll]
   );
 
   /**
-   * Effect: Reset y scroll cuando cambia el filtro activo
-   * Limpia videos, resetea página y scroll al cambiar de categoría
+   * Effect: Carga videos cuando cambian el filtro o la página
+   * Al cambiar de categoría limpia la lista y vuelve a la página 1 antes de cargar.
+   * Cada carga se cancela si llega otra más nueva, así los resultados de una
+   * búsqueda anterior nunca se mezclan con los de la actual
    */
   useEffect(() => {
-    // Scroll al inicio de la página cuando cambia el filtro
-    window.scrollTo(0, 0);
-    
-    // Reset cuando cambia el filtro
-    setVideos([]);
-    setPage(1);
-    setHasMore(true);
-    setError(null);
-  }, [activeFilter]);
+    const listKey = `${activeFilter}?${toFilterQuery(filters)}`;
+    if (skipLoad.current && loadedFilter.current === listKey) {
+      skipLoad.current = false;
+      return;
+    }
+    skipLoad.current = false;
+
+    if (loadedFilter.current !== listKey) {
+      loadedFilter.current = listKey;
+
+      // Scroll al inicio de la página cuando cambia el filtro
+      window.scrollTo(0, 0);
+      loadedIds.current = new Set();
+      setVideos([]);
+      setHasMore(true);
+      setTotalResults(null);
+      setTotalPages(null);
+      setFirstPage(1);
+      setError(null);
+
+      // Let the page change trigger the load of page 1
+      if (page !== 1) {
+        setPage(1);
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+
+    /**
+     * Loads one page of videos from the backend
+     * Uses popular videos by default or searches by category
+     * 
+     * @async
+     */
+    const loadVideos = async () => {
+      try {
+        isFetching.current = true;
+        setLoading(true);
+        setError(null);
+
+        const options = { signal: controller.signal, filters };
+        let response;
+        // If no active filter, show popular videos
+        if (!activeFilter || activeFilter === 'popular') {
+          response = await pexelsService.getPopularVideos(page, 15, options);
+        } else {
+          response = await pexelsService.searchVideos(activeFilter, page, 15, options);
+        }
+
+        if (controller.signal.aborted) return;
+
+        const newVideos = response.videos.filter((video) => !loadedIds.current.has(video._id));
+        newVideos.forEach((video) => loadedIds.current.add(video._id));
+        if (newVideos.length > 0) setVideos((prev) => [...prev, ...newVideos]);
+        setLoadedPage(page);
+        addAuthors(newVideos.map((video) => video.user.name));
+
+        // Stop exactly at the last page. A page made only of videos already shown also ends
+        // the list (backend ignoring the page param); an empty page may just be filtered out
+        setHasMore(response.next_page !== null && (newVideos.length > 0 || response.videos.length === 0));
+        setTotalPages(response.total_pages);
+        setTotalResults(response.total_pages !== null ? response.total_results : null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Error loading videos:", err);
+        setError(getApiErrorKind(err));
+      } finally {
+        if (!controller.signal.aborted) {
+          isFetching.current = false;
+          setLoading(false);
+        }
+      }
+    };
+
+    loadVideos();
+    return () => controller.abort();
+  }, [activeFilter, filters, page, reloadKey, addAuthors]);
 
   /**
-   * Effect: Carga videos cuando cambian el filtro o la página
+   * Effect: Keeps a snapshot of the loaded list for history navigation
+   * Stores the last loaded page, so a restored list continues right after it
    */
   useEffect(() => {
-    loadVideos();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeFilter, page]);
+    if (videos.length === 0 || loadedPage < firstPage) return;
+    saveSnapshot({ listKey, videos, page: loadedPage, firstPage, hasMore, totalResults, totalPages });
+  }, [listKey, videos, loadedPage, firstPage, hasMore, totalResults, totalPages, saveSnapshot]);
+
+  /**
+   * Effect: Records the visit of the open saved search
+   * Videos shown now won't be flagged as new next time
+   */
+  useEffect(() => {
+    if (!visit || videos.length === 0) return;
+    recordVisit(userId, visit.id, videos.map((video) => video._id), visit.startedAt);
+  }, [visit, videos, userId, recordVisit]);
+
+  /**
+   * Loads the next page when infinite scroll is disabled
+   */
+  const handleLoadMore = () => {
+    if (!hasMore || isFetching.current) return;
+    isFetching.current = true;
+    setPage((prevPage) => prevPage + 1);
+  };
 
   /**
-   * Loads videos from Pexels API
-   * Uses popular videos by default or searches by category
+   * Replaces the list with the given page
+   * The reload key makes the jump work even if that page is already the current one
    * 
-   * @async
-   * @throws {Error} If video loading fails
+   * @param {React.FormEvent} e - Form event
    */
-  const loadVideos = async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  const handleJumpToPage = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = Math.floor(Number(jumpPage));
+    if (!target || target < 1 || (totalPages !== null && target > totalPages)) return;
 
-      let response;
-      // If no active filter, show popular videos
-      if (!activeFilter || activeFilter === 'popular') {
-        response = await pexelsService.getPopularVideos(page, 15);
-      } else {
-        response = await pexelsService.searchVideos(activeFilter, page, 15);
-      }
+    window.scrollTo(0, 0);
+    loadedIds.current = new Set();
+    setVideos([]);
+    setHasMore(true);
+    setFirstPage(target);
+    setPage(target);
+    setReloadKey((key) => key + 1);
+    setJumpPage("");
+  };
 
-      if (response.videos.length === 0) {
-        setHasMore(false);
-      } else {
-        setVideos((prev) => [...prev, ...response.videos]);
-      }
-    } catch (err) {
-      console.error("Error loading videos:", err);
-      setError("Error loading videos");
-    } finally {
-      setLoading(false);
+  /**
+   * Applies a search typed in the query language
+   * Writes text, filters and sort order to the URL. Qualifiers are merged over
+   * the current filters; with only qualifiers the current category is kept.
+   * Nothing is applied while the query has errors. The search is saved in the
+   * user's history and the input keeps only the free text (qualifiers become chips)
+   * Uses { replace: true } to avoid creating multiple history entries
+   * 
+   * @param {string} input - Search box text
+   */
+  const applySearch = (input: string) => {
+    const { text, filters: queryFilters, sort: querySort, errors } = parseSearchQuery(input);
+    if (errors.length > 0) {
+      setSearchQuery(input);
+      return;
     }
+    if (!text && Object.keys(queryFilters).length === 0 && !querySort) return;
+
+    setSearchParams(
+      (prev) => {
+        const next = writeSearchFilters(prev, { ...parseSearchFilters(prev), ...queryFilters });
+        if (text) next.set("category", text);
+        return querySort ? writeSortOption(next, querySort) : next;
+      },
+      { replace: true }
+    );
+    addSearch(userId, input);
+    setSearchQuery(text || activeFilter);
   };
 
   /**
    * Handles search form submission
-   * Updates query params with searched category
-   * Uses { replace: true } to avoid creating multiple history entries
    * 
    * @param {React.FormEvent} e - Form event
    */
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      setSearchParams({ category: searchQuery.trim() }, { replace: true });
-      setSearchQuery("");
-    }
+    applySearch(searchQuery);
   };
 
   /**
    * Removes active filter
-   * Navigates to /search without query params
+   * Navigates to /search keeping only the advanced filters and sort order
    */
   const handleRemoveFilter = () => {
-    navigate('/search');
+    const next = new URLSearchParams(filterQuery);
+    if (sort !== "relevance") next.set(SORT_PARAM, sort);
+    navigate(next.size > 0 ? `/search?${next}` : '/search');
+  };
+
+  /**
+   * Saves the current search under the typed name and opens it as a saved search
+   * 
+   * @param {React.FormEvent} e - Form event
+   */
+  const handleSaveSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = saveName?.trim();
+    if (!name) return;
+
+    const id = saveSearch(userId, name, searchKey, videos.map((video) => video._id));
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.set(SAVED_SEARCH_PARAM, id);
+        return next;
+      },
+      { replace: true }
+    );
+    setSaveName(null);
+  };
+
+  /**
+   * Changes the client-side order by writing it to the URL
+   * 
+   * @param {VideoSortOption} next - New order ("relevance" removes the param)
+   */
+  const handleSortChange = (next: VideoSortOption) => {
+    setSearchParams((prev) => writeSortOption(prev, next), { replace: true });
+  };
+
+  /**
+   * Applies new advanced filters by writing them to the URL
+   * 
+   * @param {VideoSearchFilters} next - New filters
+   */
+  const handleFiltersChange = (next: VideoSearchFilters) => {
+    setSearchParams((prev) => writeSearchFilters(prev, next), { replace: true });
+  };
+
+  /**
+   * Shows a category from the quick-filter chips
+   * Keeps the advanced filters and sort order
+   * 
+   * @param {VideoCategory} category - Selected category
+   */
+  const handleCategorySelect = (category: VideoCategory) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.set("category", category.id);
+        return next;
+      },
+      { replace: true }
+    );
   };
 
   /**
    * Gets formatted label from active filter
-   * Capitalizes first letter of the filter
+   * Known categories use their registry label, other terms are capitalized
    * 
-   * @returns {string | null} Capitalized label or null if no filter
+   * @returns {string | null} Label or null if no filter
    */
   const getFilterLabel = () => {
     if (!activeFilter) return null;
-    if (activeFilter === 'popular') return 'Popular';
-    return activeFilter.charAt(0).toUpperCase() + activeFilter.slice(1);
+    return getCategoryLabel(activeFilter);
   };
 
+  // Category highlighted in the quick filters (popular when there's no search term)
+  const selectedCategoryId = activeFilter ? findCategory(activeFilter)?.id : "popular";
+
   return (
     <div className="flex flex-col w-full min-h-screen mt-20 px-4">
       {/* Search Bar */}
       <div className="w-full max-w-4xl mx-auto my-8">
-        <form onSubmit={handleSearch} className="relative">
-          <input
-            type="text"
+        <form onSubmit={handleSearch}>
+          <SearchQueryInput
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Buscar videos por categoría, tema, etc..."
-            className="w-full px-6 py-4 bg-white/5 border-2 border-blue text-white rounded-lg focus:outline-none focus:border-lightblue transition placeholder-white/50"
-          />
-          <button
-            type="submit"
-            className="absolute right-2 top-1/2 -translate-y-1/2 px-4 py-2 text-white rounded "
+            onChange={setSearchQuery}
+            errors={parsedQuery.errors}
+            suggestions={suggestions}
+            onSelectSuggestion={(suggestion) => applySearch(suggestion.query)}
+            onRemoveSuggestion={(suggestion) => removeSearch(userId, suggestion.query)}
+            placeholder='Buscar videos... p. ej. ocean author:"Jane Doe" duration:<30'
           >
-            <svg
-              width="24"
-              height="24"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className=" hover:stroke-lightblue transition"
+            <button
+              type="submit"
+              aria-label="Buscar"
+              className="absolute right-2 top-1/2 -translate-y-1/2 px-4 py-2 text-foreground rounded "
             >
-              <path stroke="none" d="M0 0h24v24H0z" fill="none" />
-              <path d="M10 10m-7 0a7 7 0 1 0 14 0a7 7 0 1 0 -14 0" />
-              <path d="M21 21l-6 -6" />
-            </svg>
-          </button>
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className=" hover:stroke-lightblue transition"
+              >
+                <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+                <path d="M10 10m-7 0a7 7 0 1 0 14 0a7 7 0 1 0 -14 0" />
+                <path d="M21 21l-6 -6" />
+              </svg>
+            </button>
+          </SearchQueryInput>
         </form>
       </div>
 
-      {/* Active Filter */}
-      {activeFilter && (
+      {/* Category quick filters */}
+      <div className="w-full max-w-4xl mx-auto -mt-4 mb-6">
+        <ul className="flex flex-wrap gap-2" aria-label="Categorías">
+          {VIDEO_CATEGORIES.map((category) => {
+            const isSelected = category.id === selectedCategoryId;
+            return (
+              <li key={category.id}>
+                <button
+                  type="button"
+                  onClick={() => handleCategorySelect(category)}
+                  aria-pressed={isSelected}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition focus:outline-none focus:ring-2 focus:ring-lightblue ${
+                    isSelected
+                      ? "bg-blue border-blue text-white"
+                      : "bg-foreground/5 border-foreground/20 text-foreground/80 hover:border-lightblue hover:text-foreground"
+                  }`}
+                >
+                  <CategoryIcon category={category} size={16} />
+                  {category.labels.es}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* Active Filter and query chips */}
+      {(activeFilter || filterChips.length > 0 || sort !== "relevance") && (
         <div className="w-full max-w-4xl mx-auto mb-8">
-          <div className="flex items-center gap-2">
-            <span className="text-white/70">Filtro activo:</span>
-            <div className="flex items-center gap-2 px-4 py-2 bg-blue/20 border border-blue rounded-lg">
-              <span className="text-white font-semibold">{getFilterLabel()}</span>
-              <button
-                onClick={handleRemoveFilter}
-                className="text-white hover:text-red transition"
-                aria-label="Eliminar filtro"
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-foreground/70">Filtro activo:</span>
+            {activeFilter && (
+              <div className="flex items-center gap-2 px-4 py-2 bg-blue/20 border border-blue rounded-lg">
+                <span className="text-foreground font-semibold">{getFilterLabel()}</span>
+                <button
+                  onClick={handleRemoveFilter}
+                  className="text-foreground hover:text-red transition"
+                  aria-label="Eliminar filtro"
+                >
+                  <svg
+                    width="20"
+                    height="20"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+                    <path d="M18 6l-12 12" />
+                    <path d="M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
+            {filterChips.map((chip) => (
+              <div
+                key={chip.keys.join()}
+                className="flex items-center gap-2 px-3 py-2 bg-foreground/5 border border-blue/50 rounded-lg"
               >
-                <svg
-                  width="20"
-                  height="20"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
+                <span className="text-foreground">{chip.label}</span>
+                <button
+                  onClick={() =>
+                    handleFiltersChange({ ...filters, ...Object.fromEntries(chip.keys.map((key) => [key, undefined])) })
+                  }
+                  className="text-foreground hover:text-red transition"
+                  aria-label={`Eliminar filtro ${chip.label}`}
                 >
-                  <path stroke="none" d="M0 0h24v24H0z" fill="none" />
-                  <path d="M18 6l-12 12" />
-                  <path d="M6 6l12 12" />
-                </svg>
-              </button>
-            </div>
+                  <svg
+                    width="20"
+                    height="20"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+                    <path d="M18 6l-12 12" />
+                    <path d="M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+            {sort !== "relevance" && (
+              <div className="flex items-center gap-2 px-3 py-2 bg-foreground/5 border border-blue/50 rounded-lg">
+                <span className="text-foreground">Orden: {getSortLabel(sort)}</span>
+                <button
+                  onClick={() => handleSortChange("relevance")}
+                  className="text-foreground hover:text-red transition"
+                  aria-label="Quitar orden"
+                >
+                  <svg
+                    width="20"
+                    height="20"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+                    <path d="M18 6l-12 12" />
+                    <path d="M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
 
-      {/* Videos Container with Flex Wrap */}
-      <div className="flex flex-wrap gap-6 mb-8 justify-center">
-        {videos.map((video, index) => {
-          if (videos.length === index + 1) {
-            return (
-              <div key={video._id} ref={lastVideoElementRef}>
-                <VideoCard video={video} />
-              </div>
-            );
-          } else {
-            return (
-              <VideoCard
-                key={video._id}
-                video={video}
-              />
-            );
-          }
-        })}
+      {/* Advanced filters */}
+      <SearchFilters filters={filters} onChange={handleFiltersChange} />
+
+      {/* Results summary and scroll mode */}
+      <div className="w-full max-w-4xl mx-auto mb-6 flex flex-wrap items-center justify-between gap-4 text-foreground/70">
+        <p aria-live="polite">
+          {totalResults !== null &&
+            `${totalResults.toLocaleString("es")} ${totalResults === 1 ? "resultado" : "resultados"}`}
+          {openSaved && (
+            <span className="ml-2">
+              · <span className="text-foreground font-semibold">{openSaved.name}</span>
+              {newIds.size > 0 && (
+                <span className="text-green">
+                  {" "}· {newIds.size} {newIds.size === 1 ? "nuevo" : "nuevos"} desde tu última visita
+                </span>
+              )}
+            </span>
+          )}
+        </p>
+        {saveName === null ? (
+          !openSaved && (
+            <button
+              onClick={() => setSaveName(activeFilter ? getFilterLabel() ?? "" : "Populares")}
+              className="px-4 py-2 bg-foreground/10 text-foreground rounded hover:bg-foreground/20 transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-foreground"
+            >
+              Guardar búsqueda
+            </button>
+          )
+        ) : (
+          <form onSubmit={handleSaveSearch} className="flex items-center gap-2">
+            <label htmlFor="saved-search-name" className="sr-only">
+              Nombre de la búsqueda
+            </label>
+            <input
+              id="saved-search-name"
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setSaveName(null)}
+              maxLength={60}
+              autoFocus
+              className="px-3 py-2 bg-foreground/5 border border-blue text-foreground rounded focus:outline-none focus:border-lightblue"
+            />
+            <button
+              type="submit"
+              disabled={!saveName.trim()}
+              className="px-4 py-2 bg-blue text-white rounded hover:bg-lightblue transition cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Guardar
+            </button>
+            <button
+              type="button"
+              onClick={() => setSaveName(null)}
+              className="px-3 py-2 text-foreground/70 hover:text-foreground transition cursor-pointer"
+            >
+              Cancelar
+            </button>
+          </form>
+        )}
+        <SortSelect value={sort} onChange={handleSortChange} />
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={infiniteScroll}
+            onChange={(e) => setInfiniteScroll(e.target.checked)}
+            className="accent-blue w-4 h-4"
+          />
+          Desplazamiento infinito
+        </label>
+      </div>
+
+      {/* Videos Container (virtualized, only visible rows are rendered) */}
+      <div className="mb-8">
+        <VirtualVideoGrid
+          videos={sortedVideos}
+          isNew={(video) => newIds.has(video._id)}
+          // Without the sentinel a failed page isn't skipped by the observer
+          sentinelRef={error ? undefined : lastVideoElementRef}
+        />
       </div>
 
       {/* Loading State */}
       {loading && (
-        <div className="text-white text-center py-8">
+        <div className="text-foreground text-center py-8">
           <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-lightblue"></div>
           <p className="mt-4">Cargando más videos...</p>
         </div>
@@ -278,27 +737,63 @@ const SearchPage: React.FC = () => {
 
       {/* Error State */}
       {error && (
-        <div className="text-red text-center py-8">
-          <p>{error}</p>
-          <button
-            onClick={() => loadVideos()}
-            className="mt-4 px-6 py-2 bg-blue text-white rounded hover:bg-lightblue transition"
-          >
-            Reintentar
-          </button>
+        <RequestError
+          kind={error}
+          notFoundMessage="No se encontraron videos para esta búsqueda"
+          onRetry={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+
+      {/* Manual pagination */}
+      {!infiniteScroll && videos.length > 0 && !error && (
+        <div className="w-full max-w-4xl mx-auto flex flex-wrap items-center justify-center gap-4 pb-8 text-foreground">
+          {hasMore && !loading && (
+            <button
+              onClick={handleLoadMore}
+              className="px-6 py-2 bg-blue text-white rounded hover:bg-lightblue transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-lightblue"
+            >
+              Cargar más
+            </button>
+          )}
+          {totalPages !== null && totalPages > 1 && (
+            <form onSubmit={handleJumpToPage} className="flex items-center gap-2">
+              <span className="text-foreground/70">
+                {firstPage === page ? `Página ${page}` : `Páginas ${firstPage}–${page}`} de {totalPages}
+              </span>
+              <label htmlFor="jump-page" className="sr-only">
+                Ir a la página
+              </label>
+              <input
+                id="jump-page"
+                type="number"
+                min={1}
+                max={totalPages}
+                value={jumpPage}
+                onChange={(e) => setJumpPage(e.target.value)}
+                placeholder="Nº"
+                className="w-20 px-3 py-2 bg-foreground/5 border border-blue rounded focus:outline-none focus:border-lightblue"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-foreground/10 rounded hover:bg-foreground/20 transition cursor-pointer focus:outline-none focus:ring-2 focus:ring-foreground"
+              >
+                Ir a la página
+              </button>
+            </form>
+          )}
         </div>
       )}
 
       {/* No More Videos */}
       {!hasMore && videos.length > 0 && (
-        <div className="text-white/70 text-center py-8">
+        <div className="text-foreground/70 text-center py-8">
           No hay más videos para mostrar
         </div>
       )}
 
       {/* No Videos Found */}
       {!loading && videos.length === 0 && !error && (
-        <div className="text-white/70 text-center py-8 text-xl">
+        <div className="text-foreground/70 text-center py-8 text-xl">
           No se encontraron videos en esta categoría
         </div>
       )}
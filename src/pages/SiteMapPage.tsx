@@ -6,6 +6,8 @@
  */
 
 import { Link } from "react-router-dom";
+import CategoryIcon from "../components/CategoryIcon";
+import { VIDEO_CATEGORIES, getCategoryPath } from "../utils/categories";
 
 /**
  * Sitemap page component
@@ -25,6 +27,7 @@ import { Link } from "react-router-dom";
  * Included sections:
  * - Authentication (Login, Register, Forgot Password)
  * - Main Navigation (Home, Search, My Likes)
+ * - Categories (search page of each registered category)
  * - User (Profile)
  * - Content (Video Player)
  * - Information (About Us, Site Map)
@@ -40,13 +43,13 @@ import { Link } from "react-router-dom";
  */
 const SiteMapPage: React.FC = () => {
   return (
-    <div className="min-h-screen bg-darkblue text-white p-8 flex items-center justify-center">
+    <div className="min-h-screen bg-surface text-foreground p-8 flex items-center justify-center">
       <div className="max-w-4xl mx-auto">
         <h1 className="text-4xl font-bold mb-8 text-center">Mapa del Sitio</h1>
         
         <div className="grid md:grid-cols-2 gap-8">
           {/* Sección de Autenticación */}
-          <div className="bg-white/10 rounded-lg p-6">
+          <div className="bg-foreground/10 rounded-lg p-6">
             <h2 className="text-2xl font-semibold mb-4 text-lightblue">Autenticación</h2>
             <ul className="space-y-2">
               <li>
@@ -68,7 +71,7 @@ const SiteMapPage: React.FC = () => {
           </div>
 
           {/* Sección de Navegación Principal */}
-          <div className="bg-white/10 rounded-lg p-6">
+          <div className="bg-foreground/10 rounded-lg p-6">
             <h2 className="text-2xl font-semibold mb-4 text-lightblue">Navegación Principal</h2>
             <ul className="space-y-2">
               <li>
@@ -86,11 +89,34 @@ const SiteMapPage: React.FC = () => {
                   → Favoritos
                 </Link>
               </li>
+              <li>
+                <Link to="/history" className="hover:text-lightblue transition-colors">
+                  → Historial
+                </Link>
+              </li>
+            </ul>
+          </div>
+
+          {/* Sección de Categorías */}
+          <div className="bg-foreground/10 rounded-lg p-6">
+            <h2 className="text-2xl font-semibold mb-4 text-lightblue">Categorías</h2>
+            <ul className="space-y-2">
+              {VIDEO_CATEGORIES.map((category) => (
+                <li key={category.id}>
+                  <Link
+                    to={getCategoryPath(category)}
+                    className="inline-flex items-center gap-2 hover:text-lightblue transition-colors"
+                  >
+                    <CategoryIcon category={category} size={18} />
+                    {category.labels.es}
+                  </Link>
+                </li>
+              ))}
             </ul>
           </div>
 
           {/* Sección de Usuario */}
-          <div className="bg-white/10 rounded-lg p-6">
+          <div className="bg-foreground/10 rounded-lg p-6">
             <h2 className="text-2xl font-semibold mb-4 text-lightblue">Usuario</h2>
             <ul className="space-y-2">
               <li>
@@ -102,39 +128,39 @@ const SiteMapPage: React.FC = () => {
           </div>
 
           {/* Sección de Contenido */}
-          <div className="bg-white/10 rounded-lg p-6">
+          <div className="bg-foreground/10 rounded-lg p-6">
             <h2 className="text-2xl font-semibold mb-4 text-lightblue">Contenido</h2>
             <ul className="space-y-2">
               <li>
-                <span className="text-gray-400">
+                <span className="text-foreground/60">
                   → Reproductor de Video
                 </span>
-                <span className="text-sm text-gray-500 block ml-4">
+                <span className="text-sm text-foreground/50 block ml-4">
                   (Se accede desde cualquier video)
                 </span>
               </li>
               <li className="ml-4">
-                <span className="text-sm text-gray-400">
+                <span className="text-sm text-foreground/60">
                   • Sistema de calificaciones (1-5 estrellas)
                 </span>
               </li>
               <li className="ml-4">
-                <span className="text-sm text-gray-400">
+                <span className="text-sm text-foreground/60">
                   • Ver estadísticas de calificaciones
                 </span>
               </li>
               <li className="ml-4">
-                <span className="text-sm text-gray-400">
+                <span className="text-sm text-foreground/60">
                   • Comentarios con edición y eliminación
                 </span>
               </li>
               <li className="ml-4">
-                <span className="text-sm text-gray-400">
+                <span className="text-sm text-foreground/60">
                   • Subtítulos (Español e Inglés)
                 </span>
               </li>
               <li className="ml-4">
-                <span className="text-sm text-gray-400">
+                <span className="text-sm text-foreground/60">
                   • Favoritos (agregar/quitar)
                 </span>
               </li>
@@ -142,7 +168,7 @@ const SiteMapPage: React.FC = () => {
           </div>
 
           {/* Sección de Información */}
-          <div className="bg-white/10 rounded-lg p-6">
+          <div className="bg-foreground/10 rounded-lg p-6">
             <h2 className="text-2xl font-semibold mb-4 text-lightblue">Información y Ayuda</h2>
             <ul className="space-y-2">
               <li>
@@ -11,19 +11,19 @@ import Layout from "../components/Layout";
 const UserManualPage: React.FC = () => {
   return (
     <Layout>
-      <div className="min-h-screen bg-darkblue text-white px-4 py-8 md:px-8 lg:px-16">
+      <div className="min-h-screen bg-surface text-foreground px-4 py-8 md:px-8 lg:px-16">
         {/* Header */}
         <div className="max-w-4xl mx-auto mb-8">
           <h1 className="text-4xl font-bold mb-4 text-center">
             Manual de Usuario
           </h1>
-          <p className="text-white/70 text-center text-lg">
+          <p className="text-foreground/70 text-center text-lg">
             Guía completa para utilizar la plataforma de videos
           </p>
         </div>
 
         {/* Table of Contents */}
-        <div className="max-w-4xl mx-auto mb-12 bg-white/5 p-6 rounded-lg border border-white/10">
+        <div className="max-w-4xl mx-auto mb-12 bg-foreground/5 p-6 rounded-lg border border-foreground/10">
           <h2 className="text-2xl font-semibold mb-4">Tabla de Contenidos</h2>
           <ul className="space-y-2">
             <li><a href="#introduction" className="text-lightblue hover:text-green transition">1. Introducción</a></li>
@@ -39,10 +39,10 @@ const UserManualPage: React.FC = () => {
           
           {/* Introduction */}
           <section id="introduction" className="scroll-mt-24">
-            <h2 className="text-3xl font-bold mb-4 border-b border-white/20 pb-2">
+            <h2 className="text-3xl font-bold mb-4 border-b border-foreground/20 pb-2">
               1. Introducción
             </h2>
-            <div className="space-y-4 text-white/80">
+            <div className="space-y-4 text-foreground/80">
               <p>
                 Bienvenido a la <strong>Plataforma de Videos</strong>, una aplicación web moderna diseñada para explorar, 
                 calificar y gestionar contenido de video de manera intuitiva y accesible.
@@ -63,15 +63,15 @@ const UserManualPage: React.FC = () => {
 
           {/* Getting Started */}
           <section id="getting-started" className="scroll-mt-24">
-            <h2 className="text-3xl font-bold mb-4 border-b border-white/20 pb-2">
+            <h2 className="text-3xl font-bold mb-4 border-b border-foreground/20 pb-2">
               2. Primeros Pasos
             </h2>
             <div className="space-y-6">
               
               {/* Registration */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-lightblue">2.1 Registro de Usuario</h3>
-                <ol className="list-decimal list-inside space-y-2 text-white/80">
+                <ol className="list-decimal list-inside space-y-2 text-foreground/80">
                   <li>Haz clic en el botón <strong>"Registrarse"</strong> en la página de inicio</li>
                   <li>Completa el formulario con:
                     <ul className="list-disc list-inside ml-6 mt-2">
@@ -86,9 +86,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Login */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-lightblue">2.2 Inicio de Sesión</h3>
-                <ol className="list-decimal list-inside space-y-2 text-white/80">
+                <ol className="list-decimal list-inside space-y-2 text-foreground/80">
                   <li>Ingresa tu correo electrónico</li>
                   <li>Ingresa tu contraseña</li>
                   <li>Haz clic en <strong>"Iniciar sesión"</strong></li>
@@ -97,9 +97,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Forgot Password */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-lightblue">2.3 Recuperar Contraseña</h3>
-                <ol className="list-decimal list-inside space-y-2 text-white/80">
+                <ol className="list-decimal list-inside space-y-2 text-foreground/80">
                   <li>Haz clic en <strong>"¿Olvidaste tu contraseña?"</strong></li>
                   <li>Ingresa tu correo electrónico registrado</li>
                   <li>Revisa tu correo para el enlace de recuperación</li>
@@ -111,15 +111,15 @@ const UserManualPage: React.FC = () => {
 
           {/* Features */}
           <section id="features" className="scroll-mt-24">
-            <h2 className="text-3xl font-bold mb-4 border-b border-white/20 pb-2">
+            <h2 className="text-3xl font-bold mb-4 border-b border-foreground/20 pb-2">
               3. Funcionalidades Principales
             </h2>
             <div className="space-y-6">
 
               {/* Explore Videos */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-green">3.1 Explorar Videos</h3>
-                <ul className="space-y-3 text-white/80">
+                <ul className="space-y-3 text-foreground/80">
                   <li>
                     <strong>Navegación:</strong> Desplázate por la página principal para ver videos destacados
                   </li>
@@ -133,9 +133,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Favorites */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-red">3.2 Sistema de Favoritos</h3>
-                <ul className="space-y-3 text-white/80">
+                <ul className="space-y-3 text-foreground/80">
                   <li>
                     <strong>Agregar a favoritos:</strong> Haz clic en el ícono de corazón ❤️ en cualquier video
                   </li>
@@ -152,9 +152,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Ratings */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-yellow">3.3 Sistema de Calificaciones</h3>
-                <ul className="space-y-3 text-white/80">
+                <ul className="space-y-3 text-foreground/80">
                   <li>
                     <strong>Calificar un video:</strong> Haz clic en "Calificar Video" en la página de detalles del video
                   </li>
@@ -187,9 +187,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Comments */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-blue">3.4 Sistema de Comentarios</h3>
-                <ul className="space-y-3 text-white/80">
+                <ul className="space-y-3 text-foreground/80">
                   <li>
                     <strong>Agregar comentario:</strong>
                     <ol className="list-decimal list-inside ml-6 mt-2">
@@ -212,9 +212,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Subtitles */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-lightblue">3.5 Subtítulos</h3>
-                <ul className="space-y-3 text-white/80">
+                <ul className="space-y-3 text-foreground/80">
                   <li>
                     <strong>Activar subtítulos:</strong> Haz clic en el ícono CC en el reproductor de video
                   </li>
@@ -232,9 +232,9 @@ const UserManualPage: React.FC = () => {
               </div>
 
               {/* Profile */}
-              <div className="bg-white/5 p-6 rounded-lg border border-white/10">
+              <div className="bg-foreground/5 p-6 rounded-lg border border-foreground/10">
                 <h3 className="text-xl font-semibold mb-3 text-green">3.6 Perfil de Usuario</h3>
-                <ul className="space-y-3 text-white/80">
+                <ul className="space-y-3 text-foreground/80">
                   <li>
                     <strong>Editar perfil:</strong>
                     <ol className="list-decimal list-inside ml-6 mt-2">
@@ -269,37 +269,37 @@ const UserManualPage: React.FC = () => {
 
           {/* Accessibility */}
           <section id="accessibility" className="scroll-mt-24">
-            <h2 className="text-3xl font-bold mb-4 border-b border-white/20 pb-2">
+            <h2 className="text-3xl font-bold mb-4 border-b border-foreground/20 pb-2">
               4. Navegación por Teclado (Accesibilidad)
             </h2>
             <div className="bg-green/10 border border-green/30 rounded-lg p-6">
-              <p className="text-white/80 mb-4">
+              <p className="text-foreground/80 mb-4">
                 Esta aplicación cumple con las pautas de accesibilidad <strong>WCAG 2.1 Level AA</strong> 
                 y puede ser completamente navegada usando solo el teclado.
               </p>
               <div className="space-y-4">
-                <div className="bg-white/5 p-4 rounded">
+                <div className="bg-foreground/5 p-4 rounded">
                   <h3 className="font-semibold text-lightblue mb-2">Teclas Principales</h3>
-                  <ul className="space-y-2 text-white/80">
-                    <li><kbd className="bg-darkblue px-2 py-1 rounded border border-white/20">Tab</kbd> - Navegar al siguiente elemento</li>
-                    <li><kbd className="bg-darkblue px-2 py-1 rounded border border-white/20">Shift + Tab</kbd> - Navegar al elemento anterior</li>
-                    <li><kbd className="bg-darkblue px-2 py-1 rounded border border-white/20">Enter</kbd> - Activar botón o enlace</li>
-                    <li><kbd className="bg-darkblue px-2 py-1 rounded border border-white/20">Space</kbd> - Activar botón</li>
-                    <li><kbd className="bg-darkblue px-2 py-1 rounded border border-white/20">Esc</kbd> - Cerrar modal</li>
+                  <ul className="space-y-2 text-foreground/80">
+                    <li><kbd className="bg-surface px-2 py-1 rounded border border-foreground/20">Tab</kbd> - Navegar al siguiente elemento</li>
+                    <li><kbd className="bg-surface px-2 py-1 rounded border border-foreground/20">Shift + Tab</kbd> - Navegar al elemento anterior</li>
+                    <li><kbd className="bg-surface px-2 py-1 rounded border border-foreground/20">Enter</kbd> - Activar botón o enlace</li>
+                    <li><kbd className="bg-surface px-2 py-1 rounded border border-foreground/20">Space</kbd> - Activar botón</li>
+                    <li><kbd className="bg-surface px-2 py-1 rounded border border-foreground/20">Esc</kbd> - Cerrar modal</li>
                   </ul>
                 </div>
-                <div className="bg-white/5 p-4 rounded">
+                <div className="bg-foreground/5 p-4 rounded">
                   <h3 className="font-semibold text-lightblue mb-2">Navegación en Modales</h3>
-                  <ul className="list-disc list-inside space-y-1 text-white/80">
+                  <ul className="list-disc list-inside space-y-1 text-foreground/80">
                     <li>El foco se captura dentro del modal (focus trap)</li>
                     <li>Tab cicla solo entre elementos del modal</li>
                     <li>Escape cierra el modal</li>
                     <li>El foco regresa al elemento que abrió el modal</li>
                   </ul>
                 </div>
-                <div className="bg-white/5 p-4 rounded">
+                <div className="bg-foreground/5 p-4 rounded">
                   <h3 className="font-semibold text-lightblue mb-2">Indicadores Visuales</h3>
-                  <p className="text-white/80">
+                  <p className="text-foreground/80">
                     Todos los elementos interactivos muestran un <strong>anillo de enfoque</strong> visible 
                     cuando se navega con teclado, facilitando la identificación del elemento activo.
                   </p>
@@ -310,57 +310,57 @@ const UserManualPage: React.FC = () => {
 
           {/* FAQ */}
           <section id="faq" className="scroll-mt-24">
-            <h2 className="text-3xl font-bold mb-4 border-b border-white/20 pb-2">
+            <h2 className="text-3xl font-bold mb-4 border-b border-foreground/20 pb-2">
               5. Preguntas Frecuentes
             </h2>
             <div className="space-y-4">
               
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Puedo usar la aplicación sin registrarme?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   No, necesitas crear una cuenta para acceder a todas las funcionalidades de la plataforma.
                 </p>
               </details>
 
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Cuántos videos puedo agregar a favoritos?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   No hay límite. Puedes agregar tantos videos como desees a tu lista de favoritos.
                 </p>
               </details>
 
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Puedo cambiar mi calificación después de haberla enviado?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   Sí, puedes actualizar tu calificación en cualquier momento. Tu nueva calificación reemplazará la anterior.
                 </p>
               </details>
 
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Otros usuarios pueden ver mis comentarios?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   Sí, todos los comentarios son públicos y visibles para todos los usuarios de la plataforma.
                 </p>
               </details>
 
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Los videos tienen audio?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   Los videos provienen de Pexels y la mayoría no tienen audio original. Por eso ofrecemos subtítulos 
                   descriptivos en español e inglés.
                 </p>
               </details>
 
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Qué navegadores son compatibles?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   La aplicación funciona en todos los navegadores modernos: Chrome, Firefox, Safari, Edge (últimas 2 versiones).
                 </p>
               </details>
 
-              <details className="bg-white/5 p-4 rounded-lg border border-white/10 cursor-pointer">
+              <details className="bg-foreground/5 p-4 rounded-lg border border-foreground/10 cursor-pointer">
                 <summary className="font-semibold text-lightblue">¿Puedo recuperar mi cuenta si la elimino?</summary>
-                <p className="mt-3 text-white/80">
+                <p className="mt-3 text-foreground/80">
                   No, la eliminación de cuenta es permanente e irreversible. Todos tus datos serán eliminados.
                 </p>
               </details>
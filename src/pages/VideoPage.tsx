@@ -13,9 +13,28 @@ import RatingStatsModal from "../components/RatingStatsModal";
 import CommentCard from "../components/CommentCard";
 import CommentModal from "../components/CommentModal";
 import DeleteCommentModal from "../components/DeleteCommentModal";
+import RequestError from "../components/RequestError";
+import VideoPlayer from "../components/VideoPlayer";
 import useUserStore from "../stores/useUserStore";
-import { pexelsService } from "../services/pexels.service";
+import useWatchHistoryStore from "../stores/useWatchHistoryStore";
+import useUserRatingsStore from "../stores/useUserRatingsStore";
+import { pexelsService, type RatingStats } from "../services/pexels.service";
+import { getApiErrorKind, isAbortError, type ApiErrorKind } from "../services/http.client";
 import type { PexelsVideo, Comment } from "../types/pexels.types";
+import type { PlayerCaptionTrack, VideoPlayerHandle } from "../types/player.types";
+import { getVideoTitle } from "../utils/recommendations";
+import { formatPlayerTime } from "../utils/player";
+import { useVideoQuality } from "../hooks/useVideoQuality";
+import { usePlaybackResume } from "../hooks/usePlaybackResume";
+
+/**
+ * Subtitles offered for every video
+ * @constant
+ */
+const VIDEO_CAPTIONS: PlayerCaptionTrack[] = [
+  { src: "/subtitles/generic-es.vtt", srcLang: "es", label: "Español", default: true },
+  { src: "/subtitles/generic-en.vtt", srcLang: "en", label: "English" },
+];
 
 /**
  * Video playback page component
@@ -37,7 +56,8 @@ import type { PexelsVideo, Comment } from "../types/pexels.types";
  * ```
  * 
  * Features:
- * - HTML5 video player with controls
+ * - Custom accessible video player (VideoPlayer) with Spanish subtitles by default
+ * - Quality menu with every video file; "Auto" adapts to the screen and the connection
  * - Video information (author, duration, dimensions)
  * - "Like" system with toggle (add/remove)
  * - Synchronization with global favorites state
@@ -46,11 +66,14 @@ import type { PexelsVideo, Comment } from "../types/pexels.types";
  * - Responsive layout (column on mobile, 2 columns on desktop)
  * - Navigation from VideoCard using _id (MongoDB)
  * - Comments planned for future sprint
+ * - Records the video in the user's watch history
+ * - Saves the playback position and offers to resume from it on return
+ * - Remembers the user's rating locally to feed the recommendations
  * 
  * Managed states:
  * - video: Complete information of current video
  * - loading: Video loading state
- * - error: Error message if loading fails
+ * - error: Kind of error if loading fails (not found, session expired, unreachable...)
  * - isLiking: Indicates if a like/unlike is being processed
  * - hasLiked: Indicates if user already liked the video
  * 
@@ -70,12 +93,13 @@ import type { PexelsVideo, Comment } from "../types/pexels.types";
 const VideoPage: React.FC = () => {
   const { videoId } = useParams<{ videoId: string }>();
   const navigate = useNavigate();
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
   const { user, updateMoviesLiked } = useUserStore();
+  const userId = user?.id;
   
   const [video, setVideo] = useState<PexelsVideo | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiErrorKind | null>(null);
   const [relatedTag, setRelatedTag] = useState<string>("");
   const [isLiking, setIsLiking] = useState(false);
   const [hasLiked, setHasLiked] = useState(false);
@@ -83,15 +107,7 @@ const VideoPage: React.FC = () => {
   const [isRating, setIsRating] = useState(false);
   const [userRating, setUserRating] = useState<number | null>(null);
   const [showStatsModal, setShowStatsModal] = useState(false);
-  const [ratingStats, setRatingStats] = useState<{
-    averageRating: number;
-    totalRatings: number;
-    ratings: Array<{
-      userId: string;
-      rating: number;
-      createdAt: string;
-    }>;
-  } | null>(null);
+  const [ratingStats, setRatingStats] = useState<RatingStats | null>(null);
   const [isDeletingRating, setIsDeletingRating] = useState(false);
   
   // Comments states
@@ -105,25 +121,32 @@ const VideoPage: React.FC = () => {
   const [deletingCommentId, setDeletingCommentId] = useState<string | null>(null);
   const [isCommentProcessing, setIsCommentProcessing] = useState(false);
 
+  // File played and quality menu (remembered choice or automatic)
+  const { src: videoUrl, ...videoQuality } = useVideoQuality(video);
+
+  // Saved playback position and the "resume" offer
+  const { resumePosition, resume, startOver } = usePlaybackResume(video, playerRef);
+
   /**
    * Loads comments for the video
    * Sorts to show user's comments first
    * 
    * @async
    * @param {string} id - Video ID
+   * @param {AbortSignal} [signal] - Cancels the request when the video changes
    */
-  const loadComments = useCallback(async (id: string) => {
+  const loadComments = useCallback(async (id: string, signal?: AbortSignal) => {
     try {
       setLoadingComments(true);
       console.log('Loading comments for video:', id);
-      const fetchedComments = await pexelsService.getComments(id);
+      const fetchedComments = await pexelsService.getComments(id, { signal });
       console.log('Comments fetched from backend:', fetchedComments);
       
       // Sort comments: user's comments first, then by date
       const sortedComments = [...fetchedComments].sort((a, b) => {
         // User's comments first (use userId from backend)
-        if (user && a.userId === user.id && b.userId !== user.id) return -1;
-        if (user && b.userId === user.id && a.userId !== user.id) return 1;
+        if (userId && a.userId === userId && b.userId !== userId) return -1;
+        if (userId && b.userId === userId && a.userId !== userId) return 1;
         
         // Then sort by date (newest first)
         return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
@@ -132,25 +155,29 @@ const VideoPage: React.FC = () => {
       console.log('Comments sorted and ready to display:', sortedComments.length);
       setComments(sortedComments);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error loading comments:", err);
     } finally {
-      setLoadingComments(false);
+      if (!signal?.aborted) setLoadingComments(false);
     }
-  }, [user]);
+  }, [userId]);
 
   /**
    * Effect: Loads video when videoId changes
    * Extracts a tag to show related videos
    * Checks if user already liked this video
+   * Requests for the previous video are cancelled so they can't overwrite the new one
    */
   useEffect(() => {
+    const controller = new AbortController();
     if (videoId) {
-      loadVideo(videoId);
-      loadComments(videoId);
+      loadVideo(videoId, controller.signal);
+      loadComments(videoId, controller.signal);
     }
     
     // Scroll to top when loading page
     window.scrollTo(0, 0);
+    return () => controller.abort();
   }, [videoId, loadComments]);
   
   /**
@@ -170,18 +197,32 @@ const VideoPage: React.FC = () => {
    * 
    * @async
    * @param {string} id - Pexels video ID
+   * @param {AbortSignal} [signal] - Cancels the requests when the video changes
    */
-  const loadVideo = async (id: string) => {
+  const loadVideo = async (id: string, signal?: AbortSignal) => {
     try {
       setLoading(true);
       setError(null);
       
-      const videoData = await pexelsService.getVideoById(id);
+      // Copy the cached video so the rating fields below don't mutate the cache
+      const videoData = {
+        ...(await pexelsService.getVideoById(id, {
+          signal,
+          // Fresher data arrived in the background: keep the rating already loaded
+          onRevalidate: (fresh) =>
+            setVideo((current) =>
+              current && current._id === fresh._id
+                ? { ...fresh, averageRating: current.averageRating, totalRatings: current.totalRatings }
+                : current
+            ),
+        })),
+      };
       
       // Load rating statistics to get both average and user's rating
+      let loadedUserRating: number | null = null;
       if (user) {
         try {
-          const stats = await pexelsService.getRatingStats(id);
+          const stats = await pexelsService.getRatingStats(id, { signal });
           videoData.averageRating = stats.averageRating;
           videoData.totalRatings = stats.totalRatings;
           
@@ -189,12 +230,14 @@ const VideoPage: React.FC = () => {
           const userRatingData = stats.ratings.find(r => r.userId === user.id);
           if (userRatingData) {
             console.log('User rating found:', userRatingData.rating);
+            loadedUserRating = userRatingData.rating;
             setUserRating(userRatingData.rating);
           } else {
             console.log('No user rating found');
             setUserRating(null);
           }
         } catch (error) {
+          if (isAbortError(error)) throw error;
           console.log('No rating data available for this video:', error);
           videoData.averageRating = 0;
           videoData.totalRatings = 0;
@@ -203,10 +246,11 @@ const VideoPage: React.FC = () => {
       } else {
         // If no user is logged in, just load basic rating info
         try {
-          const ratingData = await pexelsService.getVideoRating(id);
+          const ratingData = await pexelsService.getVideoRating(id, { signal });
           videoData.averageRating = ratingData.averageRating;
           videoData.totalRatings = ratingData.totalRatings;
-        } catch {
+        } catch (error) {
+          if (isAbortError(error)) throw error;
           videoData.averageRating = 0;
           videoData.totalRatings = 0;
         }
@@ -214,7 +258,12 @@ const VideoPage: React.FC = () => {
         setUserRating(null);
       }
       
+      if (signal?.aborted) return;
       setVideo(videoData);
+      if (user) {
+        useWatchHistoryStore.getState().addEntry(user.id, videoData);
+        useUserRatingsStore.getState().setRating(user.id, videoData, loadedUserRating);
+      }
       
       // Extract a tag for related videos
       // Since Pexels doesn't have direct tags, we'll use the URL to extract a keyword
@@ -228,10 +277,11 @@ const VideoPage: React.FC = () => {
       }
       
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error loading video:", err);
-      setError("Could not load video");
+      setError(getApiErrorKind(err));
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -325,6 +375,7 @@ const VideoPage: React.FC = () => {
       
       // Update user's rating
       setUserRating(rating);
+      if (user && video) useUserRatingsStore.getState().setRating(user.id, video, rating);
       
       // Close modal
       setShowRatingModal(false);
@@ -413,6 +464,7 @@ const VideoPage: React.FC = () => {
       
       // Clear user's rating
       setUserRating(null);
+      if (user && video) useUserRatingsStore.getState().setRating(user.id, video, null);
       
       // Close stats modal
       setShowStatsModal(false);
@@ -581,7 +633,7 @@ const VideoPage: React.FC = () => {
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
-        <div className="text-white text-xl">Loading video...</div>
+        <div className="text-foreground text-xl">Loading video...</div>
       </div>
     );
   }
@@ -589,13 +641,12 @@ const VideoPage: React.FC = () => {
   if (error || !video) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen gap-4">
-        <div className="text-red text-xl">{error || "Video no encontrado"}</div>
-        <button
-          onClick={handleGoBack}
-          className="px-6 py-2 bg-blue text-white rounded hover:bg-lightblue transition cursor-pointer"
-        >
-          Volver
-        </button>
+        <RequestError
+          kind={error || "not-found"}
+          notFoundMessage="Video no encontrado"
+          onRetry={() => videoId && loadVideo(videoId)}
+          onBack={handleGoBack}
+        />
       </div>
     );
   }
@@ -604,7 +655,6 @@ const VideoPage: React.FC = () => {
   console.log('Video completo en VideoPage:', video);
   console.log('video_files:', video.video_files);
 
-  const videoUrl = pexelsService.getVideoHDUrl(video);
   console.log('URL del video obtenida:', videoUrl);
 
   return (
@@ -613,33 +663,17 @@ const VideoPage: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 my-8">
         {/* Columna Izquierda: Reproductor (2/3 en desktop) */}
         <div className="lg:col-span-2">
-          <div className="bg-black rounded-lg overflow-hidden">
+          <div className="relative bg-black rounded-lg overflow-hidden">
             {videoUrl ? (
-              <video
-                ref={videoRef}
-                className="w-full aspect-video"
-                controls
-                autoPlay
+              <VideoPlayer
+                ref={playerRef}
                 src={videoUrl}
-                crossOrigin="anonymous"
-              >
-                {/* Subtítulos en Español */}
-                <track
-                  kind="subtitles"
-                  src="/subtitles/generic-es.vtt"
-                  srcLang="es"
-                  label="Español"
-                  default
-                />
-                {/* Subtítulos en Inglés */}
-                <track
-                  kind="subtitles"
-                  src="/subtitles/generic-en.vtt"
-                  srcLang="en"
-                  label="English"
-                />
-                Your browser does not support the video element.
-              </video>
+                poster={video.image}
+                title={getVideoTitle(video.url, video.user.name)}
+                captions={VIDEO_CAPTIONS}
+                {...videoQuality}
+                autoPlay
+              />
             ) : (
               <div className="w-full aspect-video flex flex-col items-center justify-center bg-gray-800 text-white">
                 <svg
@@ -669,17 +703,37 @@ const VideoPage: React.FC = () => {
                 </a>
               </div>
             )}
+
+            {/* Offer to continue where the user left the video */}
+            {videoUrl && resumePosition !== null && (
+              <div className="absolute top-3 left-3 z-10 flex items-center gap-2 rounded-lg bg-black/80 p-2 text-sm text-white">
+                <button
+                  type="button"
+                  onClick={resume}
+                  className="px-3 py-1.5 bg-blue text-white rounded hover:bg-lightblue transition focus-visible:outline-2 focus-visible:outline-white"
+                >
+                  Reanudar desde {formatPlayerTime(resumePosition)}
+                </button>
+                <button
+                  type="button"
+                  onClick={startOver}
+                  className="px-3 py-1.5 rounded hover:bg-white/10 transition focus-visible:outline-2 focus-visible:outline-white"
+                >
+                  Desde el inicio
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Columna Derecha: Información del Video (1/3 en desktop) */}
         <div className="lg:col-span-1">
-          <div className="bg-white/5 rounded-lg p-6 border border-white/10">
-            <h2 className="text-xl font-semibold text-white mb-4">Información del Video</h2>
+          <div className="bg-foreground/5 rounded-lg p-6 border border-foreground/10">
+            <h2 className="text-xl font-semibold text-foreground mb-4">Información del Video</h2>
             
             {/* Autor */}
             <div className="mb-4">
-              <p className="text-white/60 text-sm">Autor</p>
+              <p className="text-foreground/60 text-sm">Autor</p>
               <a 
                 href={video.user.url} 
                 target="_blank" 
@@ -692,8 +746,8 @@ const VideoPage: React.FC = () => {
 
             {/* Duración */}
             <div className="mb-4">
-              <p className="text-white/60 text-sm">Duración</p>
-              <div className="flex items-center gap-2 text-white">
+              <p className="text-foreground/60 text-sm">Duración</p>
+              <div className="flex items-center gap-2 text-foreground">
                 <svg
                   width="20"
                   height="20"
@@ -714,15 +768,15 @@ const VideoPage: React.FC = () => {
 
             {/* Resolución */}
             <div className="mb-4">
-              <p className="text-white/60 text-sm">Resolución</p>
-              <p className="text-white">{video.width} x {video.height}px</p>
+              <p className="text-foreground/60 text-sm">Resolución</p>
+              <p className="text-foreground">{video.width} x {video.height}px</p>
             </div>
 
             {/* Estadísticas */}
-            <div className="border-t border-white/10 pt-4 mt-4">
+            <div className="border-t border-foreground/10 pt-4 mt-4">
               <div className="flex flex-col gap-3">
                 <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2 text-white/80">
+                  <div className="flex items-center gap-2 text-foreground/80">
                     <svg
                       width="20"
                       height="20"
@@ -738,7 +792,7 @@ const VideoPage: React.FC = () => {
                     </svg>
                     <span>Rating</span>
                   </div>
-                  <span className="text-white font-semibold">
+                  <span className="text-foreground font-semibold">
                     {video.totalRatings && video.totalRatings > 0 && (
                       <button
                         onClick={handleOpenStatsModal}
@@ -754,7 +808,7 @@ const VideoPage: React.FC = () => {
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2 text-white/80">
+                  <div className="flex items-center gap-2 text-foreground/80">
                     <svg
                       width="20"
                       height="20"
@@ -770,7 +824,7 @@ const VideoPage: React.FC = () => {
                     </svg>
                     <span>Favoritos</span>
                   </div>
-                  <span className="text-white font-semibold">{video.likesCount || 0}</span>
+                  <span className="text-foreground font-semibold">{video.likesCount || 0}</span>
                 </div>
               </div>
               
@@ -851,10 +905,10 @@ const VideoPage: React.FC = () => {
       />
 
       {/* Sección de Comentarios */}
-      <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <div className="bg-foreground/5 rounded-lg p-6 border border-foreground/10 mb-8">
         {/* Header with title and add button */}
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-white">
+          <h2 className="text-xl font-semibold text-foreground">
             Comentarios {comments.length > 0 && `(${comments.length})`}
           </h2>
           <button
@@ -889,13 +943,13 @@ const VideoPage: React.FC = () => {
         {/* Comments loading state */}
         {loadingComments && (
           <div className="text-center py-8">
-            <div className="text-white/60">Cargando comentarios...</div>
+            <div className="text-foreground/60">Cargando comentarios...</div>
           </div>
         )}
 
         {/* No comments state */}
         {!loadingComments && comments.length === 0 && (
-          <div className="text-white/60 text-center py-8">
+          <div className="text-foreground/60 text-center py-8">
             <svg
               className="mx-auto mb-3"
               width="48"
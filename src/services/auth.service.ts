@@ -1,6 +1,7 @@
 /**
  * Authentication service to interact with the backend
- * Handles login, registration, token verification, password recovery and user management
+ * Handles login, registration, token verification, password recovery, user management
+ * and the preferences stored in the user profile
  * 
  * @module authService
  */
@@ -15,6 +16,9 @@ import type {
   ChangePasswordData,
   User,
 } from "../types/auth.types.js";
+import type { UserPreferences } from "../types/preferences.types";
+import { ApiError, ContractError, httpClient } from "./http.client";
+import { normalizeAuthResponse, normalizeUser, normalizeUserPreferences } from "../utils/normalizers";
 
 /**
  * Backend base URL obtained from environment variables
@@ -22,39 +26,6 @@ import type {
  */
 const API_URL = import.meta.env.VITE_API_URL;
 
-/**
- * Handles HTTP request responses
- * Parses backend errors and throws exceptions with descriptive messages
- * 
- * @async
- * @param {Response} response - Fetch response
- * @returns {Promise<any>} Parsed JSON response
- * @throws {Error} If response is not successful (status code >= 400)
- */
-const handleResponse = async (response: Response) => {
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({
-      message: "Request error",
-    }));
-    throw new Error(error.message || error.error || `Error ${response.status}: ${response.statusText}`);
-  }
-  return response.json();
-};
-
-/**
- * Gets authentication headers with JWT token
- * Includes token from localStorage if it exists
- * 
- * @returns {Object} Headers with Content-Type and Authorization (if token exists)
- */
-const getAuthHeaders = () => {
-  const token = localStorage.getItem("token");
-  return {
-    "Content-Type": "application/json",
-    ...(token && { Authorization: `Bearer ${token}` }),
-  };
-};
-
 /**
  * Authentication and user management service
  * @namespace authService
@@ -65,18 +36,17 @@ export const authService = {
    * @async
    * @param {LoginCredentials} credentials - User's email and password
    * @returns {Promise<AuthResponse>} Authenticated user and JWT token
-   * @throws {Error} If credentials are invalid
+   * @throws {ApiError} If credentials are invalid
+   * @throws {ContractError} If the response has no valid user or token
    * @example
    * const { user, token } = await authService.login({ email: 'user@example.com', password: '123456' });
    */
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    const response = await fetch(`${API_URL}/auth/login`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(credentials),
+    const response = await httpClient.post<unknown>(`${API_URL}/auth/login`, {
+      body: credentials,
+      auth: false,
     });
-    
-    return handleResponse(response);
+    return normalizeAuthResponse(response);
   },
 
   /**
@@ -84,17 +54,17 @@ export const authService = {
    * @async
    * @param {RegisterData} data - New user data (name, email, password, age)
    * @returns {Promise<AuthResponse>} Registered user and JWT token
-   * @throws {Error} If email is already registered or data is invalid
+   * @throws {ApiError} If email is already registered or data is invalid
+   * @throws {ContractError} If the response has no valid user or token
    * @example
    * const { user, token } = await authService.register({ name: 'Juan', email: 'juan@example.com', password: '123456', age: 25 });
    */
   async register(data: RegisterData): Promise<AuthResponse> {
-    const response = await fetch(`${API_URL}/auth/register`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
+    const response = await httpClient.post<unknown>(`${API_URL}/auth/register`, {
+      body: data,
+      auth: false,
     });
-    return handleResponse(response);
+    return normalizeAuthResponse(response);
   },
 
   /**
@@ -102,17 +72,14 @@ export const authService = {
    * Used for auto-login when loading the application
    * @async
    * @returns {Promise<User>} User data if token is valid
-   * @throws {Error} If token is invalid or expired
+   * @throws {ApiError} If token is invalid or expired
+   * @throws {ContractError} If the response has no valid user
    * @example
    * const user = await authService.verifyToken();
    */
   async verifyToken(): Promise<User> {
-    const response = await fetch(`${API_URL}/auth/verify`, {
-      method: "GET",
-      headers: getAuthHeaders(),
-    });
-    
-    return handleResponse(response);
+    const user = await httpClient.get<unknown>(`${API_URL}/auth/verify`);
+    return normalizeUser(user);
   },
 
   /**
@@ -120,17 +87,15 @@ export const authService = {
    * @async
    * @param {ForgotPasswordData} data - User's email
    * @returns {Promise<{message: string}>} Confirmation message
-   * @throws {Error} If email is not registered
+   * @throws {ApiError} If email is not registered
    * @example
    * await authService.forgotPassword({ email: 'user@example.com' });
    */
   async forgotPassword(data: ForgotPasswordData): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/auth/forgot-password`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
+    return httpClient.post<{ message: string }>(`${API_URL}/auth/forgot-password`, {
+      body: data,
+      auth: false,
     });
-    return handleResponse(response);
   },
 
   /**
@@ -138,36 +103,71 @@ export const authService = {
    * @async
    * @param {ResetPasswordData} data - Reset token and new password
    * @returns {Promise<{message: string}>} Confirmation message
-   * @throws {Error} If token is invalid or expired
+   * @throws {ApiError} If token is invalid or expired
    * @example
    * await authService.resetPassword({ token: 'reset-token-123', newPassword: 'newpass123' });
    */
   async resetPassword(data: ResetPasswordData): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/auth/reset-password`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
+    return httpClient.post<{ message: string }>(`${API_URL}/auth/reset-password`, {
+      body: data,
+      auth: false,
     });
-    return handleResponse(response);
   },
 
   /**
    * Updates user profile data
+   * The change is already applied when the response arrives, so a body without a
+   * valid user (e.g. `{ message }`) doesn't fail: the submitted data is returned instead
    * @async
    * @param {string} userId - ID of user to update
    * @param {UpdateUserData} data - Data to update (name, email, age)
-   * @returns {Promise<User>} Updated user
-   * @throws {Error} If user doesn't exist or data is invalid
+   * @returns {Promise<Partial<User>>} Updated user, or the submitted data
+   * @throws {ApiError} If user doesn't exist or data is invalid
    * @example
    * const updatedUser = await authService.updateUser('user-id-123', { name: 'Juan Carlos' });
    */
-  async updateUser(userId: string, data: UpdateUserData): Promise<User> {
-    const response = await fetch(`${API_URL}/users/${userId}`, {
-      method: "PUT",
-      headers: getAuthHeaders(),
-      body: JSON.stringify(data),
-    });
-    return handleResponse(response);
+  async updateUser(userId: string, data: UpdateUserData): Promise<Partial<User>> {
+    const response = await httpClient.put<unknown>(`${API_URL}/users/${userId}`, { body: data });
+    try {
+      return normalizeUser(response);
+    } catch (err) {
+      if (!(err instanceof ContractError)) throw err;
+      console.warn("Profile update response has no valid user, using the submitted data:", err.message);
+      return { ...data };
+    }
+  },
+
+  /**
+   * Gets the preferences stored in the user profile
+   * @async
+   * @param {string} userId - User ID
+   * @param {AbortSignal} [signal] - Cancels the request
+   * @returns {Promise<UserPreferences>} Preferences (homeLayout is null if never customized)
+   * @throws {ApiError} If the user doesn't exist or the token is invalid
+   * @throws {ContractError} If the response is not an object
+   * @example
+   * const { homeLayout } = await authService.getPreferences('user-id-123');
+   */
+  async getPreferences(userId: string, signal?: AbortSignal): Promise<UserPreferences> {
+    const response = await httpClient.get<unknown>(`${API_URL}/users/${userId}/preferences`, { signal });
+    return normalizeUserPreferences(response);
+  },
+
+  /**
+   * Updates the preferences stored in the user profile
+   * Only the provided preferences are replaced
+   * @async
+   * @param {string} userId - User ID
+   * @param {Partial<UserPreferences>} data - Preferences to replace
+   * @returns {Promise<UserPreferences>} All the stored preferences
+   * @throws {ApiError} If the user doesn't exist or the token is invalid
+   * @throws {ContractError} If the response is not an object
+   * @example
+   * await authService.updatePreferences('user-id-123', { homeLayout: { carousels, updatedAt } });
+   */
+  async updatePreferences(userId: string, data: Partial<UserPreferences>): Promise<UserPreferences> {
+    const response = await httpClient.put<unknown>(`${API_URL}/users/${userId}/preferences`, { body: data });
+    return normalizeUserPreferences(response);
   },
 
   /**
@@ -177,34 +177,26 @@ export const authService = {
    * @param {string} userId - User ID
    * @param {ChangePasswordData} data - Current password and new password
    * @returns {Promise<{message: string}>} Confirmation message
-   * @throws {Error} If current password is incorrect
+   * @throws {ApiError} If current password is incorrect
    * @example
    * await authService.changePassword('user-id-123', { currentPassword: 'old123', newPassword: 'new456' });
    */
   async changePassword( data: ChangePasswordData): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/auth/change-password`, {
-      method: "POST",
-      headers: getAuthHeaders(),
-      body: JSON.stringify(data),
-    });
-    return handleResponse(response);
+    return httpClient.post<{ message: string }>(`${API_URL}/auth/change-password`, { body: data });
   },
 
   /**
    * Permanently deletes user account
+   * The response body is ignored: the account is gone once the request succeeds
    * @async
    * @param {User} data - User data to delete
-   * @returns {Promise<User>} Deleted user
-   * @throws {Error} If user doesn't exist
+   * @returns {Promise<void>}
+   * @throws {ApiError} If user doesn't exist
    * @example
    * await authService.deleteAccount(currentUser);
    */
-  async deleteAccount(data: User): Promise<User> {
-    const response = await fetch(`${API_URL}/users/${data.id}`, {
-      method: "DELETE",
-      headers: getAuthHeaders(),
-    });
-    return handleResponse(response);
+  async deleteAccount(data: User): Promise<void> {
+    await httpClient.delete<unknown>(`${API_URL}/users/${data.id}`);
   },
 
   /**
@@ -218,13 +210,29 @@ export const authService = {
    */
   async logout(): Promise<void> {
     try {
-      await fetch(`${API_URL}/auth/logout`, {
-        method: "POST",
-        headers: getAuthHeaders(),
-      });
+      await httpClient.post<void>(`${API_URL}/auth/logout`);
     } catch (error) {
       // Even if it fails, we clear the local token
       console.error("Logout error:", error);
     }
   },
+
+  /**
+   * Wakes the backend up before the user submits a form
+   * Sends an unauthenticated GET, which is retried while the server starts.
+   * Any HTTP answer (even 401) means the server is running
+   * @async
+   * @param {AbortSignal} [signal] - Stops waiting when the page is left
+   * @returns {Promise<boolean>} True if the server answered
+   * @example
+   * const awake = await authService.wakeServer(controller.signal);
+   */
+  async wakeServer(signal?: AbortSignal): Promise<boolean> {
+    try {
+      await httpClient.get<unknown>(`${API_URL}/auth/verify`, { auth: false, signal });
+      return true;
+    } catch (error) {
+      return error instanceof ApiError && error.status !== 0;
+    }
+  },
 };
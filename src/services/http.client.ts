@@ -0,0 +1,513 @@
+/**
+ * Shared HTTP client used by every backend service
+ * Builds headers, serializes bodies and turns failed responses into ApiError
+ *
+ * @module httpClient
+ */
+
+/**
+ * HTTP methods used by the backend API
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * Description of the request that produced an ApiError
+ * @interface ApiRequestInfo
+ * @property {HttpMethod} method - HTTP method of the request
+ * @property {string} url - Full URL that was requested
+ */
+export interface ApiRequestInfo {
+  method: HttpMethod;
+  url: string;
+}
+
+/**
+ * Options accepted by every httpClient method
+ * @interface RequestOptions
+ * @property {unknown} [body] - Payload serialized as JSON
+ * @property {Record<string, string>} [headers] - Extra headers merged over the defaults
+ * @property {boolean} [auth] - Whether to send the stored JWT (default: true)
+ * @property {AbortSignal} [signal] - Cancels the request when aborted
+ * @property {number} [timeout] - Milliseconds to wait for each attempt (default: VITE_REQUEST_TIMEOUT or 20s)
+ * @property {number} [retries] - Extra attempts after a network error, timeout or 502/503/504 (default: 5 for GET, 0 otherwise)
+ */
+export interface RequestOptions {
+  body?: unknown;
+  headers?: Record<string, string>;
+  auth?: boolean;
+  signal?: AbortSignal;
+  timeout?: number;
+  retries?: number;
+}
+
+/**
+ * Backend availability reported while requests are being retried
+ * @interface ServerStatus
+ * @property {"online" | "waking" | "unreachable"} state - "waking" while a request is being retried, "unreachable" when retries ran out
+ * @property {number} attempt - Attempt about to be sent (1-based), 0 when online
+ * @property {number} maxAttempts - Total attempts allowed for the retried request
+ * @property {number} retryInMs - Delay before the next attempt
+ */
+export interface ServerStatus {
+  state: "online" | "waking" | "unreachable";
+  attempt: number;
+  maxAttempts: number;
+  retryInMs: number;
+}
+
+/**
+ * Broad error categories pages use to pick what to show the user
+ */
+export type ApiErrorKind = "network" | "unauthorized" | "not-found" | "server" | "invalid-response" | "unknown";
+
+/**
+ * Error thrown by httpClient for any failed request
+ * A status of 0 means the server could not be reached at all
+ *
+ * @example
+ * try {
+ *   await pexelsService.getVideoById(id);
+ * } catch (err) {
+ *   if (err instanceof ApiError && err.status === 404) showNotFound();
+ * }
+ */
+export class ApiError extends Error {
+  /** HTTP status code, 0 for network failures */
+  readonly status: number;
+  /** Machine readable error code sent by the backend, if any */
+  readonly code: string | null;
+  /** Validation messages indexed by field name */
+  readonly fieldErrors: Record<string, string>;
+  /** Request that failed */
+  readonly request: ApiRequestInfo;
+
+  constructor(
+    message: string,
+    status: number,
+    request: ApiRequestInfo,
+    code: string | null = null,
+    fieldErrors: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.request = request;
+  }
+}
+
+/**
+ * Error thrown when a successful response doesn't have the expected shape
+ * Raised by the normalizers so pages can show a clear message instead of crashing while rendering
+ *
+ * @example
+ * throw new ContractError("video", "missing _id", raw);
+ */
+export class ContractError extends Error {
+  /** Name of the payload that failed validation (e.g. "video", "auth response") */
+  readonly entity: string;
+  /** Value that was received */
+  readonly received: unknown;
+
+  constructor(entity: string, reason: string, received: unknown) {
+    super(`Unexpected ${entity} from the backend: ${reason}`);
+    this.name = "ContractError";
+    this.entity = entity;
+    this.received = received;
+  }
+}
+
+/**
+ * Classifies any thrown value into an ApiErrorKind
+ *
+ * @param {unknown} error - Value caught from a service call
+ * @returns {ApiErrorKind} Category of the error
+ * @example
+ * setError(getApiErrorKind(err)); // "not-found"
+ */
+export const getApiErrorKind = (error: unknown): ApiErrorKind => {
+  if (error instanceof ContractError) return "invalid-response";
+  if (!(error instanceof ApiError)) return "unknown";
+  if (error.status === 0) return "network";
+  if (error.status === 401) return "unauthorized";
+  if (error.status === 404) return "not-found";
+  if (error.status >= 500) return "server";
+  return "unknown";
+};
+
+/**
+ * Checks whether a thrown value comes from an aborted request
+ * Aborted requests are superseded on purpose and should not be shown as errors
+ *
+ * @param {unknown} error - Value caught from a service call
+ * @returns {boolean} True if the request was cancelled
+ * @example
+ * catch (err) {
+ *   if (isAbortError(err)) return;
+ * }
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
+
+/**
+ * Default time (ms) to wait for the server to answer a single attempt
+ * @constant {number}
+ */
+const DEFAULT_TIMEOUT = Number(import.meta.env.VITE_REQUEST_TIMEOUT) || 20_000;
+
+/**
+ * Default extra attempts for GET requests
+ * With the backoff below they cover the ~50s a sleeping Render instance needs to start
+ * @constant {number}
+ */
+const DEFAULT_GET_RETRIES = 5;
+
+/**
+ * Backoff limits (ms) between attempts
+ * @constant {number}
+ */
+const BASE_RETRY_DELAY = 1_000;
+const MAX_RETRY_DELAY = 15_000;
+
+/**
+ * Statuses returned by the hosting proxy while the backend is starting
+ * @constant {number[]}
+ */
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Function used to send requests
+ * With VITE_MOCK_BACKEND="true" every request is answered in the browser by mockBackend,
+ * loaded on demand so production builds don't include it
+ * @constant {Function}
+ */
+const transport: (url: string, init: RequestInit) => Promise<Response> =
+  import.meta.env.VITE_MOCK_BACKEND === "true"
+    ? async (url, init) => (await import("../mocks/mockBackend")).mockFetch(url, init)
+    : (url, init) => fetch(url, init);
+
+/**
+ * Callback invoked when an authenticated request is rejected with 401
+ * Registered by useUserStore to end the expired session
+ */
+let unauthorizedHandler: ((error: ApiError) => void) | null = null;
+
+/**
+ * Callback invoked when the backend availability changes
+ * Registered by useServerStatusStore to show the "waking the server" banner
+ */
+let serverStatusHandler: ((status: ServerStatus) => void) | null = null;
+
+/**
+ * Gets default headers, including the JWT token stored in localStorage
+ *
+ * @param {boolean} auth - Whether to include the Authorization header
+ * @returns {Record<string, string>} Request headers
+ */
+const getHeaders = (auth: boolean): Record<string, string> => {
+  const token = auth ? localStorage.getItem("token") : null;
+  return {
+    "Content-Type": "application/json",
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+};
+
+/**
+ * Normalizes the field errors sent by the backend
+ * Accepts both `[{ field, message }]` arrays (express-validator style) and plain objects
+ *
+ * @param {unknown} errors - Raw `errors` property of the error body
+ * @returns {Record<string, string>} Messages indexed by field name
+ */
+const parseFieldErrors = (errors: unknown): Record<string, string> => {
+  const result: Record<string, string> = {};
+
+  if (Array.isArray(errors)) {
+    for (const item of errors) {
+      const field = item?.field ?? item?.path ?? item?.param;
+      const message = item?.message ?? item?.msg;
+      if (typeof field === "string" && typeof message === "string") {
+        result[field] = message;
+      }
+    }
+  } else if (errors && typeof errors === "object") {
+    for (const [field, message] of Object.entries(errors)) {
+      if (typeof message === "string") result[field] = message;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Parses a response body as JSON without failing on empty or non-JSON bodies
+ *
+ * @async
+ * @param {Response} response - Fetch response
+ * @returns {Promise<unknown>} Parsed body or null
+ */
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Builds an ApiError from a failed response
+ *
+ * @async
+ * @param {Response} response - Response with status >= 400
+ * @param {ApiRequestInfo} request - Request that failed
+ * @returns {Promise<ApiError>} Structured error
+ */
+const toApiError = async (response: Response, request: ApiRequestInfo): Promise<ApiError> => {
+  const body = await readBody(response).catch(() => null);
+  const data = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+
+  const message =
+    (typeof data.message === "string" && data.message) ||
+    (typeof data.error === "string" && data.error) ||
+    (typeof body === "string" && body) ||
+    `Error ${response.status}: ${response.statusText}`;
+  const code = typeof data.code === "string" ? data.code : null;
+
+  return new ApiError(message, response.status, request, code, parseFieldErrors(data.errors));
+};
+
+/**
+ * Checks whether a failed attempt is worth repeating
+ * Only covers failures caused by the server not being up yet
+ *
+ * @param {unknown} error - Error thrown by a single attempt
+ * @returns {boolean} True for network errors, timeouts and 502/503/504
+ */
+const isRetryable = (error: unknown): boolean =>
+  error instanceof ApiError && (error.status === 0 || RETRYABLE_STATUSES.includes(error.status));
+
+/**
+ * Gets the delay before the next attempt: exponential backoff with jitter
+ * so that many tabs waking the same server don't retry in lockstep
+ *
+ * @param {number} retry - Number of retries already made (0-based)
+ * @returns {number} Delay in milliseconds
+ */
+const getRetryDelay = (retry: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** retry);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Waits for the given time unless the signal aborts first
+ *
+ * @param {number} ms - Milliseconds to wait
+ * @param {AbortSignal} [signal] - Caller's signal
+ * @returns {Promise<void>} Resolves after the delay, rejects with the abort reason
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Sends a single attempt of a request
+ *
+ * @async
+ * @param {ApiRequestInfo} info - Method and URL
+ * @param {RequestInit} init - Fetch options without signal
+ * @param {number} timeout - Milliseconds to wait for the response
+ * @param {AbortSignal} [signal] - Caller's signal
+ * @returns {Promise<Response>} Response of any status
+ * @throws {ApiError} With status 0 if the server can't be reached or doesn't answer in time
+ */
+const send = async (
+  info: ApiRequestInfo,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", abort, { once: true });
+  const timer = setTimeout(() => controller.abort(new DOMException("Request timed out", "TimeoutError")), timeout);
+
+  try {
+    return await transport(info.url, { ...init, signal: controller.signal });
+  } catch (error) {
+    // Cancelled on purpose: let callers recognize it with isAbortError
+    if (signal?.aborted) throw signal.reason;
+    if (controller.signal.aborted) {
+      throw new ApiError(`The server did not answer within ${timeout}ms`, 0, info, "TIMEOUT");
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ApiError(`Could not reach the server: ${reason}`, 0, info, "NETWORK_ERROR");
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+};
+
+/**
+ * Sends a request and returns the parsed JSON body
+ * Failures caused by a sleeping or unreachable server are retried with
+ * exponential backoff (GET only by default, since other methods may not be idempotent)
+ *
+ * @async
+ * @template T
+ * @param {HttpMethod} method - HTTP method
+ * @param {string} url - Full URL
+ * @param {RequestOptions} options - Body, headers, auth flag, abort signal, timeout and retries
+ * @returns {Promise<T>} Parsed response body
+ * @throws {ApiError} If the server can't be reached or answers with status >= 400
+ */
+const request = async <T>(method: HttpMethod, url: string, options: RequestOptions = {}): Promise<T> => {
+  const {
+    body,
+    headers,
+    auth = true,
+    signal,
+    timeout = DEFAULT_TIMEOUT,
+    retries = method === "GET" ? DEFAULT_GET_RETRIES : 0,
+  } = options;
+  const info: ApiRequestInfo = { method, url };
+  const requestHeaders = { ...getHeaders(auth), ...headers };
+  const init: RequestInit = {
+    method,
+    headers: requestHeaders,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  };
+  const maxAttempts = retries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: ApiError;
+    try {
+      const response = await send(info, init, timeout, signal);
+      if (response.ok) {
+        serverStatusHandler?.({ state: "online", attempt: 0, maxAttempts, retryInMs: 0 });
+        return (await readBody(response)) as T;
+      }
+      error = await toApiError(response, info);
+    } catch (sendError) {
+      if (!(sendError instanceof ApiError)) {
+        // Aborted while retrying: this request no longer keeps the banner up
+        if (attempt > 1) serverStatusHandler?.({ state: "online", attempt: 0, maxAttempts, retryInMs: 0 });
+        throw sendError;
+      }
+      error = sendError;
+    }
+
+    if (!isRetryable(error)) {
+      // The server answered, so it is awake even if the request failed
+      if (error.status !== 0) {
+        serverStatusHandler?.({ state: "online", attempt: 0, maxAttempts, retryInMs: 0 });
+      }
+      // Only a request that carried a token can mean the session expired
+      // (a 401 from /auth/login just means wrong credentials)
+      if (error.status === 401 && requestHeaders.Authorization && unauthorizedHandler) {
+        unauthorizedHandler(error);
+      }
+      throw error;
+    }
+
+    if (attempt >= maxAttempts) {
+      if (retries > 0) {
+        serverStatusHandler?.({ state: "unreachable", attempt, maxAttempts, retryInMs: 0 });
+      }
+      throw error;
+    }
+
+    const retryInMs = getRetryDelay(attempt - 1);
+    serverStatusHandler?.({ state: "waking", attempt: attempt + 1, maxAttempts, retryInMs });
+    try {
+      await wait(retryInMs, signal);
+    } catch (abortError) {
+      // Nobody is waiting for this request any more; other retried requests report again on their next failure
+      serverStatusHandler?.({ state: "online", attempt: 0, maxAttempts, retryInMs: 0 });
+      throw abortError;
+    }
+  }
+};
+
+/**
+ * HTTP client shared by authService and pexelsService
+ * @namespace httpClient
+ */
+export const httpClient = {
+  /**
+   * Sends a GET request
+   * @template T
+   * @param {string} url - Full URL
+   * @param {RequestOptions} [options] - Request options
+   * @returns {Promise<T>} Parsed response body
+   */
+  get<T>(url: string, options?: RequestOptions): Promise<T> {
+    return request<T>("GET", url, options);
+  },
+
+  /**
+   * Sends a POST request
+   * @template T
+   * @param {string} url - Full URL
+   * @param {RequestOptions} [options] - Request options
+   * @returns {Promise<T>} Parsed response body
+   */
+  post<T>(url: string, options?: RequestOptions): Promise<T> {
+    return request<T>("POST", url, options);
+  },
+
+  /**
+   * Sends a PUT request
+   * @template T
+   * @param {string} url - Full URL
+   * @param {RequestOptions} [options] - Request options
+   * @returns {Promise<T>} Parsed response body
+   */
+  put<T>(url: string, options?: RequestOptions): Promise<T> {
+    return request<T>("PUT", url, options);
+  },
+
+  /**
+   * Sends a DELETE request
+   * @template T
+   * @param {string} url - Full URL
+   * @param {RequestOptions} [options] - Request options
+   * @returns {Promise<T>} Parsed response body
+   */
+  delete<T>(url: string, options?: RequestOptions): Promise<T> {
+    return request<T>("DELETE", url, options);
+  },
+
+  /**
+   * Registers the callback invoked when an authenticated request gets a 401
+   * Only one handler is kept; registering again replaces the previous one
+   * @param {Function | null} handler - Callback receiving the ApiError
+   * @example
+   * httpClient.onUnauthorized(() => useUserStore.getState().expireSession());
+   */
+  onUnauthorized(handler: ((error: ApiError) => void) | null): void {
+    unauthorizedHandler = handler;
+  },
+
+  /**
+   * Registers the callback invoked when requests start or stop being retried
+   * Only one handler is kept; registering again replaces the previous one
+   * @param {Function | null} handler - Callback receiving the ServerStatus
+   * @example
+   * httpClient.onServerStatus((status) => useServerStatusStore.getState().setStatus(status));
+   */
+  onServerStatus(handler: ((status: ServerStatus) => void) | null): void {
+    serverStatusHandler = handler;
+  },
+};
@@ -1,6 +1,10 @@
 /**
  * Service to interact with backend API to get videos
  * Backend handles communication with Pexels
+ * Video and list reads go through queryCache (stale-while-revalidate);
+ * likes, ratings and comments invalidate the affected entries.
+ * Every response is validated by utils/normalizers, which throws ContractError
+ * when the backend breaks the expected shape
  */
 
 import type {
@@ -8,20 +12,140 @@ import type {
   PexelsVideoSearchResponse,
   PexelsPopularVideosResponse,
   Comment,
+  VideoSearchFilters,
 } from "../types/pexels.types";
+import { ApiError, httpClient, isAbortError, type RequestOptions } from "./http.client";
+import { queryCache, type CachedQueryOptions } from "./query.cache";
+import {
+  normalizeCommentResponse,
+  normalizeComments,
+  normalizeRatingStats,
+  normalizeRatingSummary,
+  normalizeVideoList,
+  normalizeVideoResponse,
+} from "../utils/normalizers";
+import { hasSearchFilters, matchesSearchFilters, toFilterQuery } from "../utils/searchFilters";
+import { getVideoTitle } from "../utils/recommendations";
+import { simplifyText } from "../utils/text";
 
 // Backend URL
 const BACKEND_API_URL = import.meta.env.VITE_BACKEND_URL || "https://oscarrrrrrrr0304-pi-miniproyecto2-backend.onrender.com/api";
 
 /**
- * Common headers for all backend requests
+ * Rating statistics returned by the backend
  */
-const getBackendHeaders = () => {
-  const token = localStorage.getItem("token");
-  return {
-    "Content-Type": "application/json",
-    ...(token && { Authorization: `Bearer ${token}` }),
-  };
+export interface RatingStats {
+  averageRating: number;
+  totalRatings: number;
+  ratings: Array<{
+    userId: string;
+    rating: number;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * Options accepted by the uncached service methods
+ * @property {AbortSignal} [signal] - Cancels the request when aborted
+ */
+export type ServiceOptions = Pick<RequestOptions, "signal">;
+
+/**
+ * Marks a video and every cached list as stale
+ * Lists are included because they embed likesCount and averageRating
+ *
+ * @param {string} videoId - MongoDB ID of the mutated video
+ */
+const invalidateVideoCache = (videoId: string) => {
+  queryCache.invalidate(
+    (key) => key === `/videos/${videoId}` || key.startsWith("/videos/popular") || key.startsWith("/videos/search")
+  );
+};
+
+/**
+ * Set once the backend answers that it has no playback progress endpoint,
+ * so the position is only kept locally for the rest of the session
+ */
+let progressEndpointMissing = false;
+
+/**
+ * Set once the backend answers that it has no search endpoint,
+ * so text searches filter the popular videos for the rest of the session
+ */
+let searchEndpointMissing = false;
+
+/**
+ * Whether an error means the requested endpoint doesn't exist
+ *
+ * @param {unknown} err - Error thrown by httpClient
+ * @returns {boolean} True for 404 and 405 responses
+ */
+const isMissingEndpoint = (err: unknown): boolean =>
+  err instanceof ApiError && (err.status === 404 || err.status === 405);
+
+/**
+ * Whether a video matches a text search
+ * Every word must appear in the title (from the Pexels slug) or the author, ignoring case and accents
+ *
+ * @param {PexelsVideo} video - Video to check
+ * @param {string} query - Search text
+ * @returns {boolean} True when it matches
+ */
+const matchesSearchText = (video: PexelsVideo, query: string): boolean => {
+  const text = simplifyText(`${getVideoTitle(video.url, video.user.name)} ${video.user.name}`);
+  return simplifyText(query)
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => text.includes(word));
+};
+
+/**
+ * Options accepted by the video list methods
+ * @property {VideoSearchFilters} [filters] - Advanced filters sent to the backend and applied again in the browser
+ */
+export type VideoListOptions<T> = CachedQueryOptions<T> & { filters?: VideoSearchFilters };
+
+/**
+ * Fetches a page of a video list through the cache
+ * Filters are sent as query params; if the backend ignores them the page is
+ * filtered in the browser, and since its totals no longer describe the filtered
+ * list, total_pages is reported as unknown
+ *
+ * @param {string} endpoint - List endpoint (e.g. "/videos/popular")
+ * @param {number} page - Page number
+ * @param {number} perPage - Videos per page
+ * @param {VideoListOptions} [options] - Filters, signal and cache options
+ * @param {string} [query] - Search text, sent as the query param (part of the cache key)
+ * @returns {Promise<PexelsVideoSearchResponse>} Normalized page
+ */
+const fetchVideoList = (
+  endpoint: string,
+  page: number,
+  perPage: number,
+  { filters = {}, ...cacheOptions }: VideoListOptions<PexelsVideoSearchResponse> = {},
+  query?: string
+): Promise<PexelsVideoSearchResponse> => {
+  const filterQuery = toFilterQuery(filters);
+  const searchQuery = query ? `query=${encodeURIComponent(query)}&` : "";
+  const path = `${endpoint}?${searchQuery}page=${page}&limit=${perPage}${filterQuery && `&${filterQuery}`}`;
+
+  return queryCache.fetch(
+    path,
+    async (signal) => {
+      const data = await httpClient.get<unknown>(`${BACKEND_API_URL}${path}`, { signal });
+      // Backend might return { videos: [...] } or directly the array
+      const response = normalizeVideoList(data, { page, perPage });
+      if (!hasSearchFilters(filters)) return response;
+
+      const now = Date.now();
+      const videos = response.videos.filter((video) => matchesSearchFilters(video, filters, now));
+      if (videos.length === response.videos.length) return response;
+
+      console.warn(`Backend ignored filters for ${path}, filtering ${response.videos.length - videos.length} videos locally`);
+      return { ...response, videos, total_results: videos.length, total_pages: null };
+    },
+    cacheOptions
+  );
 };
 
 /**
@@ -31,106 +155,94 @@ export const pexelsService = {
   /**
    * Get a specific video by ID from backend
    * @param id - Pexels video ID
+   * @param options - Abort signal and cache options (onRevalidate receives fresher data after a stale hit)
    * @returns Pexels video
    */
-  async getVideoById(id: string): Promise<PexelsVideo> {
-    const response = await fetch(`${BACKEND_API_URL}/videos/${id}`, {
-      headers: getBackendHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error getting video: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    // Backend returns { video: {...} }
-    return data.video;
+  async getVideoById(id: string, options?: CachedQueryOptions<PexelsVideo>): Promise<PexelsVideo> {
+    const path = `/videos/${id}`;
+    return queryCache.fetch(
+      path,
+      async (signal) => {
+        // Backend returns { video: {...} }
+        const data = await httpClient.get<unknown>(`${BACKEND_API_URL}${path}`, { signal });
+        return normalizeVideoResponse(data);
+      },
+      options
+    );
   },
 
   /**
-   * Search videos by query (currently uses popular videos from backend)
-   * @param query - Search term (not used for now)
+   * Search videos by text
+   * An empty query lists the popular videos. If the backend has no search
+   * endpoint, the popular page is filtered by title and author in the browser
+   * (total_pages is then reported as unknown, like the filter fallback)
+   * @param query - Search term
    * @param page - Page number (default: 1)
    * @param perPage - Videos per page (default: 15, max: 80)
-   * @returns Response with video list
+   * @param options - Advanced filters, abort signal and cache options (onRevalidate receives fresher data after a stale hit)
+   * @returns Response with video list and pagination (next_page is null on the last page)
    */
   async searchVideos(
     query: string,
     page: number = 1,
-    perPage: number = 15
+    perPage: number = 15,
+    options?: VideoListOptions<PexelsVideoSearchResponse>
   ): Promise<PexelsVideoSearchResponse> {
-    // Keep parameters for compatibility even if not used for now
-    console.log(`Search requested: "${query}", page: ${page}`);
-    
-    // For now we use the popular videos endpoint
-    // TODO: When backend implements search, update this method
-    const response = await fetch(
-      `${BACKEND_API_URL}/videos/popular?limit=${perPage}`,
-      {
-        headers: getBackendHeaders(),
+    const term = query.trim();
+    if (!term) return fetchVideoList("/videos/popular", page, perPage, options);
+
+    if (!searchEndpointMissing) {
+      try {
+        return await fetchVideoList("/videos/search", page, perPage, options, term);
+      } catch (err) {
+        if (!isMissingEndpoint(err)) throw err;
+        searchEndpointMissing = true;
+        console.warn("Backend has no search endpoint, filtering popular videos locally");
       }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Error searching videos: ${response.statusText}`);
     }
 
-    const data = await response.json();
-    
-    // Backend might return { videos: [...] } or directly the array
-    if (data.videos && Array.isArray(data.videos)) {
-      return {
-        page: 1,
-        per_page: perPage,
-        total_results: data.videos.length,
-        url: "",
-        videos: data.videos
-      };
-    }
-    
-    return data;
+    const filterPage = (response: PexelsVideoSearchResponse): PexelsVideoSearchResponse => {
+      const videos = response.videos.filter((video) => matchesSearchText(video, term));
+      return { ...response, videos, total_results: videos.length, total_pages: null };
+    };
+    const onRevalidate = options?.onRevalidate;
+    const response = await fetchVideoList("/videos/popular", page, perPage, {
+      ...options,
+      onRevalidate: onRevalidate && ((data) => onRevalidate(filterPage(data))),
+    });
+    return filterPage(response);
   },
 
   /**
    * Get popular videos from backend
-   * @param page - Page number (default: 1) - not used for now
+   * @param page - Page number (default: 1)
    * @param perPage - Videos per page (default: 15, max: 80)
-   * @returns Response with popular videos list
+   * @param options - Advanced filters, abort signal and cache options (onRevalidate receives fresher data after a stale hit)
+   * @returns Response with popular videos list and pagination (next_page is null on the last page)
    */
   async getPopularVideos(
     page: number = 1,
-    perPage: number = 15
+    perPage: number = 15,
+    options?: VideoListOptions<PexelsPopularVideosResponse>
   ): Promise<PexelsPopularVideosResponse> {
-    // Mantener parámetro page para compatibilidad aunque no se use por ahora
-    console.log(`Página solicitada: ${page}`);
-    
-    const response = await fetch(
-      `${BACKEND_API_URL}/videos/popular?limit=${perPage}`,
-      {
-        headers: getBackendHeaders(),
-      }
-    );
+    return fetchVideoList("/videos/popular", page, perPage, options);
+  },
 
-    if (!response.ok) {
-      throw new Error(`Error al obtener videos populares: ${response.statusText}`);
-    }
+  /**
+   * Marks a cached video (and the cached lists) as stale
+   * Use after changing a video outside of this service
+   * @param videoId - MongoDB ID of the video
+   */
+  invalidateVideo(videoId: string): void {
+    invalidateVideoCache(videoId);
+  },
 
-    const data = await response.json();
-    
-    // El backend podría devolver { videos: [...] } o directamente el array
-    // Ajustamos según la estructura real del backend
-    if (data.videos && Array.isArray(data.videos)) {
-      return {
-        page: 1,
-        per_page: perPage,
-        total_results: data.videos.length,
-        url: "",
-        videos: data.videos
-      };
-    }
-    
-    // If it's already the expected format, return as is
-    return data;
+  /**
+   * Drops every cached video and list
+   * Called when the session changes
+   */
+  clearCache(): void {
+    queryCache.clear();
   },
 
   /**
@@ -177,29 +289,21 @@ export const pexelsService = {
    * If user already liked it, removes it. If not, adds it.
    * @async
    * @param {string} videoId - Video ID
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{message: string, likesCount: number, liked: boolean}>} Confirmation, count and like status
-   * @throws {Error} If user is not authenticated or server error
+   * @throws {ApiError} If user is not authenticated or server error
    * @example
    * const result = await pexelsService.toggleLikeVideo('507f1f77bcf86cd799439011');
    * console.log(result.liked); // true or false
    * console.log(result.likesCount); // 42
    */
-  async toggleLikeVideo(videoId: string): Promise<{ message: string; likesCount: number; liked: boolean }> {
-    const response = await fetch(
+  async toggleLikeVideo(videoId: string, options: ServiceOptions = {}): Promise<{ message: string; likesCount: number; liked: boolean }> {
+    const result = await httpClient.post<{ message: string; likesCount: number; liked: boolean }>(
       `${BACKEND_API_URL}/videos/${videoId}/like`,
-      {
-        method: "POST",
-        headers: getBackendHeaders(),
-      }
+      options
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Error del backend al dar/quitar like:', errorText);
-      throw new Error(`Error al procesar like (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+    invalidateVideoCache(videoId);
+    return result;
   },
 
   /**
@@ -208,30 +312,21 @@ export const pexelsService = {
    * 
    * @param {string} videoId - MongoDB ID of the video to rate
    * @param {number} rating - Rating value from 1 to 5
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{ message: string; averageRating: number; totalRatings: number }>} Rating result
-   * @throws {Error} If rating is invalid or user is not authenticated
+   * @throws {ApiError} If rating is invalid or user is not authenticated
    * @example
    * const result = await pexelsService.rateVideo('507f1f77bcf86cd799439011', 5);
    * console.log(result.averageRating); // 4.5
    * console.log(result.totalRatings); // 120
    */
-  async rateVideo(videoId: string, rating: number): Promise<{ message: string; averageRating: number; totalRatings: number }> {
-    const response = await fetch(
+  async rateVideo(videoId: string, rating: number, options: ServiceOptions = {}): Promise<{ message: string; averageRating: number; totalRatings: number }> {
+    const result = await httpClient.post<{ message?: string }>(
       `${BACKEND_API_URL}/videos/${videoId}/rating`,
-      {
-        method: "POST",
-        headers: getBackendHeaders(),
-        body: JSON.stringify({ rating }),
-      }
+      { ...options, body: { rating } }
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error submitting rating:', errorText);
-      throw new Error(`Error submitting rating (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+    invalidateVideoCache(videoId);
+    return { message: result?.message ?? "", ...normalizeRatingSummary(result) };
   },
 
   /**
@@ -239,29 +334,17 @@ export const pexelsService = {
    * Returns average rating and total number of ratings
    * 
    * @param {string} videoId - MongoDB ID of the video
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{ averageRating: number; totalRatings: number }>} Rating information
-   * @throws {Error} If video is not found or server error
+   * @throws {ApiError} If video is not found or server error
    * @example
    * const rating = await pexelsService.getVideoRating('507f1f77bcf86cd799439011');
    * console.log(rating.averageRating); // 4.5
    * console.log(rating.totalRatings); // 120
    */
-  async getVideoRating(videoId: string): Promise<{ averageRating: number; totalRatings: number }> {
-    const response = await fetch(
-      `${BACKEND_API_URL}/videos/${videoId}/rating`,
-      {
-        method: "GET",
-        headers: getBackendHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error getting rating:', errorText);
-      throw new Error(`Error getting rating (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+  async getVideoRating(videoId: string, options: ServiceOptions = {}): Promise<{ averageRating: number; totalRatings: number }> {
+    const data = await httpClient.get<unknown>(`${BACKEND_API_URL}/videos/${videoId}/rating`, options);
+    return normalizeRatingSummary(data);
   },
 
   /**
@@ -269,35 +352,25 @@ export const pexelsService = {
    * Returns user's own rating if they have rated the video
    * 
    * @param {string} videoId - MongoDB ID of the video
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{ rating: number } | null>} User's rating or null if not rated
-   * @throws {Error} If server error
+   * @throws {DOMException} AbortError if the request is cancelled
    * @example
    * const userRating = await pexelsService.getUserRating('507f1f77bcf86cd799439011');
    * console.log(userRating?.rating); // 5 or undefined
    */
-  async getUserRating(videoId: string): Promise<{ rating: number } | null> {
+  async getUserRating(videoId: string, options: ServiceOptions = {}): Promise<{ rating: number } | null> {
     try {
-      const response = await fetch(
+      return await httpClient.get<{ rating: number }>(
         `${BACKEND_API_URL}/videos/${videoId}/rating/user`,
-        {
-          method: "GET",
-          headers: getBackendHeaders(),
-        }
+        options
       );
-
-      if (response.status === 404) {
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      if (err instanceof ApiError && err.status === 404) {
         // User hasn't rated this video yet
         return null;
       }
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Backend error getting user rating:', errorText);
-        throw new Error(`Error getting user rating (${response.status}): ${errorText}`);
-      }
-
-      return response.json();
-    } catch (err) {
       console.error('Error fetching user rating:', err);
       return null;
     }
@@ -308,38 +381,19 @@ export const pexelsService = {
    * Returns average, total ratings, and all ratings with user info
    * 
    * @param {string} videoId - MongoDB ID of the video
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{ averageRating: number; totalRatings: number; ratings: Array<{userId: string, rating: number, createdAt: string}> }>} Rating statistics
-   * @throws {Error} If server error
+   * @throws {ApiError} If server error
+   * @throws {ContractError} If the response is not a rating stats object
    * @example
    * const stats = await pexelsService.getRatingStats('507f1f77bcf86cd799439011');
    * console.log(stats.averageRating); // 4.5
    * console.log(stats.totalRatings); // 120
    * console.log(stats.ratings); // Array of all ratings
    */
-  async getRatingStats(videoId: string): Promise<{ 
-    averageRating: number; 
-    totalRatings: number; 
-    ratings: Array<{
-      userId: string;
-      rating: number;
-      createdAt: string;
-    }>;
-  }> {
-    const response = await fetch(
-      `${BACKEND_API_URL}/videos/${videoId}/rating/stats`,
-      {
-        method: "GET",
-        headers: getBackendHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error getting rating stats:', errorText);
-      throw new Error(`Error getting rating stats (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+  async getRatingStats(videoId: string, options: ServiceOptions = {}): Promise<RatingStats> {
+    const data = await httpClient.get<unknown>(`${BACKEND_API_URL}/videos/${videoId}/rating/stats`, options);
+    return normalizeRatingStats(data);
   },
 
   /**
@@ -347,28 +401,20 @@ export const pexelsService = {
    * Removes the user's rating completely
    * 
    * @param {string} videoId - MongoDB ID of the video
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{ message: string; averageRating: number; totalRatings: number }>} Deletion result
-   * @throws {Error} If user hasn't rated the video or server error
+   * @throws {ApiError} If user hasn't rated the video or server error
    * @example
    * const result = await pexelsService.deleteVideoRating('507f1f77bcf86cd799439011');
    * console.log(result.message); // "Rating deleted successfully"
    */
-  async deleteVideoRating(videoId: string): Promise<{ message: string; averageRating: number; totalRatings: number }> {
-    const response = await fetch(
+  async deleteVideoRating(videoId: string, options: ServiceOptions = {}): Promise<{ message: string; averageRating: number; totalRatings: number }> {
+    const result = await httpClient.delete<{ message?: string }>(
       `${BACKEND_API_URL}/videos/${videoId}/rating`,
-      {
-        method: "DELETE",
-        headers: getBackendHeaders(),
-      }
+      options
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error deleting rating:', errorText);
-      throw new Error(`Error deleting rating (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+    invalidateVideoCache(videoId);
+    return { message: result?.message ?? "", ...normalizeRatingSummary(result) };
   },
 
   /**
@@ -376,30 +422,18 @@ export const pexelsService = {
    * Returns array of comments sorted by date (user's comments first)
    * 
    * @param {string} videoId - MongoDB ID of the video
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<Comment[]>} Array of comments
-   * @throws {Error} If video is not found or server error
+   * @throws {ApiError} If video is not found or server error
+   * @throws {ContractError} If `comments` is not an array
    * @example
    * const comments = await pexelsService.getComments('507f1f77bcf86cd799439011');
    * console.log(comments.length); // 25
    */
-  async getComments(videoId: string): Promise<Comment[]> {
-    const response = await fetch(
-      `${BACKEND_API_URL}/videos/${videoId}/comments`,
-      {
-        method: "GET",
-        headers: getBackendHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error getting comments:', errorText);
-      throw new Error(`Error getting comments (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
+  async getComments(videoId: string, options: ServiceOptions = {}): Promise<Comment[]> {
     // Backend returns { comments: [...] }
-    return data.comments || [];
+    const data = await httpClient.get<unknown>(`${BACKEND_API_URL}/videos/${videoId}/comments`, options);
+    return normalizeComments(data);
   },
 
   /**
@@ -408,31 +442,21 @@ export const pexelsService = {
    * 
    * @param {string} videoId - MongoDB ID of the video
    * @param {string} text - Comment text content
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<Comment>} Created comment with user info
-   * @throws {Error} If text is empty or user is not authenticated
+   * @throws {ApiError} If text is empty or user is not authenticated
    * @example
    * const comment = await pexelsService.addComment('507f1f77bcf86cd799439011', 'Great video!');
    * console.log(comment._id);
    */
-  async addComment(videoId: string, text: string): Promise<Comment> {
-    const response = await fetch(
+  async addComment(videoId: string, text: string, options: ServiceOptions = {}): Promise<Comment> {
+    // Backend returns { comment: {...} }
+    const data = await httpClient.post<unknown>(
       `${BACKEND_API_URL}/videos/${videoId}/comments`,
-      {
-        method: "POST",
-        headers: getBackendHeaders(),
-        body: JSON.stringify({ text }),
-      }
+      { ...options, body: { text } }
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error adding comment:', errorText);
-      throw new Error(`Error adding comment (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
-    // Backend returns { comment: {...} }
-    return data.comment;
+    invalidateVideoCache(videoId);
+    return normalizeCommentResponse(data);
   },
 
   /**
@@ -442,30 +466,20 @@ export const pexelsService = {
    * @param {string} videoId - MongoDB ID of the video
    * @param {string} commentId - MongoDB ID of the comment
    * @param {string} text - New comment text
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<Comment>} Updated comment
-   * @throws {Error} If not authorized or comment not found
+   * @throws {ApiError} If not authorized or comment not found
    * @example
    * const updated = await pexelsService.editComment('video123', 'comment456', 'Updated text');
    */
-  async editComment(videoId: string, commentId: string, text: string): Promise<Comment> {
-    const response = await fetch(
+  async editComment(videoId: string, commentId: string, text: string, options: ServiceOptions = {}): Promise<Comment> {
+    // Backend returns { comment: {...} }
+    const data = await httpClient.put<unknown>(
       `${BACKEND_API_URL}/videos/${videoId}/comments/${commentId}`,
-      {
-        method: "PUT",
-        headers: getBackendHeaders(),
-        body: JSON.stringify({ text }),
-      }
+      { ...options, body: { text } }
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error editing comment:', errorText);
-      throw new Error(`Error editing comment (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
-    // Backend returns { comment: {...} }
-    return data.comment;
+    invalidateVideoCache(videoId);
+    return normalizeCommentResponse(data);
   },
 
   /**
@@ -474,26 +488,71 @@ export const pexelsService = {
    * 
    * @param {string} videoId - MongoDB ID of the video
    * @param {string} commentId - MongoDB ID of the comment
+   * @param {ServiceOptions} [options] - Abort signal
    * @returns {Promise<{ message: string }>} Success message
-   * @throws {Error} If not authorized or comment not found
+   * @throws {ApiError} If not authorized or comment not found
    * @example
    * await pexelsService.deleteComment('video123', 'comment456');
    */
-  async deleteComment(videoId: string, commentId: string): Promise<{ message: string }> {
-    const response = await fetch(
+  async deleteComment(videoId: string, commentId: string, options: ServiceOptions = {}): Promise<{ message: string }> {
+    const result = await httpClient.delete<{ message: string }>(
       `${BACKEND_API_URL}/videos/${videoId}/comments/${commentId}`,
-      {
-        method: "DELETE",
-        headers: getBackendHeaders(),
-      }
+      options
     );
+    invalidateVideoCache(videoId);
+    return result;
+  },
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error deleting comment:', errorText);
-      throw new Error(`Error deleting comment (${response.status}): ${errorText}`);
+  /**
+   * Gets the position where the user left a video
+   * Backends without a progress endpoint answer 404; after that the endpoint
+   * isn't called again and the position is only kept in the browser
+   *
+   * @param {string} videoId - MongoDB ID of the video
+   * @param {ServiceOptions} [options] - Abort signal
+   * @returns {Promise<number | null>} Seconds, or null when there is no saved position
+   * @example
+   * const position = await pexelsService.getPlaybackProgress('507f1f77bcf86cd799439011');
+   * console.log(position); // 83 or null
+   */
+  async getPlaybackProgress(videoId: string, options: ServiceOptions = {}): Promise<number | null> {
+    if (progressEndpointMissing) return null;
+    try {
+      const result = await httpClient.get<{ position?: number | null }>(
+        `${BACKEND_API_URL}/videos/${videoId}/progress`,
+        options
+      );
+      return typeof result?.position === "number" ? result.position : null;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      if (isMissingEndpoint(err)) {
+        progressEndpointMissing = true;
+        return null;
+      }
+      console.error('Error fetching playback progress:', err);
+      return null;
     }
+  },
 
-    return response.json();
+  /**
+   * Saves the position where the user left a video
+   * Does nothing once the backend has shown it has no progress endpoint
+   *
+   * @param {string} videoId - MongoDB ID of the video
+   * @param {number | null} position - Seconds, or null to forget the position
+   * @param {ServiceOptions} [options] - Abort signal
+   * @returns {Promise<void>}
+   * @throws {ApiError} If not authenticated or server error
+   * @example
+   * await pexelsService.savePlaybackProgress('507f1f77bcf86cd799439011', 83);
+   */
+  async savePlaybackProgress(videoId: string, position: number | null, options: ServiceOptions = {}): Promise<void> {
+    if (progressEndpointMissing) return;
+    try {
+      await httpClient.put(`${BACKEND_API_URL}/videos/${videoId}/progress`, { ...options, body: { position } });
+    } catch (err) {
+      if (!isMissingEndpoint(err)) throw err;
+      progressEndpointMissing = true;
+    }
   },
 };
@@ -0,0 +1,239 @@
+/**
+ * In-memory stale-while-revalidate cache for backend queries
+ * Serves cached data instantly, refreshes it in the background
+ * and shares a single request between concurrent identical calls
+ *
+ * @module queryCache
+ */
+
+/**
+ * Options accepted by cached service methods
+ * @interface CachedQueryOptions
+ * @template T
+ * @property {AbortSignal} [signal] - Stops waiting for the data; the shared request is only cancelled once every caller gave up
+ * @property {Function} [onRevalidate] - Called with fresh data when a stale entry was served and the background refresh returned something different
+ */
+export interface CachedQueryOptions<T> {
+  signal?: AbortSignal;
+  onRevalidate?: (data: T) => void;
+}
+
+/**
+ * Request shared by every caller waiting for the same key
+ */
+interface PendingRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiters: number;
+}
+
+/**
+ * Cache entry for a single key
+ */
+interface CacheEntry<T> {
+  data?: T;
+  updatedAt: number;
+  stale: boolean;
+  pending?: PendingRequest<T>;
+  /** Bumped on every invalidation so in-flight responses know they are outdated */
+  version: number;
+}
+
+/**
+ * Time (ms) during which cached data is served without revalidating
+ * @constant {number}
+ */
+const FRESH_TIME = 60_000;
+
+/**
+ * Maximum number of keys kept; the least recently updated are evicted first
+ * @constant {number}
+ */
+const MAX_ENTRIES = 200;
+
+const entries = new Map<string, CacheEntry<unknown>>();
+
+/** Bumped by clear() so requests started before it don't write their result back */
+let generation = 0;
+
+/**
+ * Removes the oldest entries when the cache grows over MAX_ENTRIES
+ */
+const evictOldEntries = () => {
+  if (entries.size <= MAX_ENTRIES) return;
+
+  const byAge = [...entries.entries()]
+    .filter(([, entry]) => !entry.pending)
+    .sort(([, a], [, b]) => a.updatedAt - b.updatedAt);
+
+  for (const [key] of byAge.slice(0, entries.size - MAX_ENTRIES)) {
+    entries.delete(key);
+  }
+};
+
+/**
+ * Gets the reason an AbortSignal was aborted as an Error
+ *
+ * @param {AbortSignal} signal - Aborted signal
+ * @returns {Error} AbortError to reject with
+ */
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Runs the fetcher for a key, reusing the in-flight request if there is one
+ *
+ * @template T
+ * @param {string} key - Cache key
+ * @param {Function} fetcher - Function that performs the request with the given signal
+ * @returns {PendingRequest<T>} Shared request
+ */
+const load = <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>): PendingRequest<T> => {
+  const entry = (entries.get(key) as CacheEntry<T> | undefined) ?? { updatedAt: 0, stale: true, version: 0 };
+  // A request cancelled by all of its callers can't be reused
+  if (entry.pending && !entry.pending.controller.signal.aborted) return entry.pending;
+
+  const { version } = entry;
+  const startedIn = generation;
+  const controller = new AbortController();
+  const pending: PendingRequest<T> = {
+    controller,
+    waiters: 0,
+    promise: fetcher(controller.signal)
+      .then((data) => {
+        // The cache was cleared (e.g. logout) while the request was in flight
+        if (generation !== startedIn) return data;
+        // If the key was invalidated while the request was in flight, keep it stale
+        const latestVersion = entries.get(key)?.version ?? version;
+        entries.set(key, {
+          data,
+          updatedAt: Date.now(),
+          stale: latestVersion !== version,
+          version: latestVersion,
+        });
+        evictOldEntries();
+        return data;
+      })
+      .catch((error) => {
+        const current = entries.get(key);
+        if (current?.pending === pending) {
+          if (current.data === undefined) {
+            entries.delete(key);
+          } else {
+            delete current.pending;
+          }
+        }
+        throw error;
+      }),
+  };
+
+  entries.set(key, { ...entry, pending });
+  return pending;
+};
+
+/**
+ * Waits for a shared request on behalf of one caller
+ * When the caller's signal aborts it stops waiting, and the request
+ * itself is cancelled if no other caller is still waiting for it
+ *
+ * @template T
+ * @param {PendingRequest<T>} pending - Shared request
+ * @param {AbortSignal} [signal] - Caller's signal
+ * @returns {Promise<T>} Result of the request
+ */
+const waitFor = <T>(pending: PendingRequest<T>, signal?: AbortSignal): Promise<T> => {
+  pending.waiters += 1;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      pending.waiters -= 1;
+      if (pending.waiters === 0) pending.controller.abort();
+      reject(abortReason(signal!));
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    pending.promise
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener("abort", onAbort));
+  });
+};
+
+/**
+ * Query cache shared by the video services
+ * @namespace queryCache
+ */
+export const queryCache = {
+  /**
+   * Gets data for a key using stale-while-revalidate
+   * - Fresh entry: returned as is
+   * - Stale entry: returned immediately and refreshed in the background
+   * - No entry: fetched (concurrent callers share the same request)
+   *
+   * @async
+   * @template T
+   * @param {string} key - Cache key (endpoint + params)
+   * @param {Function} fetcher - Function that performs the request with the given signal
+   * @param {CachedQueryOptions<T>} [options] - Abort signal and revalidation callback
+   * @returns {Promise<T>} Cached or fetched data
+   * @throws {DOMException} AbortError if the caller's signal aborts first
+   * @example
+   * const video = await queryCache.fetch(`/videos/${id}`, (signal) => requestVideo(id, signal), { signal });
+   */
+  async fetch<T>(
+    key: string,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    options: CachedQueryOptions<T> = {}
+  ): Promise<T> {
+    const { signal, onRevalidate } = options;
+    if (signal?.aborted) throw abortReason(signal);
+
+    const entry = entries.get(key) as CacheEntry<T> | undefined;
+
+    if (entry?.data === undefined) {
+      return waitFor(load(key, fetcher), signal);
+    }
+
+    const isFresh = !entry.stale && Date.now() - entry.updatedAt < FRESH_TIME;
+    if (!isFresh) {
+      const cached = entry.data;
+      load(key, fetcher)
+        .promise.then((data) => {
+          if (onRevalidate && !signal?.aborted && JSON.stringify(data) !== JSON.stringify(cached)) {
+            onRevalidate(data);
+          }
+        })
+        .catch((error) => {
+          // Keep serving the stale data; the next call will try again
+          console.warn(`Background revalidation failed for ${key}:`, error);
+        });
+    }
+
+    return entry.data;
+  },
+
+  /**
+   * Marks entries as stale so the next read revalidates them
+   * @param {Function} predicate - Returns true for keys to invalidate
+   * @example
+   * queryCache.invalidate((key) => key.startsWith("/videos/popular"));
+   */
+  invalidate(predicate: (key: string) => boolean): void {
+    for (const [key, entry] of entries) {
+      if (predicate(key)) {
+        entry.stale = true;
+        entry.version += 1;
+      }
+    }
+  },
+
+  /**
+   * Removes every entry
+   * Used when the session changes so no data leaks between users
+   */
+  clear(): void {
+    generation += 1;
+    entries.clear();
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Zustand store for the personalized HomePage layout
+ * Local copy of the layout saved in the user profile, so the HomePage renders
+ * the user's carousels right away and keeps working when the backend can't be
+ * reached. Includes localStorage persistence
+ *
+ * @module useHomeLayoutStore
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { HomeLayout } from "../types/preferences.types";
+
+/**
+ * Home layout state interface
+ * @interface HomeLayoutState
+ * @property {Record<string, HomeLayout>} byUser - Layout by user ID (absent until customized)
+ */
+interface HomeLayoutState {
+  // State
+  byUser: Record<string, HomeLayout>;
+
+  /**
+   * Stores a user's layout
+   * @param {string} userId - Owner
+   * @param {HomeLayout} layout - New layout
+   * @returns {void}
+   */
+  setLayout: (userId: string, layout: HomeLayout) => void;
+}
+
+/**
+ * Zustand hook for the HomePage layout
+ * Components use it through useHomeLayout, which also syncs with the backend
+ *
+ * @example
+ * ```tsx
+ * const layout = useHomeLayoutStore((state) => state.byUser[user.id]);
+ * ```
+ */
+const useHomeLayoutStore = create<HomeLayoutState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      byUser: {},
+
+      setLayout: (userId: string, layout: HomeLayout) =>
+        set((state) => ({ byUser: { ...state.byUser, [userId]: layout } })),
+    }),
+    {
+      name: "home-layout-storage", // name in localStorage
+    }
+  )
+);
+
+export default useHomeLayoutStore;
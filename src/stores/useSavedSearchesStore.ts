@@ -0,0 +1,124 @@
+/**
+ * Zustand store for saved searches
+ * Each user keeps named searches and what they saw on their last visit,
+ * used to flag new results. Includes localStorage persistence
+ *
+ * @module useSavedSearchesStore
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { SavedSearch } from "../types/search.types";
+
+/**
+ * Maximum video IDs remembered per saved search
+ * @constant {number}
+ */
+const MAX_SEEN_IDS = 500;
+
+/**
+ * Saved searches state interface
+ * @interface SavedSearchesState
+ * @property {Record<string, SavedSearch[]>} byUser - Saved searches by user ID, most recent first
+ */
+interface SavedSearchesState {
+  // State
+  byUser: Record<string, SavedSearch[]>;
+
+  /**
+   * Saves a search; the videos currently shown count as already seen
+   * Saving the same query again renames the existing entry
+   * @param {string} userId - Owner
+   * @param {string} name - Name given by the user
+   * @param {string} query - Canonical search params (see getSearchKey)
+   * @param {string[]} seenIds - IDs of the videos on screen
+   * @returns {string} ID of the saved search
+   */
+  saveSearch: (userId: string, name: string, query: string, seenIds: string[]) => string;
+
+  /**
+   * Deletes a saved search
+   * @param {string} userId - Owner
+   * @param {string} id - Saved search ID
+   * @returns {void}
+   */
+  removeSavedSearch: (userId: string, id: string) => void;
+
+  /**
+   * Records a visit: the shown videos become seen and the visit start becomes the reference date
+   * @param {string} userId - Owner
+   * @param {string} id - Saved search ID
+   * @param {string[]} videoIds - IDs of the videos shown during the visit
+   * @param {string} visitedAt - ISO date when the visit started
+   * @returns {void}
+   */
+  recordVisit: (userId: string, id: string, videoIds: string[], visitedAt: string) => void;
+}
+
+/**
+ * Zustand hook for saved searches
+ *
+ * @example
+ * ```tsx
+ * const saveSearch = useSavedSearchesStore((state) => state.saveSearch);
+ * const id = saveSearch(user.id, "Océanos cortos", getSearchKey(searchParams), videoIds);
+ * ```
+ */
+const useSavedSearchesStore = create<SavedSearchesState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      byUser: {},
+
+      saveSearch: (userId: string, name: string, query: string, seenIds: string[]) => {
+        const searches = get().byUser[userId] ?? [];
+        const existing = searches.find((search) => search.query === query);
+        const now = new Date().toISOString();
+        const saved: SavedSearch = existing
+          ? { ...existing, name }
+          : {
+              id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+              name,
+              query,
+              createdAt: now,
+              lastVisitedAt: now,
+              seenIds: seenIds.slice(0, MAX_SEEN_IDS),
+            };
+
+        set((state) => ({
+          byUser: {
+            ...state.byUser,
+            [userId]: [saved, ...searches.filter((search) => search.id !== saved.id)],
+          },
+        }));
+        return saved.id;
+      },
+
+      removeSavedSearch: (userId: string, id: string) =>
+        set((state) => ({
+          byUser: {
+            ...state.byUser,
+            [userId]: (state.byUser[userId] ?? []).filter((search) => search.id !== id),
+          },
+        })),
+
+      recordVisit: (userId: string, id: string, videoIds: string[], visitedAt: string) =>
+        set((state) => ({
+          byUser: {
+            ...state.byUser,
+            [userId]: (state.byUser[userId] ?? []).map((search) => {
+              if (search.id !== id) return search;
+              // Newest IDs first so the oldest are the ones dropped past the limit
+              const seenIds = [...new Set([...videoIds, ...search.seenIds])].slice(0, MAX_SEEN_IDS);
+              return { ...search, lastVisitedAt: visitedAt, seenIds };
+            }),
+          },
+        })),
+    }),
+    {
+      name: "saved-searches-storage", // name in localStorage
+    }
+  )
+);
+
+export default useSavedSearchesStore;
@@ -0,0 +1,126 @@
+/**
+ * Zustand store for search suggestions data
+ * Keeps each user's recent searches and the video authors seen while browsing
+ * Includes localStorage persistence so suggestions survive reloads
+ *
+ * @module useSearchHistoryStore
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * Maximum number of recent searches kept per user
+ * @constant {number}
+ */
+const MAX_RECENT_SEARCHES = 10;
+
+/**
+ * Maximum number of author names kept
+ * @constant {number}
+ */
+const MAX_AUTHORS = 200;
+
+/**
+ * Name the normalizer gives to videos without author, never suggested
+ * @constant {string}
+ */
+const UNKNOWN_AUTHOR = "Autor desconocido";
+
+/**
+ * Search history state interface
+ * @interface SearchHistoryState
+ * @property {Record<string, string[]>} recentByUser - Recent searches by user ID, most recent first
+ * @property {string[]} authors - Author names seen in video lists, most recent first
+ */
+interface SearchHistoryState {
+  // State
+  recentByUser: Record<string, string[]>;
+  authors: string[];
+
+  /**
+   * Saves a search at the top of the user's history
+   * A repeated search (ignoring case) moves to the top instead of being duplicated
+   * @param {string} userId - Owner of the history
+   * @param {string} query - Search as typed
+   * @returns {void}
+   */
+  addSearch: (userId: string, query: string) => void;
+
+  /**
+   * Removes one search from the user's history
+   * @param {string} userId - Owner of the history
+   * @param {string} query - Search to remove
+   * @returns {void}
+   */
+  removeSearch: (userId: string, query: string) => void;
+
+  /**
+   * Remembers the authors of the given videos
+   * @param {string[]} names - Author names
+   * @returns {void}
+   */
+  addAuthors: (names: string[]) => void;
+}
+
+/**
+ * Zustand hook for recent searches and seen authors
+ *
+ * @example
+ * ```tsx
+ * const addSearch = useSearchHistoryStore((state) => state.addSearch);
+ * const recent = useSearchHistoryStore((state) => state.recentByUser[userId]);
+ *
+ * addSearch(userId, 'ocean duration:<30');
+ * ```
+ */
+const useSearchHistoryStore = create<SearchHistoryState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      recentByUser: {},
+      authors: [],
+
+      addSearch: (userId: string, query: string) => {
+        const trimmed = query.trim();
+        if (!trimmed) return;
+        set((state) => {
+          const previous = state.recentByUser[userId] ?? [];
+          const rest = previous.filter((item) => item.toLowerCase() !== trimmed.toLowerCase());
+          return {
+            recentByUser: {
+              ...state.recentByUser,
+              [userId]: [trimmed, ...rest].slice(0, MAX_RECENT_SEARCHES),
+            },
+          };
+        });
+      },
+
+      removeSearch: (userId: string, query: string) =>
+        set((state) => ({
+          recentByUser: {
+            ...state.recentByUser,
+            [userId]: (state.recentByUser[userId] ?? []).filter((item) => item !== query),
+          },
+        })),
+
+      addAuthors: (names: string[]) => {
+        const fresh = [...new Set(names.map((name) => name.trim()))].filter(
+          (name) => name && name !== UNKNOWN_AUTHOR
+        );
+        if (fresh.length === 0) return;
+        set((state) => {
+          // Skip the update when nothing new was seen, so lists don't re-render subscribers
+          if (fresh.every((name, index) => state.authors[index] === name)) return state;
+          const rest = state.authors.filter((name) => !fresh.includes(name));
+          return { authors: [...fresh, ...rest].slice(0, MAX_AUTHORS) };
+        });
+      },
+    }),
+    {
+      name: "search-history-storage", // name in localStorage
+    }
+  )
+);
+
+export default useSearchHistoryStore;
@@ -0,0 +1,78 @@
+/**
+ * Zustand store for backend availability
+ * Tracks when requests are being retried because the server is starting up
+ * Not persisted: it only describes the requests of the current tab
+ *
+ * @module useServerStatusStore
+ */
+
+import { create } from "zustand";
+import { httpClient, type ServerStatus } from "../services/http.client";
+
+/**
+ * Server status state interface
+ * @interface ServerStatusState
+ * @property {ServerStatus["state"]} state - "online", "waking" while retrying or "unreachable" when retries ran out
+ * @property {number} attempt - Attempt about to be sent (1-based)
+ * @property {number} maxAttempts - Total attempts allowed for the retried request
+ * @property {number | null} wakingSince - Timestamp of the first failed attempt, null when online
+ * @property {number | null} nextRetryAt - Timestamp of the next attempt, null when not waiting
+ */
+interface ServerStatusState {
+  // State
+  state: ServerStatus["state"];
+  attempt: number;
+  maxAttempts: number;
+  wakingSince: number | null;
+  nextRetryAt: number | null;
+
+  /**
+   * Applies a status reported by httpClient
+   * @param {ServerStatus} status - New status
+   * @returns {void}
+   */
+  setStatus: (status: ServerStatus) => void;
+}
+
+/**
+ * Zustand hook for backend availability
+ *
+ * @example
+ * ```tsx
+ * const { state, attempt, maxAttempts } = useServerStatusStore();
+ *
+ * if (state === "waking") {
+ *   console.log(`Retrying (${attempt}/${maxAttempts})`);
+ * }
+ * ```
+ */
+const useServerStatusStore = create<ServerStatusState>()((set) => ({
+  // Initial state
+  state: "online",
+  attempt: 0,
+  maxAttempts: 0,
+  wakingSince: null,
+  nextRetryAt: null,
+
+  setStatus: (status: ServerStatus) =>
+    set((current) => {
+      if (status.state === "online") {
+        return { state: "online", attempt: 0, maxAttempts: 0, wakingSince: null, nextRetryAt: null };
+      }
+
+      // Concurrent requests report their own attempts: keep the furthest one
+      const isFurther = current.state !== "waking" || status.attempt >= current.attempt;
+      return {
+        state: status.state,
+        attempt: isFurther ? status.attempt : current.attempt,
+        maxAttempts: isFurther ? status.maxAttempts : current.maxAttempts,
+        wakingSince: current.wakingSince ?? Date.now(),
+        nextRetryAt: status.state === "waking" ? Date.now() + status.retryInMs : null,
+      };
+    }),
+}));
+
+// Keep the store in sync with the retries done by every service
+httpClient.onServerStatus((status) => useServerStatusStore.getState().setStatus(status));
+
+export default useServerStatusStore;
@@ -0,0 +1,76 @@
+/**
+ * Zustand store for interface preferences
+ * Includes localStorage persistence so choices survive reloads
+ *
+ * @module useSettingsStore
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { VideoQualityPreference } from "../types/player.types";
+
+/**
+ * Settings state interface
+ * @interface SettingsState
+ * @property {boolean} infiniteScroll - Load the next page automatically when reaching the end of a list
+ * @property {VideoQualityPreference} videoQuality - "auto" or the preferred resolution (e.g. 720)
+ * @property {"dark" | "light"} theme - Color theme
+ */
+interface SettingsState {
+  // State
+  infiniteScroll: boolean;
+  videoQuality: VideoQualityPreference;
+  theme: "dark" | "light";
+
+  /**
+   * Enables or disables infinite scroll
+   * @param {boolean} enabled - New value
+   * @returns {void}
+   */
+  setInfiniteScroll: (enabled: boolean) => void;
+
+  /**
+   * Remembers the video quality chosen in the player
+   * @param {VideoQualityPreference} quality - "auto" or a resolution in px (shorter side)
+   * @returns {void}
+   */
+  setVideoQuality: (quality: VideoQualityPreference) => void;
+
+  /**
+   * Switches between the dark and the light theme
+   * @returns {void}
+   */
+  toggleTheme: () => void;
+}
+
+/**
+ * Zustand hook for interface preferences
+ *
+ * @example
+ * ```tsx
+ * const { infiniteScroll, setInfiniteScroll } = useSettingsStore();
+ *
+ * <input type="checkbox" checked={infiniteScroll} onChange={(e) => setInfiniteScroll(e.target.checked)} />
+ * ```
+ */
+const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      infiniteScroll: true,
+      videoQuality: "auto",
+      theme: "dark",
+
+      setInfiniteScroll: (enabled: boolean) => set({ infiniteScroll: enabled }),
+
+      setVideoQuality: (quality: VideoQualityPreference) => set({ videoQuality: quality }),
+
+      toggleTheme: () => set((state) => ({ theme: state.theme === "dark" ? "light" : "dark" })),
+    }),
+    {
+      name: "settings-storage", // name in localStorage
+    }
+  )
+);
+
+export default useSettingsStore;
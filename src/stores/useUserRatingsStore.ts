@@ -0,0 +1,85 @@
+/**
+ * Zustand store for the videos each user rated
+ * The backend only answers the rating of one video at a time, so ratings seen
+ * on VideoPage are remembered here to feed the recommendations.
+ * Includes localStorage persistence
+ *
+ * @module useUserRatingsStore
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { PexelsVideo } from "../types/pexels.types";
+import type { RatedVideo } from "../types/recommendation.types";
+
+/**
+ * Maximum number of rated videos kept per user
+ * @constant {number}
+ */
+const MAX_RATINGS = 100;
+
+/**
+ * User ratings state interface
+ * @interface UserRatingsState
+ * @property {Record<string, RatedVideo[]>} byUser - Rated videos by user ID, most recent first
+ */
+interface UserRatingsState {
+  // State
+  byUser: Record<string, RatedVideo[]>;
+
+  /**
+   * Records the user's rating of a video (null removes it)
+   * Unchanged ratings keep their position and date
+   * @param {string} userId - Owner
+   * @param {PexelsVideo} video - Rated video
+   * @param {number | null} rating - Rating from 1 to 5, or null if the user has none
+   * @returns {void}
+   */
+  setRating: (userId: string, video: PexelsVideo, rating: number | null) => void;
+}
+
+/**
+ * Zustand hook for the user's ratings
+ *
+ * @example
+ * ```tsx
+ * const ratings = useUserRatingsStore((state) => state.byUser[userId]) ?? [];
+ * useUserRatingsStore.getState().setRating(user.id, video, 5);
+ * ```
+ */
+const useUserRatingsStore = create<UserRatingsState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      byUser: {},
+
+      setRating: (userId: string, video: PexelsVideo, rating: number | null) =>
+        set((state) => {
+          const ratings = state.byUser[userId] ?? [];
+          const existing = ratings.find((item) => item.videoId === video._id);
+          if (existing?.rating === rating || (!existing && rating === null)) return state;
+
+          const rest = ratings.filter((item) => item.videoId !== video._id);
+          const next =
+            rating === null
+              ? rest
+              : [
+                  {
+                    videoId: video._id,
+                    url: video.url,
+                    author: video.user.name,
+                    rating,
+                    ratedAt: new Date().toISOString(),
+                  },
+                  ...rest,
+                ].slice(0, MAX_RATINGS);
+          return { byUser: { ...state.byUser, [userId]: next } };
+        }),
+    }),
+    {
+      name: "user-ratings-storage", // name in localStorage
+    }
+  )
+);
+
+export default useUserRatingsStore;
@@ -8,6 +8,8 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { authService } from "../services/auth.service";
+import { httpClient } from "../services/http.client";
+import { pexelsService } from "../services/pexels.service";
 import type {
   User,
   LoginCredentials,
@@ -26,6 +28,7 @@ import type {
  * @property {boolean} isAuthenticated - User authentication status
  * @property {boolean} isLoading - Indicates if an operation is in progress
  * @property {string | null} error - Error message if there was a problem
+ * @property {boolean} sessionExpired - True when the session was closed because the backend rejected the token
  */
 interface AuthState {
   // State
@@ -34,6 +37,7 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  sessionExpired: boolean;
 
   /**
    * Logs in with credentials
@@ -56,6 +60,19 @@ interface AuthState {
    * @returns {Promise<void>}
    */
   logout: () => Promise<void>;
+
+  /**
+   * Ends the session after the backend rejected the token (401)
+   * Clears the persisted session and flags it so the login page can explain why
+   * @returns {void}
+   */
+  expireSession: () => void;
+
+  /**
+   * Hides the "session expired" notice
+   * @returns {void}
+   */
+  clearSessionExpired: () => void;
   
   /**
    * Requests password recovery by email
@@ -151,6 +168,7 @@ const useUserStore = create<AuthState>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      sessionExpired: false,
 
       // Login
       login: async (credentials: LoginCredentials) => {
@@ -162,12 +180,14 @@ const useUserStore = create<AuthState>()(
           console.log('Favorite videos:', response.user.moviesLiked?.length || 0);
           
           localStorage.setItem("token", response.token);
+          pexelsService.clearCache();
           set({
             user: response.user,
             token: response.token,
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            sessionExpired: false,
           });
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : "Login error";
@@ -185,12 +205,14 @@ const useUserStore = create<AuthState>()(
         try {
           const response = await authService.register(data);
           localStorage.setItem("token", response.token);
+          pexelsService.clearCache();
           set({
             user: response.user,
             token: response.token,
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            sessionExpired: false,
           });
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : "Registration error";
@@ -205,8 +227,9 @@ const useUserStore = create<AuthState>()(
       // Logout
       logout: async () => {
         // With JWT we don't need to call the backend
-        // Just clear local state and token
+        // Just clear local state, token and cached videos
         localStorage.removeItem("token");
+        pexelsService.clearCache();
         set({
           user: null,
           token: null,
@@ -216,6 +239,26 @@ const useUserStore = create<AuthState>()(
         });
       },
 
+      // Session expired (401 from backend)
+      expireSession: () => {
+        // Ignore late 401s once the session is already closed
+        if (!useUserStore.getState().isAuthenticated) return;
+
+        console.warn("Session expired, logging out");
+        localStorage.removeItem("token");
+        pexelsService.clearCache();
+        set({
+          user: null,
+          token: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: null,
+          sessionExpired: true,
+        });
+      },
+
+      clearSessionExpired: () => set({ sessionExpired: false }),
+
       // Password recovery
       forgotPassword: async (data: ForgotPasswordData) => {
         set({ isLoading: true, error: null });
@@ -266,13 +309,13 @@ const useUserStore = create<AuthState>()(
           const updatedUser = await authService.updateUser(userId, data);
           
           // Create a new user object with updated data
-          // Keep moviesLiked and other fields that are not updated
+          // Keep moviesLiked: profile updates don't touch it and the local list may be ahead
           const newUserData: User = {
             id: userId,
             name: updatedUser.name ?? data.name ?? currentUser.name,
             email: updatedUser.email ?? data.email ?? currentUser.email,
-            age: updatedUser.age ?? data.age ?? currentUser.age,
-            moviesLiked: updatedUser.moviesLiked ?? currentUser.moviesLiked, // Preserve moviesLiked
+            age: updatedUser.age || data.age || currentUser.age, // 0 = the response had no age
+            moviesLiked: currentUser.moviesLiked,
           };
           
           // Update state with a new object to force re-render
@@ -330,6 +373,7 @@ const useUserStore = create<AuthState>()(
         try {
           await authService.deleteAccount(currentUser);
           localStorage.removeItem("token");
+          pexelsService.clearCache();
           set({
             user: null,
             token: null,
@@ -429,4 +473,7 @@ const useUserStore = create<AuthState>()(
   )
 );
 
+// Any 401 on an authenticated request ends the session
+httpClient.onUnauthorized(() => useUserStore.getState().expireSession());
+
 export default useUserStore;
\ No newline at end of file
@@ -0,0 +1,151 @@
+/**
+ * Zustand store for the watch history
+ * Keeps the videos each user opened, most recent first
+ * Includes localStorage persistence so the history survives reloads
+ *
+ * @module useWatchHistoryStore
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { PexelsVideo } from "../types/pexels.types";
+import type { WatchHistoryEntry } from "../types/history.types";
+
+/**
+ * Maximum number of videos kept per user
+ * @constant {number}
+ */
+const MAX_ENTRIES = 200;
+
+/**
+ * Watch history state interface
+ * @interface WatchHistoryState
+ * @property {Record<string, WatchHistoryEntry[]>} byUser - Watched videos by user ID, most recent first
+ * @property {Record<string, boolean>} pausedByUser - Users who paused the recording of their history
+ */
+interface WatchHistoryState {
+  // State
+  byUser: Record<string, WatchHistoryEntry[]>;
+  pausedByUser: Record<string, boolean>;
+
+  /**
+   * Records that the user opened a video
+   * A video watched again moves to the top instead of being duplicated,
+   * keeping the position where it was left
+   * Nothing is recorded while the user has the history paused
+   * @param {string} userId - Owner of the history
+   * @param {PexelsVideo} video - Watched video
+   * @returns {void}
+   */
+  addEntry: (userId: string, video: PexelsVideo) => void;
+
+  /**
+   * Saves or forgets the position where the user left a video
+   * Videos not in the history are ignored, and so are changes while the history is paused
+   * @param {string} userId - Owner of the history
+   * @param {string} videoId - Watched video
+   * @param {number | null} position - Seconds, or null once it is finished
+   * @returns {void}
+   */
+  setPosition: (userId: string, videoId: string, position: number | null) => void;
+
+  /**
+   * Removes a video from the history
+   * @param {string} userId - Owner of the history
+   * @param {string} videoId - Video to remove
+   * @returns {void}
+   */
+  removeEntry: (userId: string, videoId: string) => void;
+
+  /**
+   * Removes every video from the user's history
+   * @param {string} userId - Owner of the history
+   * @returns {void}
+   */
+  clearHistory: (userId: string) => void;
+
+  /**
+   * Pauses or resumes the recording of the user's history
+   * @param {string} userId - Owner of the history
+   * @param {boolean} paused - True to stop recording watched videos
+   * @returns {void}
+   */
+  setPaused: (userId: string, paused: boolean) => void;
+}
+
+/**
+ * Zustand hook for the watch history
+ *
+ * @example
+ * ```tsx
+ * const history = useWatchHistoryStore((state) => state.byUser[userId]) ?? [];
+ * const addEntry = useWatchHistoryStore((state) => state.addEntry);
+ * ```
+ */
+const useWatchHistoryStore = create<WatchHistoryState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      byUser: {},
+      pausedByUser: {},
+
+      addEntry: (userId: string, video: PexelsVideo) =>
+        set((state) => {
+          if (state.pausedByUser[userId]) return state;
+          const entry: WatchHistoryEntry = {
+            videoId: video._id,
+            url: video.url,
+            image: video.image,
+            author: video.user.name,
+            duration: video.duration,
+            watchedAt: new Date().toISOString(),
+          };
+          const entries = state.byUser[userId] ?? [];
+          const position = entries.find((item) => item.videoId === video._id)?.position;
+          if (position !== undefined) entry.position = position;
+          const rest = entries.filter((item) => item.videoId !== video._id);
+          return {
+            byUser: { ...state.byUser, [userId]: [entry, ...rest].slice(0, MAX_ENTRIES) },
+          };
+        }),
+
+      setPosition: (userId: string, videoId: string, position: number | null) =>
+        set((state) => {
+          if (state.pausedByUser[userId]) return state;
+          const entries = state.byUser[userId] ?? [];
+          const current = entries.find((item) => item.videoId === videoId);
+          if (!current || current.position === (position ?? undefined)) return state;
+          const updated: WatchHistoryEntry = { ...current, position: position ?? undefined };
+          return {
+            byUser: {
+              ...state.byUser,
+              [userId]: entries.map((item) => (item === current ? updated : item)),
+            },
+          };
+        }),
+
+      removeEntry: (userId: string, videoId: string) =>
+        set((state) => ({
+          byUser: {
+            ...state.byUser,
+            [userId]: (state.byUser[userId] ?? []).filter((item) => item.videoId !== videoId),
+          },
+        })),
+
+      clearHistory: (userId: string) =>
+        set((state) => ({
+          byUser: { ...state.byUser, [userId]: [] },
+        })),
+
+      setPaused: (userId: string, paused: boolean) =>
+        set((state) => ({
+          pausedByUser: { ...state.pausedByUser, [userId]: paused },
+        })),
+    }),
+    {
+      name: "watch-history-storage", // name in localStorage
+    }
+  )
+);
+
+export default useWatchHistoryStore;
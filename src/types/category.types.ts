@@ -0,0 +1,21 @@
+/**
+ * TypeScript types for the video category registry
+ */
+
+/**
+ * Languages categories are labelled in
+ */
+export type CategoryLocale = "es" | "en";
+
+/**
+ * Video category
+ * The id is the term sent to the backend ("popular" lists popular videos)
+ */
+export interface VideoCategory {
+  id: string;
+  labels: Record<CategoryLocale, string>;
+  title: string; // Carousel title on the HomePage
+  icon: string[]; // Path data of a 24x24 outline icon
+  searchTerms: string[]; // Other words (ES/EN) that refer to the category
+  isPopular?: boolean; // Uses the popular videos endpoint instead of a search
+}
@@ -0,0 +1,26 @@
+/**
+ * TypeScript types for the watch history
+ */
+
+/**
+ * Video watched by the user
+ * Keeps enough data to list it without asking the backend again
+ */
+export interface WatchHistoryEntry {
+  videoId: string;
+  url?: string; // Pexels page, its slug names the video (absent in entries saved by older versions)
+  image: string;
+  author: string;
+  duration: number; // Seconds
+  watchedAt: string; // ISO date of the last time it was opened
+  position?: number; // Seconds where playback was left, absent when not started or finished
+}
+
+/**
+ * Entries watched on the same calendar day, as listed in the history page
+ */
+export interface WatchHistoryDay {
+  key: string; // Local date, e.g. "2026-10-19"
+  label: string; // "Hoy", "Ayer" or the full date
+  entries: WatchHistoryEntry[];
+}
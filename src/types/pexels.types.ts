@@ -21,6 +21,7 @@ export interface VideoFile {
   file_type: string;
   width: number | null;
   height: number | null;
+  fps: number | null; // Frames per second, null when the backend doesn't report it
   link: string;
 }
 
@@ -64,6 +65,8 @@ export interface PexelsVideoSearchResponse {
   total_results: number;
   url: string;
   videos: PexelsVideo[];
+  next_page: number | null; // Next page number, null on the last page
+  total_pages: number | null; // Null when the backend doesn't report total_results
 }
 
 /**
@@ -75,8 +78,29 @@ export interface PexelsPopularVideosResponse {
   total_results: number;
   url: string;
   videos: PexelsVideo[];
+  next_page: number | null; // Next page number, null on the last page
+  total_pages: number | null; // Null when the backend doesn't report total_results
 }
 
+/**
+ * Advanced search filters
+ * Names follow the Pexels API (size: small = HD, medium = Full HD, large = 4K)
+ */
+export interface VideoSearchFilters {
+  orientation?: "landscape" | "portrait" | "square";
+  size?: "small" | "medium" | "large"; // Minimum resolution
+  minDuration?: number; // Seconds
+  maxDuration?: number; // Seconds
+  addedWithin?: "week" | "month"; // Based on createdAt
+  author?: string; // Case-insensitive match on the uploader's name
+}
+
+/**
+ * Client-side order of a video list
+ * "relevance" keeps the order returned by the backend
+ */
+export type VideoSortOption = "relevance" | "newest" | "likes" | "rating" | "shortest" | "longest";
+
 /**
  * Comment user information
  */
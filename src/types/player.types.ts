@@ -0,0 +1,84 @@
+/**
+ * TypeScript types for the VideoPlayer component
+ */
+
+/**
+ * Languages the player controls are labelled in
+ */
+export type PlayerLocale = "es" | "en";
+
+/**
+ * Subtitle file offered in the captions menu
+ */
+export interface PlayerCaptionTrack {
+  src: string; // WebVTT file
+  srcLang: string; // BCP 47 language, e.g. "es"
+  label: string; // Name shown in the menu
+  default?: boolean; // Shown when the player starts
+}
+
+/**
+ * Entry of the quality menu
+ */
+export interface PlayerQualityOption {
+  id: string;
+  label: string; // e.g. "720p" or "Auto"
+}
+
+/**
+ * Quality level read from an HLS manifest
+ */
+export interface StreamLevel {
+  index: number; // Position in hls.levels
+  resolution: number; // Shorter side in px
+  bitrate: number; // Bits per second declared in the manifest
+}
+
+/**
+ * Buffer growth between two progress events of the player
+ */
+export interface BufferSample {
+  mediaSeconds: number; // Seconds of video added to the buffer
+  elapsed: number; // Wall-clock seconds since the previous sample
+  bufferedAhead: number; // Seconds buffered past the current position
+}
+
+/**
+ * Remembered quality: automatic, or a resolution (shorter side in px, e.g. 720)
+ */
+export type VideoQualityPreference = "auto" | number;
+
+/**
+ * Imperative API exposed through the player ref
+ */
+export interface VideoPlayerHandle {
+  play: () => Promise<void>; // Never rejects; failures show the player's error message
+  pause: () => void;
+  seek: (time: number) => void; // Seconds, clamped to the duration
+  getCurrentTime: () => number;
+  getDuration: () => number; // NaN until the metadata has loaded
+  focus: () => void; // Focuses the player so its keyboard shortcuts work
+}
+
+/**
+ * Texts of the player controls
+ */
+export interface PlayerLabels {
+  player: string;
+  play: string;
+  pause: string;
+  seek: string;
+  timeOf: (current: string, total: string) => string;
+  mute: string;
+  unmute: string;
+  volume: string;
+  captions: string;
+  captionsOff: string;
+  quality: string;
+  speed: string;
+  normalSpeed: string;
+  fullscreen: string;
+  exitFullscreen: string;
+  buffering: string;
+  error: string;
+}
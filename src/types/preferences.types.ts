@@ -0,0 +1,29 @@
+/**
+ * TypeScript types for the user preferences synced with the backend
+ */
+
+/**
+ * Carousel of the HomePage layout
+ * Category carousels reference the category registry by id; query carousels
+ * search a term chosen by the user (e.g. "drones"); the recommended carousel
+ * is computed from the user's activity
+ */
+export type HomeCarousel =
+  | { kind: "recommended"; id: "recommended"; hidden: boolean }
+  | { kind: "category"; id: string; hidden: boolean }
+  | { kind: "query"; id: string; query: string; title: string; hidden: boolean };
+
+/**
+ * HomePage carousels in display order
+ */
+export interface HomeLayout {
+  carousels: HomeCarousel[];
+  updatedAt: string; // ISO date of the last change, the newest copy wins when syncing
+}
+
+/**
+ * Preferences stored in the user profile
+ */
+export interface UserPreferences {
+  homeLayout: HomeLayout | null; // null until the user customizes the HomePage
+}
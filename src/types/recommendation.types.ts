@@ -0,0 +1,42 @@
+/**
+ * TypeScript types for the personalized recommendations
+ */
+
+import type { PexelsVideo } from "./pexels.types";
+
+/**
+ * Video the user rated, kept locally since the backend has no list of a user's ratings
+ */
+export interface RatedVideo {
+  videoId: string;
+  url: string;
+  author: string;
+  rating: number; // 1-5
+  ratedAt: string; // ISO date
+}
+
+/**
+ * What a recommendation is based on
+ */
+export type RecommendationReason = "liked" | "rated" | "watched";
+
+/**
+ * Video the user interacted with, used to find similar ones
+ */
+export interface RecommendationSource {
+  videoId: string;
+  title: string; // Readable title shown in the "why" tooltip
+  tags: string[]; // Keywords from the video slug plus its author
+  reason: RecommendationReason;
+  rating?: number; // Only for "rated"
+  weight: number; // How much the source counts
+}
+
+/**
+ * Recommended video with the source that contributed the most to it
+ */
+export interface Recommendation {
+  video: PexelsVideo;
+  source: RecommendationSource;
+  score: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * TypeScript types for the search box query language
+ */
+
+import type { VideoSearchFilters, VideoSortOption } from "./pexels.types";
+
+/**
+ * Syntax error found while parsing a query
+ * start/end are character offsets in the original input (end is exclusive)
+ */
+export interface SearchQueryError {
+  start: number;
+  end: number;
+  message: string; // Spanish message shown to the user
+}
+
+/**
+ * Result of parsing a query such as `ocean author:"Jane Doe" duration:<30 sort:rating`
+ */
+export interface SearchQuery {
+  text: string; // Free text left after removing the qualifiers
+  filters: VideoSearchFilters; // Only the filters present in the query
+  sort?: VideoSortOption;
+  errors: SearchQueryError[];
+}
+
+/**
+ * Suggestion offered by the search box autocomplete
+ */
+export interface SearchSuggestion {
+  kind: "recent" | "category" | "author";
+  label: string; // Text shown in the list
+  query: string; // Full search box text after choosing it
+}
+
+/**
+ * Search saved by the user under a name
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // Search params (category, filters, sort) in a canonical order
+  createdAt: string;
+  lastVisitedAt: string; // Start of the last visit, videos created after it are new
+  seenIds: string[]; // Videos already shown in previous visits
+}
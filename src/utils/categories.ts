@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Registry of the video categories shown in the app
+ * Single list used by the HomePage carousels, the SearchPage quick filters and
+ * labels, the SiteMapPage and the search suggestions
+ * @module utils/categories
+ */
+
+import type { CategoryLocale, VideoCategory } from "../types/category.types";
+import { simplifyText } from "./text";
+
+/**
+ * Categories in HomePage order
+ * Icons are Tabler outline icons
+ * @constant {VideoCategory[]}
+ */
+export const VIDEO_CATEGORIES: VideoCategory[] = [
+  {
+    id: "popular",
+    labels: { es: "Populares", en: "Popular" },
+    title: "Videos Populares",
+    icon: [
+      "M12 10.941c2.333 -3.308 .167 -7.823 -1 -8.941c0 3.395 -2.235 5.299 -3.667 6.706c-1.43 1.408 -2.333 3.621 -2.333 5.588c0 3.704 3.134 6.706 7 6.706s7 -3.002 7 -6.706c0 -1.712 -1.232 -4.403 -2.333 -5.588c-2.084 3.353 -3.257 3.353 -4.667 2.235",
+    ],
+    searchTerms: ["popular", "populares", "tendencias", "trending"],
+    isPopular: true,
+  },
+  {
+    id: "entertainment",
+    labels: { es: "Entretenimiento", en: "Entertainment" },
+    title: "Entretenimiento",
+    icon: [
+      "M4 4m0 2a2 2 0 0 1 2 -2h12a2 2 0 0 1 2 2v12a2 2 0 0 1 -2 2h-12a2 2 0 0 1 -2 -2z",
+      "M8 4l0 16",
+      "M16 4l0 16",
+      "M4 8l4 0",
+      "M4 16l4 0",
+      "M4 12l16 0",
+      "M16 8l4 0",
+      "M16 16l4 0",
+    ],
+    searchTerms: ["entretenimiento", "ocio", "cine", "movies"],
+  },
+  {
+    id: "travel",
+    labels: { es: "Viajes", en: "Travel" },
+    title: "Viajes",
+    icon: [
+      "M3 12a9 9 0 1 0 18 0a9 9 0 0 0 -18 0",
+      "M3.6 9h16.8",
+      "M3.6 15h16.8",
+      "M11.5 3a17 17 0 0 0 0 18",
+      "M12.5 3a17 17 0 0 1 0 18",
+    ],
+    searchTerms: ["viajes", "viaje", "turismo", "trip"],
+  },
+  {
+    id: "music",
+    labels: { es: "Música", en: "Music" },
+    title: "Música",
+    icon: [
+      "M3 17a3 3 0 1 0 6 0a3 3 0 0 0 -6 0",
+      "M13 17a3 3 0 1 0 6 0a3 3 0 0 0 -6 0",
+      "M9 17v-13h10v13",
+      "M9 8h10",
+    ],
+    searchTerms: ["musica", "conciertos", "concert"],
+  },
+  {
+    id: "fashion",
+    labels: { es: "Moda", en: "Fashion" },
+    title: "Moda",
+    icon: ["M15 4l6 2v5h-3v8a1 1 0 0 1 -1 1h-10a1 1 0 0 1 -1 -1v-8h-3v-5l6 -2a3 3 0 0 0 6 0"],
+    searchTerms: ["moda", "ropa", "style"],
+  },
+  {
+    id: "games",
+    labels: { es: "Videojuegos", en: "Games" },
+    title: "Videojuegos",
+    icon: [
+      "M2 6m0 2a2 2 0 0 1 2 -2h16a2 2 0 0 1 2 2v8a2 2 0 0 1 -2 2h-16a2 2 0 0 1 -2 -2z",
+      "M6 12h4m-2 -2v4",
+      "M15 11l0 .01",
+      "M18 13l0 .01",
+    ],
+    searchTerms: ["videojuegos", "juegos", "gaming", "video games"],
+  },
+  {
+    id: "technology",
+    labels: { es: "Tecnología", en: "Technology" },
+    title: "Tecnología",
+    icon: [
+      "M5 5m0 1a1 1 0 0 1 1 -1h12a1 1 0 0 1 1 1v12a1 1 0 0 1 -1 1h-12a1 1 0 0 1 -1 -1z",
+      "M9 9h6v6h-6z",
+      "M3 10h2",
+      "M3 14h2",
+      "M10 3v2",
+      "M14 3v2",
+      "M21 10h-2",
+      "M21 14h-2",
+      "M14 21v-2",
+      "M10 21v-2",
+    ],
+    searchTerms: ["tecnologia", "tech", "informatica"],
+  },
+  {
+    id: "sports",
+    labels: { es: "Deportes", en: "Sports" },
+    title: "Deportes",
+    icon: [
+      "M12 12m-9 0a9 9 0 1 0 18 0a9 9 0 1 0 -18 0",
+      "M12 7l4.76 3.45l-1.76 5.55h-6l-1.76 -5.55z",
+      "M12 7v-4m3 13l2.5 3m-.74 -8.55l3.74 -1.45m-11.44 7.05l-2.56 2.95m.74 -8.55l-3.74 -1.45",
+    ],
+    searchTerms: ["deportes", "deporte", "sport", "futbol", "football"],
+  },
+];
+
+/**
+ * Finds the category a search term refers to
+ * Matches the id, the labels in every language and the extra search terms,
+ * ignoring case and accents
+ *
+ * @param {string} term - Search term, e.g. the category URL param
+ * @returns {VideoCategory | undefined} Matching category
+ * @example
+ * findCategory("Música")?.id; // "music"
+ */
+export const findCategory = (term: string): VideoCategory | undefined => {
+  const wanted = simplifyText(term.trim());
+  if (!wanted) return undefined;
+  return VIDEO_CATEGORIES.find((category) =>
+    [category.id, ...Object.values(category.labels), ...category.searchTerms].some(
+      (candidate) => simplifyText(candidate) === wanted
+    )
+  );
+};
+
+/**
+ * Label for a search term: the category label when it names a category,
+ * otherwise the term itself with its first letter capitalized
+ *
+ * @param {string} term - Search term
+ * @param {CategoryLocale} [locale="es"] - Label language
+ * @returns {string} Label shown to the user
+ * @example
+ * getCategoryLabel("technology"); // "Tecnología"
+ * getCategoryLabel("ocean"); // "Ocean"
+ */
+export const getCategoryLabel = (term: string, locale: CategoryLocale = "es"): string => {
+  const category = findCategory(term);
+  if (category) return category.labels[locale];
+  const trimmed = term.trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+};
+
+/**
+ * Search page path listing a category
+ *
+ * @param {VideoCategory} category - Category
+ * @returns {string} Path, e.g. "/search?category=music"
+ */
+export const getCategoryPath = (category: VideoCategory): string =>
+  `/search?category=${encodeURIComponent(category.id)}`;
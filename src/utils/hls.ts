@@ -0,0 +1,44 @@
+/**
+ * @fileoverview HLS (HTTP Live Streaming) detection
+ * Safari and iOS play HLS manifests natively; other browsers need hls.js,
+ * which feeds the segments to the <video> element through Media Source Extensions
+ * @module utils/hls
+ */
+
+/**
+ * MIME type of HLS manifests
+ * @constant {string}
+ */
+export const HLS_MIME_TYPE = "application/vnd.apple.mpegurl";
+
+/**
+ * Whether a URL points to an HLS manifest
+ *
+ * @param {string} url - Video URL
+ * @returns {boolean} True for .m3u8 URLs
+ * @example
+ * isHlsSource("/hls/sample/master.m3u8"); // true
+ * isHlsSource("/videos/clip.mp4");        // false
+ */
+export const isHlsSource = (url: string): boolean => /\.m3u8($|[?#])/i.test(url);
+
+/**
+ * Whether a video element plays HLS without hls.js
+ *
+ * @param {HTMLVideoElement} video - Element that will play the manifest
+ * @returns {boolean} True in Safari and iOS browsers
+ */
+export const canPlayHlsNatively = (video: HTMLVideoElement): boolean => video.canPlayType(HLS_MIME_TYPE) !== "";
+
+/**
+ * Whether this browser can play HLS at all, natively or through hls.js
+ * Mirrors Hls.isSupported() so hls.js doesn't have to be loaded to know
+ *
+ * @returns {boolean} True when HLS files can be offered
+ */
+export const canPlayHls = (): boolean => {
+  if (canPlayHlsNatively(document.createElement("video"))) return true;
+  const mediaSource =
+    window.MediaSource ?? (window as Window & { ManagedMediaSource?: typeof MediaSource }).ManagedMediaSource;
+  return typeof mediaSource?.isTypeSupported === "function" && mediaSource.isTypeSupported('video/mp4; codecs="avc1.42E01E,mp4a.40.2"');
+};
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Helpers for the personalized HomePage layout
+ * The layout lists the carousels in display order. The default one has the
+ * recommendations followed by a carousel per registered category; saved layouts
+ * are reconciled with the registry so renamed or new categories never break the page
+ * @module utils/homeLayout
+ */
+
+import type { HomeCarousel, HomeLayout } from "../types/preferences.types";
+import { VIDEO_CATEGORIES, getCategoryLabel } from "./categories";
+
+/**
+ * Title of the recommendations carousel
+ * @constant {string}
+ */
+export const RECOMMENDED_TITLE = "Recomendados para ti";
+
+/**
+ * Props of the VideosCarousel rendering a HomePage carousel
+ * @property {string} title - Carousel title
+ * @property {string} [category] - Search term
+ * @property {boolean} [isPopular] - Loads popular videos instead of searching
+ */
+export interface HomeCarouselSource {
+  title: string;
+  category?: string;
+  isPopular?: boolean;
+}
+
+/**
+ * Default layout: the recommendations, then one carousel per category in registry order
+ *
+ * @returns {HomeCarousel[]} Default carousels, all visible
+ */
+export const getDefaultHomeLayout = (): HomeCarousel[] => [
+  { kind: "recommended", id: "recommended", hidden: false },
+  ...VIDEO_CATEGORIES.map((category): HomeCarousel => ({ kind: "category", id: category.id, hidden: false })),
+];
+
+/**
+ * Reconciles a saved layout with the category registry
+ * Unknown categories and duplicates are dropped; carousels added to the
+ * default list after the layout was saved are appended at the end
+ *
+ * @param {HomeLayout | null | undefined} layout - Saved layout
+ * @returns {HomeCarousel[]} Carousels to show, the default list if nothing was saved
+ * @example
+ * const carousels = resolveHomeLayout(stored).filter((carousel) => !carousel.hidden);
+ */
+export const resolveHomeLayout = (layout: HomeLayout | null | undefined): HomeCarousel[] => {
+  if (!layout) return getDefaultHomeLayout();
+
+  const seen = new Set<string>();
+  const carousels = layout.carousels.filter((carousel) => {
+    const known = carousel.kind !== "category" || VIDEO_CATEGORIES.some((category) => category.id === carousel.id);
+    if (!known || seen.has(carousel.id)) return false;
+    seen.add(carousel.id);
+    return true;
+  });
+  const missing = getDefaultHomeLayout().filter((carousel) => !seen.has(carousel.id));
+  return [...carousels, ...missing];
+};
+
+/**
+ * Creates a carousel for a custom search
+ *
+ * @param {string} query - Search term, e.g. "drones"
+ * @param {string} [title] - Title shown above it (defaults to the capitalized query)
+ * @returns {HomeCarousel} Visible query carousel
+ */
+export const createQueryCarousel = (query: string, title?: string): HomeCarousel => ({
+  kind: "query",
+  id: `query-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  query: query.trim(),
+  title: title?.trim() || getCategoryLabel(query),
+  hidden: false,
+});
+
+/**
+ * Moves a carousel up or down the list
+ *
+ * @param {HomeCarousel[]} carousels - Current order
+ * @param {number} index - Position of the carousel to move
+ * @param {number} offset - -1 to move up, 1 to move down
+ * @returns {HomeCarousel[]} New order (the same array if the move is out of bounds)
+ */
+export const moveCarousel = (carousels: HomeCarousel[], index: number, offset: number): HomeCarousel[] => {
+  const target = index + offset;
+  if (index < 0 || target < 0 || index >= carousels.length || target >= carousels.length) return carousels;
+  const next = [...carousels];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * Title and search of a carousel, ready for VideosCarousel
+ * The recommended carousel only has a title (it's rendered by RecommendedCarousel)
+ *
+ * @param {HomeCarousel} carousel - Layout entry
+ * @returns {HomeCarouselSource} VideosCarousel props
+ */
+export const getHomeCarouselSource = (carousel: HomeCarousel): HomeCarouselSource => {
+  if (carousel.kind === "recommended") return { title: RECOMMENDED_TITLE };
+  if (carousel.kind === "query") return { title: carousel.title, category: carousel.query };
+  const category = VIDEO_CATEGORIES.find((item) => item.id === carousel.id);
+  if (!category) return { title: getCategoryLabel(carousel.id), category: carousel.id };
+  return category.isPopular
+    ? { title: category.title, isPopular: true }
+    : { title: category.title, category: category.id };
+};
@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Helpers for global keyboard shortcuts
+ * @module utils/keyboard
+ */
+
+/**
+ * Checks whether a key event comes from a place where the user is typing
+ * Global single-key shortcuts (like "/") must be ignored there
+ *
+ * @param {EventTarget | null} target - Event target
+ * @returns {boolean} True for inputs, textareas, selects and contenteditable elements
+ * @example
+ * if (e.key === "/" && !isEditableTarget(e.target)) focusSearch();
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+};
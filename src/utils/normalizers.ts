@@ -0,0 +1,426 @@
+/**
+ * @fileoverview Runtime guards for backend payloads
+ * Every response goes through these functions before reaching the UI:
+ * legacy field names are mapped to the current ones, malformed list items are
+ * dropped with a warning, and a broken contract raises a ContractError
+ * @module utils/normalizers
+ */
+
+import type { AuthResponse, User } from "../types/auth.types";
+import type {
+  Comment,
+  PexelsUser,
+  PexelsVideo,
+  PexelsVideoSearchResponse,
+  VideoFile,
+  VideoPicture,
+} from "../types/pexels.types";
+import type { HomeCarousel, UserPreferences } from "../types/preferences.types";
+import type { RatingStats } from "../services/pexels.service";
+import { ContractError } from "../services/http.client";
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Author used when a video arrives without user information
+ * @constant {PexelsUser}
+ */
+const UNKNOWN_AUTHOR: PexelsUser = { _id: "", name: "Autor desconocido", url: "" };
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a non-empty string, accepting numbers (MongoDB/Pexels IDs sometimes arrive as numbers)
+ */
+const readString = (value: unknown): string | null => {
+  if (typeof value === "string" && value.trim()) return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+/**
+ * Reads a finite number, accepting numeric strings
+ */
+const readNumber = (value: unknown): number | null => {
+  const number = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Reads an ID from an object that may use `_id` or `id`, or from a bare string
+ */
+const readId = (value: unknown): string | null =>
+  isRecord(value) ? readString(value._id) ?? readString(value.id) : readString(value);
+
+/**
+ * Normalizes a list, dropping (and logging) the items the guard rejects
+ *
+ * @template T
+ * @param {unknown[]} items - Raw items
+ * @param {Function} normalize - Guard returning null for malformed items
+ * @param {string} entity - Name used in the warning
+ * @returns {T[]} Valid items
+ */
+const normalizeList = <T>(items: unknown[], normalize: (item: unknown) => T | null, entity: string): T[] => {
+  const result: T[] = [];
+  for (const item of items) {
+    const normalized = normalize(item);
+    if (normalized) {
+      result.push(normalized);
+    } else {
+      console.warn(`Dropping malformed ${entity} from the backend:`, item);
+    }
+  }
+  return result;
+};
+
+/**
+ * Normalizes a video file, accepting upper-case qualities and `url` instead of `link`
+ */
+const normalizeVideoFile = (raw: unknown, index: number): VideoFile | null => {
+  if (!isRecord(raw)) return null;
+  const link = readString(raw.link) ?? readString(raw.url);
+  if (!link) return null;
+
+  const quality = String(raw.quality ?? "").toLowerCase();
+  return {
+    _id: readId(raw) ?? `file-${index}`,
+    quality: quality === "hd" || quality === "hls" ? quality : "sd",
+    file_type: readString(raw.file_type) ?? readString(raw.fileType) ?? "video/mp4",
+    width: readNumber(raw.width),
+    height: readNumber(raw.height),
+    fps: readNumber(raw.fps),
+    link,
+  };
+};
+
+/**
+ * Normalizes a preview picture
+ */
+const normalizeVideoPicture = (raw: unknown, index: number): VideoPicture | null => {
+  if (!isRecord(raw)) return null;
+  const picture = readString(raw.picture);
+  if (!picture) return null;
+  return { _id: readId(raw) ?? `picture-${index}`, picture, nr: readNumber(raw.nr) ?? index };
+};
+
+/**
+ * Normalizes the author of a video
+ * Accepts the `user` object or the legacy flat `user_name` / `user_url` fields
+ */
+const normalizeAuthor = (raw: RawRecord): PexelsUser => {
+  if (isRecord(raw.user)) {
+    const name = readString(raw.user.name);
+    if (name) {
+      return { _id: readId(raw.user) ?? "", name, url: readString(raw.user.url) ?? "" };
+    }
+  }
+  const legacyName = readString(raw.user_name) ?? readString(raw.author);
+  return legacyName ? { ...UNKNOWN_AUTHOR, name: legacyName, url: readString(raw.user_url) ?? "" } : UNKNOWN_AUTHOR;
+};
+
+/**
+ * Validates and normalizes a video
+ * - `_id` is required (falls back to `id`)
+ * - `image` falls back to the first preview picture
+ * - Invalid video files and pictures are removed
+ * - Missing author becomes "Autor desconocido"
+ *
+ * @param {unknown} raw - Video as sent by the backend
+ * @returns {PexelsVideo | null} Normalized video, or null if it can't be displayed
+ * @example
+ * const video = normalizeVideo(data.video);
+ */
+export const normalizeVideo = (raw: unknown): PexelsVideo | null => {
+  if (!isRecord(raw)) return null;
+
+  const id = readString(raw._id) ?? readString(raw.id);
+  if (!id) return null;
+
+  const files = Array.isArray(raw.video_files) ? raw.video_files : [];
+  const pictures = Array.isArray(raw.video_pictures) ? raw.video_pictures : [];
+  const video_files = files.map(normalizeVideoFile).filter((file): file is VideoFile => file !== null);
+  const video_pictures = pictures
+    .map(normalizeVideoPicture)
+    .filter((picture): picture is VideoPicture => picture !== null);
+
+  const image = readString(raw.image) ?? video_pictures[0]?.picture;
+  if (!image) return null;
+
+  return {
+    _id: id,
+    // Legacy payloads sent the Pexels ID as `id` next to the MongoDB `_id`
+    pexelsId: readNumber(raw.pexelsId) ?? (readString(raw._id) ? readNumber(raw.id) : null) ?? undefined,
+    width: readNumber(raw.width) ?? 0,
+    height: readNumber(raw.height) ?? 0,
+    url: readString(raw.url) ?? "",
+    image,
+    duration: readNumber(raw.duration) ?? 0,
+    user: normalizeAuthor(raw),
+    video_files,
+    video_pictures,
+    likesCount: readNumber(raw.likesCount) ?? readNumber(raw.likes) ?? 0,
+    averageRating: readNumber(raw.averageRating) ?? 0,
+    totalRatings: readNumber(raw.totalRatings) ?? 0,
+    createdAt: readString(raw.createdAt) ?? undefined,
+    updatedAt: readString(raw.updatedAt) ?? undefined,
+  };
+};
+
+/**
+ * Normalizes the response of the single video endpoint (`{ video }` or the bare video)
+ *
+ * @param {unknown} raw - Response body
+ * @returns {PexelsVideo} Normalized video
+ * @throws {ContractError} If the body has no valid video
+ */
+export const normalizeVideoResponse = (raw: unknown): PexelsVideo => {
+  const video = normalizeVideo(isRecord(raw) && "video" in raw ? raw.video : raw);
+  if (!video) throw new ContractError("video", "missing _id or image", raw);
+  return video;
+};
+
+/**
+ * Reads the next page from `next_page`, which may be a number or a Pexels style URL (`...?page=3`)
+ */
+const readNextPage = (value: unknown): number | null | undefined => {
+  if (value === null) return null;
+  const number = readNumber(value);
+  if (number !== null) return number;
+  if (typeof value === "string") {
+    const match = value.match(/[?&]page=(\d+)/);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+};
+
+/**
+ * Normalizes a video list response
+ * Accepts a bare array, `{ videos }` or `{ results }`. Pagination fields sent by the
+ * backend are kept; missing ones are filled from the request.
+ * Without `total_results` the end is detected by a page shorter than `per_page`
+ *
+ * @param {unknown} raw - Response body
+ * @param {{page: number, perPage: number}} request - Page and page size that were requested
+ * @returns {PexelsVideoSearchResponse} Normalized list with next_page and total_pages
+ * @throws {ContractError} If the body has no video array
+ * @example
+ * const response = normalizeVideoList(data, { page: 2, perPage: 15 });
+ * response.next_page; // 3, or null on the last page
+ */
+export const normalizeVideoList = (
+  raw: unknown,
+  request: { page: number; perPage: number }
+): PexelsVideoSearchResponse => {
+  const record = isRecord(raw) ? raw : {};
+  const items = Array.isArray(raw) ? raw : Array.isArray(record.videos) ? record.videos : record.results;
+  if (!Array.isArray(items)) throw new ContractError("video list", "missing videos array", raw);
+
+  const videos = normalizeList(items, normalizeVideo, "video");
+  const page = readNumber(record.page) ?? request.page;
+  const perPage = readNumber(record.per_page) ?? readNumber(record.perPage) ?? request.perPage;
+  const total = readNumber(record.total_results) ?? readNumber(record.total);
+  const totalPages = total !== null ? Math.max(1, Math.ceil(total / Math.max(1, perPage))) : null;
+
+  // Malformed items don't count: a short page is decided on what the backend sent
+  const fallbackNextPage = totalPages !== null
+    ? (page < totalPages ? page + 1 : null)
+    : (items.length >= perPage ? page + 1 : null);
+
+  return {
+    page,
+    per_page: perPage,
+    total_results: total ?? (page - 1) * perPage + videos.length,
+    url: readString(record.url) ?? "",
+    videos,
+    next_page: readNextPage(record.next_page) ?? fallbackNextPage,
+    total_pages: totalPages,
+  };
+};
+
+/**
+ * Validates and normalizes a comment
+ * Accepts the legacy `content` field and authors sent as a `user` object
+ *
+ * @param {unknown} raw - Comment as sent by the backend
+ * @returns {Comment | null} Normalized comment, or null if malformed
+ */
+export const normalizeComment = (raw: unknown): Comment | null => {
+  if (!isRecord(raw)) return null;
+
+  const id = readId(raw);
+  const text = readString(raw.text) ?? readString(raw.content);
+  const userId = readString(raw.userId) ?? readId(raw.user);
+  if (!id || !text || !userId) return null;
+
+  const user = isRecord(raw.user) ? raw.user : null;
+  const userName = readString(raw.userName) ?? (user && readString(user.name)) ?? "Usuario";
+
+  return {
+    _id: id,
+    userId,
+    userName,
+    text,
+    createdAt: readString(raw.createdAt) ?? new Date(0).toISOString(),
+    updatedAt: readString(raw.updatedAt) ?? undefined,
+    ...(user && { user: { _id: userId, name: userName, email: readString(user.email) ?? "" } }),
+  };
+};
+
+/**
+ * Normalizes a comment list response (`{ comments }` or a bare array)
+ *
+ * @param {unknown} raw - Response body
+ * @returns {Comment[]} Valid comments (an absent list means no comments)
+ * @throws {ContractError} If `comments` is present but not an array
+ */
+export const normalizeComments = (raw: unknown): Comment[] => {
+  const items = Array.isArray(raw) ? raw : isRecord(raw) ? raw.comments ?? [] : null;
+  if (!Array.isArray(items)) throw new ContractError("comment list", "comments is not an array", raw);
+  return normalizeList(items, normalizeComment, "comment");
+};
+
+/**
+ * Normalizes the response of the comment mutations (`{ comment }` or the bare comment)
+ *
+ * @param {unknown} raw - Response body
+ * @returns {Comment} Normalized comment
+ * @throws {ContractError} If the body has no valid comment
+ */
+export const normalizeCommentResponse = (raw: unknown): Comment => {
+  const comment = normalizeComment(isRecord(raw) && "comment" in raw ? raw.comment : raw);
+  if (!comment) throw new ContractError("comment", "missing _id, userId or text", raw);
+  return comment;
+};
+
+/**
+ * Validates and normalizes a user
+ * Accepts `_id` instead of `id` and liked videos sent as objects
+ *
+ * @param {unknown} raw - User as sent by the backend (or `{ user }`)
+ * @returns {User} Normalized user
+ * @throws {ContractError} If id, name or email are missing
+ */
+export const normalizeUser = (raw: unknown): User => {
+  const source = isRecord(raw) && isRecord(raw.user) ? raw.user : raw;
+  if (!isRecord(source)) throw new ContractError("user", "not an object", raw);
+
+  const id = readId(source);
+  const name = readString(source.name);
+  const email = readString(source.email);
+  if (!id || !name || !email) throw new ContractError("user", "missing id, name or email", raw);
+
+  const liked = Array.isArray(source.moviesLiked) ? source.moviesLiked : [];
+  return {
+    id,
+    name,
+    email,
+    age: readNumber(source.age) ?? 0,
+    moviesLiked: liked.map(readId).filter((videoId): videoId is string => videoId !== null),
+  };
+};
+
+/**
+ * Normalizes the login/register response
+ * Accepts `accessToken` instead of `token` and a `data` wrapper
+ *
+ * @param {unknown} raw - Response body
+ * @returns {AuthResponse} User and token
+ * @throws {ContractError} If the token or the user are missing
+ */
+export const normalizeAuthResponse = (raw: unknown): AuthResponse => {
+  const source = isRecord(raw) && isRecord(raw.data) ? raw.data : raw;
+  if (!isRecord(source)) throw new ContractError("auth response", "not an object", raw);
+
+  const token = readString(source.token) ?? readString(source.accessToken);
+  if (!token) throw new ContractError("auth response", "missing token", raw);
+
+  return { user: normalizeUser(source.user), token };
+};
+
+/**
+ * Normalizes a rating summary (`averageRating` and `totalRatings`)
+ * Accepts the legacy `average` / `count` names
+ *
+ * @param {unknown} raw - Response body
+ * @returns {{averageRating: number, totalRatings: number}} Rating summary
+ * @throws {ContractError} If the body is not an object
+ */
+export const normalizeRatingSummary = (raw: unknown): { averageRating: number; totalRatings: number } => {
+  if (!isRecord(raw)) throw new ContractError("rating", "not an object", raw);
+  return {
+    averageRating: readNumber(raw.averageRating) ?? readNumber(raw.average) ?? 0,
+    totalRatings: readNumber(raw.totalRatings) ?? readNumber(raw.count) ?? 0,
+  };
+};
+
+/**
+ * Validates and normalizes rating statistics
+ * Ratings outside 1-5 or without a user are dropped
+ *
+ * @param {unknown} raw - Response body
+ * @returns {RatingStats} Normalized statistics
+ * @throws {ContractError} If the body is not an object
+ */
+export const normalizeRatingStats = (raw: unknown): RatingStats => {
+  const summary = normalizeRatingSummary(raw);
+  const items = isRecord(raw) && Array.isArray(raw.ratings) ? raw.ratings : [];
+
+  const ratings = normalizeList(
+    items,
+    (item) => {
+      if (!isRecord(item)) return null;
+      const userId = readString(item.userId) ?? readId(item.user);
+      const rating = readNumber(item.rating);
+      if (!userId || rating === null || rating < 1 || rating > 5) return null;
+      return { userId, rating, createdAt: readString(item.createdAt) ?? new Date(0).toISOString() };
+    },
+    "rating"
+  );
+
+  return { ...summary, totalRatings: summary.totalRatings || ratings.length, ratings };
+};
+
+/**
+ * Validates a HomePage carousel
+ * Category carousels need an id; query carousels need an id and a query
+ */
+const normalizeHomeCarousel = (raw: unknown): HomeCarousel | null => {
+  if (!isRecord(raw)) return null;
+  const id = readString(raw.id);
+  if (!id) return null;
+  const hidden = raw.hidden === true;
+
+  if (raw.kind === "recommended") return { kind: "recommended", id: "recommended", hidden };
+  if (raw.kind === "category") return { kind: "category", id, hidden };
+  if (raw.kind === "query") {
+    const query = readString(raw.query)?.trim();
+    if (!query) return null;
+    return { kind: "query", id, query, title: readString(raw.title)?.trim() || query, hidden };
+  }
+  return null;
+};
+
+/**
+ * Normalizes the user preferences (`{ preferences }` or the bare object)
+ * A malformed HomePage layout counts as not customized
+ *
+ * @param {unknown} raw - Response body
+ * @returns {UserPreferences} Normalized preferences
+ * @throws {ContractError} If the body is not an object
+ */
+export const normalizeUserPreferences = (raw: unknown): UserPreferences => {
+  const source = isRecord(raw) && isRecord(raw.preferences) ? raw.preferences : raw;
+  if (!isRecord(source)) throw new ContractError("preferences", "not an object", raw);
+
+  const layout = isRecord(source.homeLayout) ? source.homeLayout : null;
+  if (!layout || !Array.isArray(layout.carousels)) return { homeLayout: null };
+
+  return {
+    homeLayout: {
+      carousels: normalizeList(layout.carousels, normalizeHomeCarousel, "home carousel"),
+      updatedAt: readString(layout.updatedAt) ?? new Date(0).toISOString(),
+    },
+  };
+};
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Texts and helpers of the custom video player
+ * @module utils/player
+ */
+
+import type { PlayerLabels, PlayerLocale } from "../types/player.types";
+
+/**
+ * Control labels by language
+ * @constant
+ */
+export const PLAYER_LABELS: Record<PlayerLocale, PlayerLabels> = {
+  es: {
+    player: "Reproductor de video",
+    play: "Reproducir",
+    pause: "Pausar",
+    seek: "Posición del video",
+    timeOf: (current, total) => `${current} de ${total}`,
+    mute: "Silenciar",
+    unmute: "Activar sonido",
+    volume: "Volumen",
+    captions: "Subtítulos",
+    captionsOff: "Desactivados",
+    quality: "Calidad",
+    speed: "Velocidad",
+    normalSpeed: "Normal",
+    fullscreen: "Pantalla completa",
+    exitFullscreen: "Salir de pantalla completa",
+    buffering: "Cargando...",
+    error: "No se pudo reproducir el video",
+  },
+  en: {
+    player: "Video player",
+    play: "Play",
+    pause: "Pause",
+    seek: "Video position",
+    timeOf: (current, total) => `${current} of ${total}`,
+    mute: "Mute",
+    unmute: "Unmute",
+    volume: "Volume",
+    captions: "Subtitles",
+    captionsOff: "Off",
+    quality: "Quality",
+    speed: "Speed",
+    normalSpeed: "Normal",
+    fullscreen: "Full screen",
+    exitFullscreen: "Exit full screen",
+    buffering: "Loading...",
+    error: "The video could not be played",
+  },
+};
+
+/**
+ * Playback speeds offered in the speed menu
+ * @constant {number[]}
+ */
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * Seconds skipped by the arrow keys
+ * @constant {number}
+ */
+export const SEEK_STEP = 5;
+
+/**
+ * Volume change of the arrow keys (0-1)
+ * @constant {number}
+ */
+export const VOLUME_STEP = 0.1;
+
+/**
+ * Formats seconds as m:ss or h:mm:ss
+ *
+ * @param {number} seconds - Time in seconds (NaN and negatives show as 0:00)
+ * @returns {string} Formatted time
+ * @example
+ * formatPlayerTime(83);   // "1:23"
+ * formatPlayerTime(3725); // "1:02:05"
+ */
+export const formatPlayerTime = (seconds: number): string => {
+  const total = Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : 0;
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+};
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Personalized recommendations
+ * Videos have no tags, so keywords are taken from the slug of their Pexels URL
+ * ("https://www.pexels.com/video/drone-view-of-a-beach-123/" -> drone, view, beach)
+ * plus their author. Candidates are scored by the keywords they share with the
+ * videos the user liked, rated highly or watched recently
+ * @module utils/recommendations
+ */
+
+import type { PexelsVideo } from "../types/pexels.types";
+import type { WatchHistoryEntry } from "../types/history.types";
+import type {
+  RatedVideo,
+  Recommendation,
+  RecommendationReason,
+  RecommendationSource,
+} from "../types/recommendation.types";
+
+/**
+ * Weight of each kind of source
+ * Ratings use the rating itself: 4 stars counts 2, 5 stars counts 3
+ * @constant
+ */
+const SOURCE_WEIGHTS: Record<Exclude<RecommendationReason, "rated">, number> = {
+  liked: 3,
+  watched: 1,
+};
+
+/**
+ * Lowest rating that makes a video a source
+ * @constant {number}
+ */
+const MIN_SOURCE_RATING = 4;
+
+/**
+ * Words that say nothing about the content (English and Spanish)
+ * @constant
+ */
+const STOPWORDS = new Set([
+  "the", "and", "with", "from", "for", "into", "over", "under", "near", "its", "their", "this", "that",
+  "video", "footage", "clip", "view", "shot", "close", "closeup", "person", "people", "man", "woman",
+  "los", "las", "del", "con", "por", "para", "una", "uno", "sobre",
+]);
+
+/**
+ * Slug of a Pexels video URL without the trailing numeric ID
+ *
+ * @param {string} url - Pexels page URL
+ * @returns {string[]} Lower-case slug words
+ */
+const getSlugWords = (url: string): string[] => {
+  const slug = url.split("/").filter(Boolean).pop() ?? "";
+  return slug
+    .toLowerCase()
+    .split("-")
+    .filter((word) => word && !/^\d+$/.test(word));
+};
+
+/**
+ * Keywords describing a video: meaningful slug words and its author
+ *
+ * @param {string} url - Pexels page URL
+ * @param {string} [author] - Author name
+ * @returns {string[]} Unique keywords (the author is prefixed with "@")
+ * @example
+ * getVideoTags("https://www.pexels.com/video/waves-crashing-on-the-shore-856971/", "Jane Doe");
+ * // ["waves", "crashing", "shore", "@jane doe"]
+ */
+export const getVideoTags = (url: string, author?: string): string[] => {
+  const words = getSlugWords(url).filter((word) => word.length >= 3 && !STOPWORDS.has(word));
+  if (author) words.push(`@${author.toLowerCase()}`);
+  return [...new Set(words)];
+};
+
+/**
+ * Readable title of a video, taken from its slug
+ *
+ * @param {string} url - Pexels page URL
+ * @param {string} author - Author name, used when the URL has no slug
+ * @returns {string} Title, e.g. "Waves crashing on the shore"
+ */
+export const getVideoTitle = (url: string, author: string): string => {
+  const words = getSlugWords(url).join(" ");
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : `Video de ${author}`;
+};
+
+/**
+ * Builds the sources of the recommendations from the user's activity
+ * A video appears once, under its strongest reason (liked > rated > watched)
+ *
+ * @param {PexelsVideo[]} liked - Liked videos
+ * @param {RatedVideo[]} rated - Rated videos (only the high ratings are used)
+ * @param {WatchHistoryEntry[]} watched - Recently watched videos
+ * @returns {RecommendationSource[]} Sources with keywords and weight
+ */
+export const getRecommendationSources = (
+  liked: PexelsVideo[],
+  rated: RatedVideo[],
+  watched: WatchHistoryEntry[]
+): RecommendationSource[] => {
+  const sources = new Map<string, RecommendationSource>();
+  const add = (source: RecommendationSource) => {
+    if (!sources.has(source.videoId) && source.tags.length > 0) sources.set(source.videoId, source);
+  };
+
+  liked.forEach((video) =>
+    add({
+      videoId: video._id,
+      title: getVideoTitle(video.url, video.user.name),
+      tags: getVideoTags(video.url, video.user.name),
+      reason: "liked",
+      weight: SOURCE_WEIGHTS.liked,
+    })
+  );
+  rated
+    .filter((item) => item.rating >= MIN_SOURCE_RATING)
+    .forEach((item) =>
+      add({
+        videoId: item.videoId,
+        title: getVideoTitle(item.url, item.author),
+        tags: getVideoTags(item.url, item.author),
+        reason: "rated",
+        rating: item.rating,
+        weight: item.rating - 2,
+      })
+    );
+  watched
+    .filter((entry) => entry.url)
+    .forEach((entry) =>
+      add({
+        videoId: entry.videoId,
+        title: getVideoTitle(entry.url ?? "", entry.author),
+        tags: getVideoTags(entry.url ?? "", entry.author),
+        reason: "watched",
+        weight: SOURCE_WEIGHTS.watched,
+      })
+    );
+
+  return [...sources.values()];
+};
+
+/**
+ * Scores candidate videos against the sources
+ * A candidate earns the weight of a source for every keyword they share; the
+ * source with the biggest contribution is the one shown as the reason.
+ * Sources themselves and excluded videos (e.g. already liked) are skipped
+ *
+ * @param {PexelsVideo[]} candidates - Videos that may be recommended
+ * @param {RecommendationSource[]} sources - User activity
+ * @param {Set<string>} excludeIds - IDs that must not be recommended
+ * @param {number} limit - Maximum recommendations
+ * @returns {Recommendation[]} Best matches first
+ */
+export const recommendVideos = (
+  candidates: PexelsVideo[],
+  sources: RecommendationSource[],
+  excludeIds: Set<string>,
+  limit: number
+): Recommendation[] => {
+  const sourceIds = new Set(sources.map((source) => source.videoId));
+  const seen = new Set<string>();
+  const recommendations: Recommendation[] = [];
+
+  for (const video of candidates) {
+    if (excludeIds.has(video._id) || sourceIds.has(video._id) || seen.has(video._id)) continue;
+    seen.add(video._id);
+
+    const tags = new Set(getVideoTags(video.url, video.user.name));
+    let score = 0;
+    let best: { source: RecommendationSource; contribution: number } | null = null;
+
+    for (const source of sources) {
+      const shared = source.tags.filter((tag) => tags.has(tag)).length;
+      if (shared === 0) continue;
+      const contribution = shared * source.weight;
+      score += contribution;
+      if (!best || contribution > best.contribution) best = { source, contribution };
+    }
+
+    if (best) recommendations.push({ video, source: best.source, score });
+  }
+
+  // Stable sort keeps the backend order (popularity) between equal scores
+  return recommendations.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Spanish explanation of a recommendation for the "why" tooltip
+ *
+ * @param {RecommendationSource} source - Source that contributed the most
+ * @returns {string} e.g. 'Porque te gustó "Waves crashing on the shore"'
+ */
+export const describeRecommendationSource = (source: RecommendationSource): string => {
+  switch (source.reason) {
+    case "liked":
+      return `Porque te gustó "${source.title}"`;
+    case "rated":
+      return `Porque calificaste "${source.title}" con ${source.rating} estrellas`;
+    case "watched":
+      return `Porque viste "${source.title}"`;
+  }
+};
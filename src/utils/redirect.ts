@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Helpers to send the user back to where they were after logging in
+ * @module utils/redirect
+ */
+
+/**
+ * Router state passed to /login by ProtectedRoute
+ */
+export interface ReturnToState {
+  from?: string;
+}
+
+/**
+ * Routes that must never be used as a return path
+ */
+const AUTH_PATHS = ["/login", "/register", "/forgot-password", "/reset-password"];
+
+/**
+ * Gets the route the user should return to after logging in
+ * Only accepts internal paths (starting with a single "/") that are not auth pages
+ *
+ * @param state - Router location state
+ * @param fallback - Route used when there is no valid return path (default: "/home")
+ * @returns Path including query string, e.g. "/search?category=music"
+ *
+ * @example
+ * const target = getReturnPath(location.state); // "/search?category=music"
+ */
+export const getReturnPath = (state: unknown, fallback: string = "/home"): string => {
+  const from = (state as ReturnToState | null)?.from;
+
+  if (typeof from !== "string" || !from.startsWith("/") || from.startsWith("//")) {
+    return fallback;
+  }
+
+  if (AUTH_PATHS.some((path) => from === path || from.startsWith(`${path}/`) || from.startsWith(`${path}?`))) {
+    return fallback;
+  }
+
+  return from;
+};
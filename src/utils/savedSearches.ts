@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Helpers for saved searches
+ * A saved search is identified by its canonical search params, so it matches
+ * the SearchPage URL no matter the order the params were written in
+ * @module utils/savedSearches
+ */
+
+import type { PexelsVideo } from "../types/pexels.types";
+import type { SavedSearch } from "../types/search.types";
+import { getFilterChips, parseSearchFilters, toFilterQuery } from "./searchFilters";
+import { SORT_PARAM, getSortLabel, parseSortOption } from "./videoSort";
+import { getCategoryLabel } from "./categories";
+
+/**
+ * URL parameter with the ID of the saved search being visited
+ * @constant {string}
+ */
+export const SAVED_SEARCH_PARAM = "saved";
+
+/**
+ * Builds the canonical query of a search: category, filters and sort order
+ * Unknown params (including the saved search ID) are dropped
+ *
+ * @param {URLSearchParams} params - SearchPage search params
+ * @returns {string} Query string without "?", e.g. "category=ocean&orientation=portrait&sort=rating"
+ */
+export const getSearchKey = (params: URLSearchParams): string => {
+  const next = new URLSearchParams();
+  const category = params.get("category");
+  if (category) next.set("category", category);
+  new URLSearchParams(toFilterQuery(parseSearchFilters(params))).forEach((value, key) => next.set(key, value));
+  const sort = parseSortOption(params.get(SORT_PARAM));
+  if (sort !== "relevance") next.set(SORT_PARAM, sort);
+  return next.toString();
+};
+
+/**
+ * Gets the SearchPage path that opens a saved search
+ *
+ * @param {SavedSearch} search - Saved search
+ * @returns {string} Path, e.g. "/search?category=ocean&saved=abc"
+ */
+export const getSavedSearchPath = (search: SavedSearch): string => {
+  const params = new URLSearchParams(search.query);
+  params.set(SAVED_SEARCH_PARAM, search.id);
+  return `/search?${params}`;
+};
+
+/**
+ * Describes a saved search in Spanish, e.g. "Ocean · Autor: Jane Doe · Orden: Mejor valorados"
+ *
+ * @param {SavedSearch} search - Saved search
+ * @returns {string} Summary of its category, filters and order
+ */
+export const describeSavedSearch = (search: SavedSearch): string => {
+  const params = new URLSearchParams(search.query);
+  const sort = parseSortOption(params.get(SORT_PARAM));
+  const parts = [
+    getCategoryLabel(params.get("category") ?? "popular"),
+    ...getFilterChips(parseSearchFilters(params)).map((chip) => chip.label),
+  ];
+  if (sort !== "relevance") parts.push(`Orden: ${getSortLabel(sort)}`);
+  return parts.join(" · ");
+};
+
+/**
+ * Checks whether a video is new since the previous visit
+ * A video is new if it wasn't shown before and, when the backend reports
+ * createdAt, it was added after the visit (so videos on pages that were never
+ * loaded don't count as new)
+ *
+ * @param {PexelsVideo} video - Video in the results
+ * @param {string} lastVisitedAt - ISO date of the previous visit
+ * @param {Set<string>} seenIds - Videos shown in previous visits
+ * @returns {boolean} True if the video is new
+ */
+export const isNewSinceVisit = (video: PexelsVideo, lastVisitedAt: string, seenIds: Set<string>): boolean => {
+  if (seenIds.has(video._id)) return false;
+  if (!video.createdAt) return true;
+  const createdAt = new Date(video.createdAt).getTime();
+  return Number.isNaN(createdAt) || createdAt > new Date(lastVisitedAt).getTime();
+};
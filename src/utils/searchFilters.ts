@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Advanced search filters: URL encoding, backend query and client-side matching
+ * The same filters travel in the page URL (shareable searches), in the backend
+ * request, and are applied again in the browser in case the backend ignores them
+ * @module utils/searchFilters
+ */
+
+import type { PexelsVideo, VideoSearchFilters } from "../types/pexels.types";
+
+/**
+ * Selectable values and their Spanish labels
+ * @constant
+ */
+export const ORIENTATION_OPTIONS: Array<{ value: NonNullable<VideoSearchFilters["orientation"]>; label: string }> = [
+  { value: "landscape", label: "Horizontal" },
+  { value: "portrait", label: "Vertical" },
+  { value: "square", label: "Cuadrado" },
+];
+
+export const SIZE_OPTIONS: Array<{ value: NonNullable<VideoSearchFilters["size"]>; label: string }> = [
+  { value: "small", label: "HD (720p)" },
+  { value: "medium", label: "Full HD (1080p)" },
+  { value: "large", label: "4K (2160p)" },
+];
+
+export const ADDED_WITHIN_OPTIONS: Array<{ value: NonNullable<VideoSearchFilters["addedWithin"]>; label: string }> = [
+  { value: "week", label: "Última semana" },
+  { value: "month", label: "Último mes" },
+];
+
+/**
+ * Minimum length (px) of the shorter side for each size
+ * @constant {Record<string, number>}
+ */
+const MIN_SHORT_SIDE: Record<NonNullable<VideoSearchFilters["size"]>, number> = {
+  small: 720,
+  medium: 1080,
+  large: 2160,
+};
+
+/**
+ * Age limit (ms) for each "added within" value
+ * @constant {Record<string, number>}
+ */
+const ADDED_WITHIN_MS: Record<NonNullable<VideoSearchFilters["addedWithin"]>, number> = {
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * URL / backend parameter name for each filter
+ * @constant {Record<keyof VideoSearchFilters, string>}
+ */
+const PARAM_NAMES: Record<keyof VideoSearchFilters, string> = {
+  orientation: "orientation",
+  size: "size",
+  minDuration: "min_duration",
+  maxDuration: "max_duration",
+  addedWithin: "added_within",
+  author: "author",
+};
+
+const pickOption = <T extends string>(value: string | null, options: Array<{ value: T }>): T | undefined =>
+  options.find((option) => option.value === value)?.value;
+
+const readText = (value: string | null): string | undefined => value?.trim() || undefined;
+
+const readSeconds = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === "") return undefined;
+  const seconds = Math.floor(Number(value));
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+/**
+ * Reads the filters from URL search params, ignoring unknown or invalid values
+ *
+ * @param {URLSearchParams} params - Page search params
+ * @returns {VideoSearchFilters} Valid filters
+ * @example
+ * parseSearchFilters(new URLSearchParams("orientation=portrait&max_duration=30"));
+ * // { orientation: "portrait", maxDuration: 30 }
+ */
+export const parseSearchFilters = (params: URLSearchParams): VideoSearchFilters => {
+  const filters: VideoSearchFilters = {
+    orientation: pickOption(params.get(PARAM_NAMES.orientation), ORIENTATION_OPTIONS),
+    size: pickOption(params.get(PARAM_NAMES.size), SIZE_OPTIONS),
+    minDuration: readSeconds(params.get(PARAM_NAMES.minDuration)),
+    maxDuration: readSeconds(params.get(PARAM_NAMES.maxDuration)),
+    addedWithin: pickOption(params.get(PARAM_NAMES.addedWithin), ADDED_WITHIN_OPTIONS),
+    author: readText(params.get(PARAM_NAMES.author)),
+  };
+
+  // An inverted range is treated as a typo: swap the bounds
+  if (filters.minDuration !== undefined && filters.maxDuration !== undefined && filters.minDuration > filters.maxDuration) {
+    [filters.minDuration, filters.maxDuration] = [filters.maxDuration, filters.minDuration];
+  }
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as VideoSearchFilters;
+};
+
+/**
+ * Writes the filters into a copy of the given search params
+ * Other params (e.g. category) are kept; filters set to undefined are removed
+ *
+ * @param {URLSearchParams} params - Current search params
+ * @param {VideoSearchFilters} filters - Filters to write
+ * @returns {URLSearchParams} New search params
+ * @example
+ * setSearchParams((prev) => writeSearchFilters(prev, { ...filters, size: "medium" }));
+ */
+export const writeSearchFilters = (params: URLSearchParams, filters: VideoSearchFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  for (const [key, name] of Object.entries(PARAM_NAMES) as Array<[keyof VideoSearchFilters, string]>) {
+    const value = filters[key];
+    if (value === undefined) {
+      next.delete(name);
+    } else {
+      next.set(name, String(value));
+    }
+  }
+  return next;
+};
+
+/**
+ * Builds the query string sent to the backend (empty string if no filters)
+ * Keys are always in the same order so it can be part of a cache key
+ *
+ * @param {VideoSearchFilters} filters - Active filters
+ * @returns {string} Query string without the leading "?" or "&"
+ * @example
+ * toFilterQuery({ orientation: "portrait", size: "medium" }); // "orientation=portrait&size=medium"
+ */
+export const toFilterQuery = (filters: VideoSearchFilters): string =>
+  writeSearchFilters(new URLSearchParams(), filters).toString();
+
+/**
+ * Checks whether any filter is set
+ *
+ * @param {VideoSearchFilters} filters - Filters to check
+ * @returns {boolean} True if at least one filter is active
+ */
+export const hasSearchFilters = (filters: VideoSearchFilters): boolean =>
+  Object.values(filters).some((value) => value !== undefined);
+
+/**
+ * A removable chip describing one active filter
+ * @property {Array<keyof VideoSearchFilters>} keys - Filters cleared when the chip is removed
+ * @property {string} label - Spanish label shown in the chip
+ */
+export interface FilterChip {
+  keys: Array<keyof VideoSearchFilters>;
+  label: string;
+}
+
+/**
+ * Describes the active filters as chips (the duration range is a single chip)
+ *
+ * @param {VideoSearchFilters} filters - Active filters
+ * @returns {FilterChip[]} Chips in display order
+ * @example
+ * getFilterChips({ author: "Jane Doe", maxDuration: 29 });
+ * // [{ keys: ["author"], label: "Autor: Jane Doe" }, { keys: ["minDuration", "maxDuration"], label: "Duración: ≤ 29 s" }]
+ */
+export const getFilterChips = (filters: VideoSearchFilters): FilterChip[] => {
+  const chips: FilterChip[] = [];
+  const { minDuration, maxDuration } = filters;
+
+  if (filters.author) chips.push({ keys: ["author"], label: `Autor: ${filters.author}` });
+  if (minDuration !== undefined || maxDuration !== undefined) {
+    const range =
+      minDuration === undefined
+        ? `≤ ${maxDuration} s`
+        : maxDuration === undefined
+          ? `≥ ${minDuration} s`
+          : minDuration === maxDuration
+            ? `${minDuration} s`
+            : `${minDuration}–${maxDuration} s`;
+    chips.push({ keys: ["minDuration", "maxDuration"], label: `Duración: ${range}` });
+  }
+  if (filters.orientation) {
+    const option = ORIENTATION_OPTIONS.find((o) => o.value === filters.orientation);
+    chips.push({ keys: ["orientation"], label: `Orientación: ${option?.label}` });
+  }
+  if (filters.size) {
+    const option = SIZE_OPTIONS.find((o) => o.value === filters.size);
+    chips.push({ keys: ["size"], label: `Resolución: ${option?.label}` });
+  }
+  if (filters.addedWithin) {
+    const option = ADDED_WITHIN_OPTIONS.find((o) => o.value === filters.addedWithin);
+    chips.push({ keys: ["addedWithin"], label: `Añadido: ${option?.label}` });
+  }
+
+  return chips;
+};
+
+/**
+ * Checks a video against the filters in the browser
+ * Used when the backend ignores the filter params
+ *
+ * @param {PexelsVideo} video - Video to check
+ * @param {VideoSearchFilters} filters - Active filters
+ * @param {number} [now] - Reference time for "added within"
+ * @returns {boolean} True if the video matches every filter
+ */
+export const matchesSearchFilters = (
+  video: PexelsVideo,
+  filters: VideoSearchFilters,
+  now: number = Date.now()
+): boolean => {
+  const { width, height, duration } = video;
+
+  if (filters.orientation) {
+    const ratio = height > 0 ? width / height : 0;
+    const orientation = ratio >= 0.9 && ratio <= 1.1 ? "square" : ratio > 1 ? "landscape" : "portrait";
+    if (orientation !== filters.orientation) return false;
+  }
+
+  if (filters.size && Math.min(width, height) < MIN_SHORT_SIDE[filters.size]) return false;
+  if (filters.minDuration !== undefined && duration < filters.minDuration) return false;
+  if (filters.maxDuration !== undefined && duration > filters.maxDuration) return false;
+
+  if (filters.author && !video.user.name.toLowerCase().includes(filters.author.toLowerCase())) return false;
+
+  if (filters.addedWithin) {
+    const createdAt = video.createdAt ? new Date(video.createdAt).getTime() : NaN;
+    if (Number.isNaN(createdAt) || now - createdAt > ADDED_WITHIN_MS[filters.addedWithin]) return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Parser for the search box query language
+ * Free text plus `key:value` qualifiers, e.g.
+ * `ocean author:"Jane Doe" duration:<30 orientation:portrait sort:rating`.
+ * Keys and values accept English and Spanish names; errors keep their position
+ * in the input so the search box can highlight them
+ * @module utils/searchQuery
+ */
+
+import type { VideoSearchFilters, VideoSortOption } from "../types/pexels.types";
+import type { SearchQuery, SearchQueryError } from "../types/search.types";
+import { hasSearchFilters, writeSearchFilters } from "./searchFilters";
+import { writeSortOption } from "./videoSort";
+import { simplifyText } from "./text";
+
+/**
+ * Qualifiers understood by the parser
+ */
+type QueryKey = "author" | "duration" | "orientation" | "size" | "added" | "sort";
+
+/**
+ * Accepted spellings of each key (already lowercase and without accents)
+ * @constant {Record<string, QueryKey>}
+ */
+const KEY_ALIASES: Record<string, QueryKey> = {
+  author: "author",
+  autor: "author",
+  duration: "duration",
+  duracion: "duration",
+  orientation: "orientation",
+  orientacion: "orientation",
+  size: "size",
+  resolucion: "size",
+  added: "added",
+  anadido: "added",
+  fecha: "added",
+  sort: "sort",
+  orden: "sort",
+};
+
+const ORIENTATION_VALUES: Record<string, NonNullable<VideoSearchFilters["orientation"]>> = {
+  landscape: "landscape",
+  horizontal: "landscape",
+  portrait: "portrait",
+  vertical: "portrait",
+  square: "square",
+  cuadrado: "square",
+};
+
+const SIZE_VALUES: Record<string, NonNullable<VideoSearchFilters["size"]>> = {
+  small: "small",
+  hd: "small",
+  "720p": "small",
+  medium: "medium",
+  fullhd: "medium",
+  "1080p": "medium",
+  large: "large",
+  "4k": "large",
+  "2160p": "large",
+};
+
+const ADDED_VALUES: Record<string, NonNullable<VideoSearchFilters["addedWithin"]>> = {
+  week: "week",
+  semana: "week",
+  month: "month",
+  mes: "month",
+};
+
+const SORT_VALUES: Record<string, VideoSortOption> = {
+  relevance: "relevance",
+  relevancia: "relevance",
+  newest: "newest",
+  recientes: "newest",
+  likes: "likes",
+  rating: "rating",
+  valoracion: "rating",
+  shortest: "shortest",
+  cortos: "shortest",
+  longest: "longest",
+  largos: "longest",
+};
+
+/**
+ * Values listed in error messages for each key
+ * @constant {Record<QueryKey, string>}
+ */
+const VALUE_HINTS: Record<QueryKey, string> = {
+  author: 'un nombre, p. ej. author:"Jane Doe"',
+  duration: "<30, >=10, 10-60 o 2m",
+  orientation: "landscape, portrait o square",
+  size: "hd, fullhd o 4k",
+  added: "week o month",
+  sort: "relevance, newest, likes, rating, shortest o longest",
+};
+
+// A key is letters only, so things like "12:30" stay as free text
+const KEY_PATTERN = /([\p{L}_]+):/uy;
+const DURATION_COMPARISON = /^(<=|>=|<|>)?(\d+)(s|m)?$/;
+const DURATION_RANGE = /^(\d+)(s|m)?(?:-|\.\.)(\d+)(s|m)?$/;
+
+/**
+ * Looks up an alias ignoring inherited keys such as "constructor"
+ */
+const lookup = <T>(aliases: Record<string, T>, value: string): T | undefined =>
+  Object.hasOwn(aliases, value) ? aliases[value] : undefined;
+
+const toSeconds = (amount: string, unit: string | undefined): number =>
+  unit === "m" ? Number(amount) * 60 : Number(amount);
+
+/**
+ * Parses a duration value into a [min, max] range in seconds
+ * "<30" means under 30 s (max 29), "30" means exactly 30 s
+ *
+ * @param {string} value - Value after "duration:"
+ * @returns {Pick<VideoSearchFilters, "minDuration" | "maxDuration"> | null} Range or null if invalid
+ */
+const parseDuration = (value: string): Pick<VideoSearchFilters, "minDuration" | "maxDuration"> | null => {
+  const range = DURATION_RANGE.exec(value);
+  if (range) {
+    const min = toSeconds(range[1], range[2]);
+    const max = toSeconds(range[3], range[4]);
+    return min <= max ? { minDuration: min, maxDuration: max } : null;
+  }
+
+  const comparison = DURATION_COMPARISON.exec(value);
+  if (!comparison) return null;
+  const seconds = toSeconds(comparison[2], comparison[3]);
+  switch (comparison[1]) {
+    case "<":
+      return seconds > 0 ? { maxDuration: seconds - 1 } : null;
+    case "<=":
+      return { maxDuration: seconds };
+    case ">":
+      return { minDuration: seconds + 1 };
+    case ">=":
+      return { minDuration: seconds };
+    default:
+      return { minDuration: seconds, maxDuration: seconds };
+  }
+};
+
+/**
+ * Reads a value starting at the given offset: a quoted string or everything up to the next space
+ *
+ * @param {string} input - Full query
+ * @param {number} start - Offset of the first character of the value
+ * @returns {{ value: string; end: number; unterminated: boolean }} Value without quotes and offset after it
+ */
+const readValue = (input: string, start: number): { value: string; end: number; unterminated: boolean } => {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) return { value: input.slice(start + 1), end: input.length, unterminated: true };
+    return { value: input.slice(start + 1, close), end: close + 1, unterminated: false };
+  }
+
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(start, end), end, unterminated: false };
+};
+
+/**
+ * Parses the search box text into free text, filters and sort order
+ * Later qualifiers override earlier ones; invalid ones are reported and ignored
+ *
+ * @param {string} input - Text typed in the search box
+ * @returns {SearchQuery} Parsed query (errors is empty when the query is valid)
+ * @example
+ * parseSearchQuery('ocean author:"Jane Doe" duration:<30 sort:rating');
+ * // { text: "ocean", filters: { author: "Jane Doe", maxDuration: 29 }, sort: "rating", errors: [] }
+ */
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const words: string[] = [];
+  const filters: VideoSearchFilters = {};
+  const errors: SearchQueryError[] = [];
+  let sort: VideoSortOption | undefined;
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    KEY_PATTERN.lastIndex = start;
+    const keyMatch = KEY_PATTERN.exec(input);
+    const { value, end, unterminated } = readValue(input, keyMatch ? KEY_PATTERN.lastIndex : start);
+    index = end;
+
+    if (unterminated) {
+      errors.push({ start, end, message: "Faltan las comillas de cierre" });
+      continue;
+    }
+
+    if (!keyMatch) {
+      if (value.trim()) words.push(value.trim());
+      continue;
+    }
+
+    const key = lookup(KEY_ALIASES, simplifyText(keyMatch[1]));
+    if (!key) {
+      errors.push({ start, end, message: `Filtro desconocido "${keyMatch[1]}"` });
+      continue;
+    }
+    if (!value.trim()) {
+      errors.push({ start, end, message: `Falta el valor de ${keyMatch[1]}: usa ${VALUE_HINTS[key]}` });
+      continue;
+    }
+
+    const normalized = simplifyText(value.trim());
+    let valid = true;
+    switch (key) {
+      case "author":
+        filters.author = value.trim();
+        break;
+      case "duration": {
+        const range = parseDuration(normalized);
+        if (range) {
+          delete filters.minDuration;
+          delete filters.maxDuration;
+          Object.assign(filters, range);
+        }
+        valid = range !== null;
+        break;
+      }
+      case "orientation": {
+        const orientation = lookup(ORIENTATION_VALUES, normalized);
+        if (orientation) filters.orientation = orientation;
+        valid = orientation !== undefined;
+        break;
+      }
+      case "size": {
+        const size = lookup(SIZE_VALUES, normalized);
+        if (size) filters.size = size;
+        valid = size !== undefined;
+        break;
+      }
+      case "added": {
+        const addedWithin = lookup(ADDED_VALUES, normalized);
+        if (addedWithin) filters.addedWithin = addedWithin;
+        valid = addedWithin !== undefined;
+        break;
+      }
+      case "sort": {
+        const order = lookup(SORT_VALUES, normalized);
+        if (order) sort = order;
+        valid = order !== undefined;
+        break;
+      }
+    }
+
+    if (!valid) {
+      errors.push({ start, end, message: `Valor no válido "${value}" para ${keyMatch[1]}: usa ${VALUE_HINTS[key]}` });
+    }
+  }
+
+  return { text: words.join(" "), filters, sort, errors };
+};
+
+/**
+ * Builds the SearchPage path for a query typed outside SearchPage
+ * (Navbar search field, command palette)
+ *
+ * @param {string} input - Query in the search box language
+ * @returns {string | null} Path such as "/search?category=ocean&max_duration=29", or null if the query is empty or invalid
+ * @example
+ * getSearchPath("ocean sort:rating"); // "/search?category=ocean&sort=rating"
+ */
+export const getSearchPath = (input: string): string | null => {
+  const { text, filters, sort, errors } = parseSearchQuery(input);
+  if (errors.length > 0 || (!text && !hasSearchFilters(filters) && !sort)) return null;
+
+  const params = writeSearchFilters(new URLSearchParams(text ? { category: text } : {}), filters);
+  return `/search?${sort ? writeSortOption(params, sort) : params}`;
+};
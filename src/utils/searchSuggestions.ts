@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Autocomplete suggestions for the search box
+ * Recent searches match the whole text; categories and authors complete the
+ * word being typed, so they can be combined with query language qualifiers
+ * @module utils/searchSuggestions
+ */
+
+import type { SearchSuggestion } from "../types/search.types";
+import type { VideoCategory } from "../types/category.types";
+import { simplifyText } from "./text";
+
+/**
+ * Data the suggestions are drawn from
+ * @property {string[]} recent - User's recent searches, most recent first
+ * @property {VideoCategory[]} categories - Available categories
+ * @property {string[]} authors - Authors seen while browsing, most recent first
+ */
+export interface SuggestionSources {
+  recent: string[];
+  categories: VideoCategory[];
+  authors: string[];
+}
+
+/**
+ * Maximum suggestions of each kind
+ * @constant {number}
+ */
+const MAX_PER_KIND = 5;
+
+const AUTHOR_TOKEN = /^(?:author|autor):"?(.*)$/i;
+
+/**
+ * Finds the word being typed at the end of the text
+ * Spaces inside an open quote belong to the word (e.g. `author:"Jane D`)
+ *
+ * @param {string} input - Search box text
+ * @returns {number} Offset where the last word starts
+ */
+const getLastTokenStart = (input: string): number => {
+  let start = 0;
+  let inQuotes = false;
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && /\s/.test(input[i])) start = i + 1;
+  }
+  return start;
+};
+
+/**
+ * Builds the suggestions for the current search box text
+ *
+ * @param {string} input - Search box text
+ * @param {SuggestionSources} sources - Recent searches, categories and authors
+ * @returns {SearchSuggestion[]} Suggestions grouped by kind (recent, category, author)
+ * @example
+ * getSearchSuggestions("ocean jan", { recent: [], categories: [], authors: ["Jane Doe"] });
+ * // [{ kind: "author", label: "Jane Doe", query: 'ocean author:"Jane Doe"' }]
+ */
+export const getSearchSuggestions = (input: string, sources: SuggestionSources): SearchSuggestion[] => {
+  const text = simplifyText(input.trim());
+  const tokenStart = getLastTokenStart(input);
+  const token = input.slice(tokenStart);
+  const before = input.slice(0, tokenStart);
+
+  const recent = sources.recent
+    .filter((item) => simplifyText(item).includes(text) && simplifyText(item) !== text)
+    .slice(0, MAX_PER_KIND)
+    .map((item): SearchSuggestion => ({ kind: "recent", label: item, query: item }));
+
+  // Qualifiers other than author:... don't get completions
+  const authorMatch = AUTHOR_TOKEN.exec(token);
+  const isPlainWord = !token.includes(":") && !token.includes('"');
+  const word = simplifyText(authorMatch ? authorMatch[1] : isPlainWord ? token : "");
+
+  const categories =
+    isPlainWord && (word || !text)
+      ? sources.categories
+          .filter((category) =>
+            [category.id, ...Object.values(category.labels), ...category.searchTerms].some((term) =>
+              simplifyText(term).startsWith(word)
+            )
+          )
+          .slice(0, MAX_PER_KIND)
+          .map((category): SearchSuggestion => ({
+            kind: "category",
+            label: category.labels.es,
+            query: `${before}${category.id}`,
+          }))
+      : [];
+
+  const authors =
+    authorMatch || (isPlainWord && word.length >= 2)
+      ? sources.authors
+          .filter((name) => simplifyText(name).includes(word))
+          .slice(0, MAX_PER_KIND)
+          .map((name): SearchSuggestion => ({
+            kind: "author",
+            label: name,
+            query: `${before}author:"${name}"`,
+          }))
+      : [];
+
+  return [...recent, ...categories, ...authors];
+};
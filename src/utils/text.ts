@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Text helpers shared by the search features
+ * @module utils/text
+ */
+
+/**
+ * Lowercases and strips accents, so typed text matches regardless of case and diacritics
+ *
+ * @param {string} value - Any text
+ * @returns {string} Simplified text
+ * @example
+ * simplifyText("Música"); // "musica"
+ */
+export const simplifyText = (value: string): string =>
+  value.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase();
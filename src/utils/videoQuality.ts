@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Quality selection among the files of a video
+ * Resolutions are the shorter side of the frame, so a 1080x1920 portrait
+ * file is "1080p" like a 1920x1080 landscape one
+ * @module utils/videoQuality
+ */
+
+import type { VideoFile } from "../types/pexels.types";
+import type { VideoQualityPreference } from "../types/player.types";
+
+/**
+ * Id of the automatic entry of the quality menu
+ * @constant {string}
+ */
+export const AUTO_QUALITY = "auto";
+
+/**
+ * Resolution assumed for files without dimensions
+ * @constant
+ */
+const FALLBACK_RESOLUTION: Record<VideoFile["quality"], number> = {
+  hd: 720,
+  sd: 360,
+  hls: 720,
+};
+
+/**
+ * Bits per pixel and frame of a typical H.264 web encode, used to estimate bitrates
+ * @constant {number}
+ */
+const BITS_PER_PIXEL = 0.1;
+
+/**
+ * Share of the measured throughput a file may use, leaving room for variations
+ * @constant {number}
+ */
+const THROUGHPUT_MARGIN = 0.8;
+
+/**
+ * Resolution of a file (shorter side in px)
+ *
+ * @param {VideoFile} file - Video file
+ * @returns {number} e.g. 720
+ */
+export const getFileResolution = (file: VideoFile): number => {
+  if (file.width && file.height) return Math.min(file.width, file.height);
+  return FALLBACK_RESOLUTION[file.quality];
+};
+
+/**
+ * Label of a file in the quality menu
+ * Frame rates above 30 are added ("1080p60"), like most players do
+ *
+ * @param {VideoFile} file - Video file
+ * @returns {string} e.g. "720p", "1080p60"
+ */
+export const getQualityLabel = (file: VideoFile): string => {
+  const fps = file.fps && file.fps > 31 ? Math.round(file.fps) : "";
+  return `${getFileResolution(file)}p${fps}`;
+};
+
+/**
+ * Estimated bitrate of a file
+ *
+ * @param {VideoFile} file - Video file
+ * @returns {number} Kilobits per second
+ */
+export const estimateBitrate = (file: VideoFile): number => {
+  const resolution = getFileResolution(file);
+  // Files without dimensions are assumed to be 16:9
+  const pixels = file.width && file.height ? file.width * file.height : resolution * resolution * (16 / 9);
+  return (pixels * (file.fps || 30) * BITS_PER_PIXEL) / 1000;
+};
+
+/**
+ * Progressive files of a video, best first
+ * HLS manifests are left out, and so are files that would repeat a label of the
+ * menu (same resolution and frame rate in another format)
+ *
+ * @param {VideoFile[]} files - video_files of a video
+ * @returns {VideoFile[]} Files sorted by resolution and fps, descending
+ */
+export const getPlayableFiles = (files: VideoFile[]): VideoFile[] => {
+  const seen = new Set<string>();
+  return files
+    .filter((file) => file.quality !== "hls")
+    .sort((a, b) => getFileResolution(b) - getFileResolution(a) || (b.fps ?? 0) - (a.fps ?? 0))
+    .filter((file) => {
+      const label = getQualityLabel(file);
+      if (seen.has(label)) return false;
+      seen.add(label);
+      return true;
+    });
+};
+
+/**
+ * File closest to a remembered resolution
+ * Ties go to the lower resolution, so a 720 preference never picks 1080 over 480
+ *
+ * @param {VideoFile[]} files - Files from getPlayableFiles (best first)
+ * @param {number} resolution - Preferred resolution
+ * @returns {VideoFile | undefined} Closest file
+ */
+export const pickPreferredFile = (files: VideoFile[], resolution: number): VideoFile | undefined => {
+  let best: VideoFile | undefined;
+  for (const file of files) {
+    const distance = Math.abs(getFileResolution(file) - resolution);
+    if (!best || distance <= Math.abs(getFileResolution(best) - resolution)) best = file;
+  }
+  return best;
+};
+
+/**
+ * File chosen by the automatic mode
+ * The best file that is not bigger than the screen area available and whose
+ * estimated bitrate fits in the measured throughput; the smallest one otherwise
+ *
+ * @param {VideoFile[]} files - Files from getPlayableFiles (best first)
+ * @param {{ width: number; height: number }} viewport - Available size in device pixels
+ * @param {number | null} throughput - Measured throughput in kbps (null when unknown)
+ * @returns {VideoFile | undefined} Chosen file
+ */
+export const pickAutoFile = (
+  files: VideoFile[],
+  viewport: { width: number; height: number },
+  throughput: number | null
+): VideoFile | undefined => {
+  const viewportResolution = Math.min(viewport.width, viewport.height);
+  const fits = files.find(
+    (file) =>
+      getFileResolution(file) <= viewportResolution &&
+      (throughput === null || estimateBitrate(file) <= throughput * THROUGHPUT_MARGIN)
+  );
+  return fits ?? files[files.length - 1];
+};
+
+/**
+ * Next lighter file (lower estimated bitrate), used when playback keeps stalling
+ *
+ * @param {VideoFile[]} files - Files from getPlayableFiles (best first)
+ * @param {string} currentId - Id of the file playing
+ * @returns {VideoFile | undefined} Lower file, or undefined at the lowest one
+ */
+export const getLowerFile = (files: VideoFile[], currentId: string): VideoFile | undefined => {
+  const index = files.findIndex((file) => file._id === currentId);
+  const current = files[index];
+  if (!current) return undefined;
+  return files.slice(index + 1).find((file) => estimateBitrate(file) < estimateBitrate(current));
+};
+
+/**
+ * Preference stored for a menu choice
+ *
+ * @param {string} id - Chosen menu id (AUTO_QUALITY or a file id)
+ * @param {VideoFile[]} files - Files of the video
+ * @returns {VideoQualityPreference} "auto" or the resolution of the file
+ */
+export const toQualityPreference = (id: string, files: VideoFile[]): VideoQualityPreference => {
+  const file = files.find((item) => item._id === id);
+  return file ? getFileResolution(file) : AUTO_QUALITY;
+};
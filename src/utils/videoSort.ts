@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Client-side ordering of video lists
+ * The order travels in the page URL (?sort=...) and is applied to the videos
+ * already loaded, so it never changes which videos the backend returns
+ * @module utils/videoSort
+ */
+
+import type { PexelsVideo, VideoSortOption } from "../types/pexels.types";
+
+/**
+ * Selectable orders and their Spanish labels
+ * @constant
+ */
+export const SORT_OPTIONS: Array<{ value: VideoSortOption; label: string }> = [
+  { value: "relevance", label: "Relevancia" },
+  { value: "newest", label: "Más recientes" },
+  { value: "likes", label: "Más gustados" },
+  { value: "rating", label: "Mejor valorados" },
+  { value: "shortest", label: "Más cortos" },
+  { value: "longest", label: "Más largos" },
+];
+
+/**
+ * URL parameter holding the order
+ * @constant {string}
+ */
+export const SORT_PARAM = "sort";
+
+/**
+ * Reads the order from a URL value, falling back to relevance
+ *
+ * @param {string | null} value - Raw value of the sort param
+ * @returns {VideoSortOption} Valid order
+ */
+export const parseSortOption = (value: string | null): VideoSortOption =>
+  SORT_OPTIONS.find((option) => option.value === value)?.value ?? "relevance";
+
+/**
+ * Writes the order into a copy of the given search params
+ * Relevance is the default, so it removes the param instead
+ *
+ * @param {URLSearchParams} params - Current search params
+ * @param {VideoSortOption} sort - Order to write
+ * @returns {URLSearchParams} New search params
+ * @example
+ * setSearchParams((prev) => writeSortOption(prev, "rating"), { replace: true });
+ */
+export const writeSortOption = (params: URLSearchParams, sort: VideoSortOption): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  if (sort === "relevance") {
+    next.delete(SORT_PARAM);
+  } else {
+    next.set(SORT_PARAM, sort);
+  }
+  return next;
+};
+
+/**
+ * Gets the Spanish label of an order
+ *
+ * @param {VideoSortOption} sort - Order
+ * @returns {string} Label, e.g. "Mejor valorados"
+ */
+export const getSortLabel = (sort: VideoSortOption): string =>
+  SORT_OPTIONS.find((option) => option.value === sort)?.label ?? sort;
+
+const createdTime = (video: PexelsVideo): number => {
+  const time = video.createdAt ? new Date(video.createdAt).getTime() : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+};
+
+/**
+ * Comparators for every order except relevance
+ * Videos missing the compared field go last
+ * @constant
+ */
+const COMPARATORS: Record<Exclude<VideoSortOption, "relevance">, (a: PexelsVideo, b: PexelsVideo) => number> = {
+  newest: (a, b) => createdTime(b) - createdTime(a),
+  likes: (a, b) => (b.likesCount ?? 0) - (a.likesCount ?? 0),
+  rating: (a, b) =>
+    (b.averageRating ?? 0) - (a.averageRating ?? 0) || (b.totalRatings ?? 0) - (a.totalRatings ?? 0),
+  shortest: (a, b) => a.duration - b.duration,
+  longest: (a, b) => b.duration - a.duration,
+};
+
+/**
+ * Returns the videos in the given order without mutating the input
+ * Ties keep their original (backend) order
+ *
+ * @param {PexelsVideo[]} videos - Videos to sort
+ * @param {VideoSortOption} sort - Order to apply
+ * @returns {PexelsVideo[]} Sorted copy (the same array for relevance)
+ * @example
+ * const sorted = sortVideos(videos, "rating");
+ */
+export const sortVideos = (videos: PexelsVideo[], sort: VideoSortOption): PexelsVideo[] => {
+  if (sort === "relevance") return videos;
+  return [...videos].sort(COMPARATORS[sort]);
+};
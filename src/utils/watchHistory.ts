@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Grouping and search of the watch history for the HistoryPage
+ * @module utils/watchHistory
+ */
+
+import type { WatchHistoryDay, WatchHistoryEntry } from "../types/history.types";
+import { getVideoTitle } from "./recommendations";
+import { simplifyText } from "./text";
+
+/**
+ * Local calendar day of a date
+ *
+ * @param {Date} date - Any date
+ * @returns {string} e.g. "2026-10-19"
+ */
+const getDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Title shown for a history entry
+ *
+ * @param {WatchHistoryEntry} entry - History entry
+ * @returns {string} Title from the Pexels slug, or "Video de <author>"
+ */
+export const getEntryTitle = (entry: WatchHistoryEntry): string => getVideoTitle(entry.url ?? "", entry.author);
+
+/**
+ * Whether an entry matches the text typed in the history search box
+ * Every word must appear in the title or the author, ignoring case and accents
+ *
+ * @param {WatchHistoryEntry} entry - History entry
+ * @param {string} query - Typed text
+ * @returns {boolean} True when it matches (an empty query matches everything)
+ * @example
+ * matchesHistoryQuery(entry, "olas jane"); // true for "Olas en la playa" by Jane Doe
+ */
+export const matchesHistoryQuery = (entry: WatchHistoryEntry, query: string): boolean => {
+  const words = simplifyText(query).split(/\s+/).filter(Boolean);
+  const text = simplifyText(`${getEntryTitle(entry)} ${entry.author}`);
+  return words.every((word) => text.includes(word));
+};
+
+/**
+ * Groups entries by the day they were watched, keeping their order (most recent first)
+ *
+ * @param {WatchHistoryEntry[]} entries - History entries, most recent first
+ * @param {Date} [now=new Date()] - Reference for "Hoy" and "Ayer"
+ * @returns {WatchHistoryDay[]} One group per day
+ * @example
+ * groupHistoryByDay(entries);
+ * // [{ key: "2026-10-19", label: "Hoy", entries: [...] }, { key: "2026-10-17", label: "viernes, 17 de octubre de 2026", ... }]
+ */
+export const groupHistoryByDay = (entries: WatchHistoryEntry[], now: Date = new Date()): WatchHistoryDay[] => {
+  const today = getDayKey(now);
+  const yesterday = getDayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+  const formatter = new Intl.DateTimeFormat("es", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+
+  const days: WatchHistoryDay[] = [];
+  entries.forEach((entry) => {
+    const date = new Date(entry.watchedAt);
+    const key = getDayKey(date);
+    const last = days[days.length - 1];
+    if (last?.key === key) {
+      last.entries.push(entry);
+      return;
+    }
+    const label = key === today ? "Hoy" : key === yesterday ? "Ayer" : formatter.format(date);
+    days.push({ key, label, entries: [entry] });
+  });
+  return days;
+};
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Rules for remembering where the user left a video
+ * Positions too close to the start aren't worth resuming, and positions
+ * close to the end count as a finished video
+ * @module utils/watchProgress
+ */
+
+import type { WatchHistoryEntry } from "../types/history.types";
+
+/**
+ * Seconds that must have been watched before the position is saved
+ * @constant {number}
+ */
+export const MIN_RESUME_POSITION = 3;
+
+/**
+ * Share of the duration after which a video counts as finished
+ * @constant {number}
+ */
+const FINISHED_RATIO = 0.95;
+
+/**
+ * Seconds before the end after which a video counts as finished (credits, fade-outs)
+ * @constant {number}
+ */
+const FINISHED_REMAINING = 3;
+
+/**
+ * Whether a position is close enough to the end to consider the video watched
+ *
+ * @param {number} position - Seconds played
+ * @param {number} duration - Length of the video in seconds
+ * @returns {boolean} True in the last 5% or the last few seconds
+ * @example
+ * isNearlyFinished(58, 60); // true
+ * isNearlyFinished(30, 60); // false
+ */
+export const isNearlyFinished = (position: number, duration: number): boolean =>
+  duration > 0 && (position >= duration * FINISHED_RATIO || duration - position <= FINISHED_REMAINING);
+
+/**
+ * Position worth saving for a point of playback
+ *
+ * @param {number} position - Seconds played
+ * @param {number} duration - Length of the video in seconds
+ * @returns {number | null} Whole seconds, or null when there is nothing to resume
+ * @example
+ * getResumePosition(83.6, 200); // 83
+ * getResumePosition(1, 200);    // null (just started)
+ * getResumePosition(198, 200);  // null (finished)
+ */
+export const getResumePosition = (position: number, duration: number): number | null => {
+  if (!Number.isFinite(position) || position < MIN_RESUME_POSITION) return null;
+  if (Number.isFinite(duration) && isNearlyFinished(position, duration)) return null;
+  return Math.floor(position);
+};
+
+/**
+ * Share of a history entry already watched, for the progress bar of the cards
+ *
+ * @param {WatchHistoryEntry | undefined} entry - History entry of the video
+ * @returns {number | null} Percentage from 0 to 100, null when there is no saved position
+ */
+export const getWatchedPercent = (entry: WatchHistoryEntry | undefined): number | null => {
+  if (!entry?.position || entry.duration <= 0) return null;
+  return Math.min(100, Math.round((entry.position / entry.duration) * 100));
+};
@@ -2,6 +2,9 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_REQUEST_TIMEOUT?: string;
+  readonly VITE_MOCK_BACKEND?: string;
   readonly VITE_PEXELS_API_KEY: string;
   // Agrega más variables de entorno aquí si las necesitas
 }
@@ -1,7 +1,40 @@
-import { defineConfig } from 'vite'
+import { createReadStream, existsSync, statSync } from 'node:fs'
+import { extname, resolve, sep } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
+/**
+ * Folder written by `npm run hls:sample` (git-ignored)
+ */
+const HLS_SAMPLE_DIR = resolve('.hls-sample')
+
+/**
+ * Content types of the HLS sample files
+ */
+const HLS_MIME_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.mp4': 'video/mp4',
+  '.m4s': 'video/iso.segment',
+}
+
+/**
+ * Serves the generated HLS sample at /hls/sample on the dev server only,
+ * so it never ends up in the production build
+ */
+const hlsSample = (): Plugin => ({
+  name: 'hls-sample',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/hls/sample', (req, res, next) => {
+      const file = resolve(HLS_SAMPLE_DIR, `.${decodeURIComponent((req.url ?? '/').split('?')[0])}`)
+      if (!file.startsWith(HLS_SAMPLE_DIR + sep) || !existsSync(file) || !statSync(file).isFile()) return next()
+      res.setHeader('Content-Type', HLS_MIME_TYPES[extname(file)] ?? 'application/octet-stream')
+      createReadStream(file).pipe(res)
+    })
+  },
+})
+
 export default defineConfig({
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), hlsSample()],
 })